@@ -1,8 +1,10 @@
 import { defineConfig } from 'rolldown'
+import { readFileSync } from 'node:fs'
 import { resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
 
 const root = fileURLToPath(new URL('.', import.meta.url))
+const { version } = JSON.parse(readFileSync(resolve(root, 'package.json'), 'utf8')) as { version: string }
 
 const entries = {
     index: resolve(root, 'src/index.ts'),
@@ -15,6 +17,8 @@ const entries = {
     styles: resolve(root, 'src/styles-module.ts'),
     playground: resolve(root, 'src/playground-module.ts'),
     node: resolve(root, 'src/node-module.ts'),
+    // Script del worker de WorkerTransport: tiene que quedar junto a `node.js`.
+    'node-transport-worker': resolve(root, 'src/node-transport-worker.ts'),
 }
 
 const external = [
@@ -24,6 +28,11 @@ const external = [
 
 const distDir = resolve(root, 'dist')
 
+// `better-logger` bin: build aparte (ESM, platform node) con shebang.
+const binEntries = {
+    'better-logger': resolve(root, 'src/bin/better-logger.ts'),
+}
+
 export default defineConfig([
     {
         input: entries,
@@ -40,6 +49,7 @@ export default defineConfig([
         treeshake: true,
         define: {
             'process.env.NODE_ENV': JSON.stringify('production'),
+            __BETTER_LOGGER_VERSION__: JSON.stringify(version),
         },
     },
     {
@@ -57,6 +67,25 @@ export default defineConfig([
         treeshake: true,
         define: {
             'process.env.NODE_ENV': JSON.stringify('production'),
+            __BETTER_LOGGER_VERSION__: JSON.stringify(version),
+        },
+    },
+    {
+        input: binEntries,
+        output: {
+            dir: resolve(distDir, 'bin'),
+            format: 'es',
+            entryFileNames: '[name].js',
+            chunkFileNames: 'chunks/[name]-[hash].js',
+            banner: '#!/usr/bin/env node',
+            sourcemap: true,
+        },
+        external,
+        platform: 'node',
+        treeshake: true,
+        define: {
+            'process.env.NODE_ENV': JSON.stringify('production'),
+            __BETTER_LOGGER_VERSION__: JSON.stringify(version),
         },
     },
 ])
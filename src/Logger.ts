@@ -21,14 +21,21 @@ import type {
     SerializerFn,
     HookEvent,
     HookCallback,
+    HookLogEntry,
     MiddlewareFn,
     TransportTarget,
     TransportRecord,
+    LogHistoryQuery,
+    ExportFormat,
+    SamplingStats,
+    DedupConfig,
+    TraceContext,
     ILogResourceRef,
     StackInfo,
     LogStyles,
     ILogAttributes,
-    LogAttributeValue
+    LogAttributeValue,
+    ILogException
 } from './types/index.js';
 
 import { LOG_LEVELS } from './types/index.js';
@@ -42,6 +49,9 @@ import {
 import { SerializerRegistry } from './serializers/index.js';
 import { HookManager } from './hooks/index.js';
 import { TransportManager } from './transports/index.js';
+import { LogHistory, exportRecords } from './history/index.js';
+import { Sampler } from './sampling/index.js';
+import { Deduplicator, formatRepeatSummary, type DedupSummary } from './dedup/index.js';
 
 // Utility imports
 import { parseStackTrace } from './utils/stackTrace.js';
@@ -76,6 +86,7 @@ import type { CLILogLevel, ISpinnerHandle, IBoxOptions, ITableOptions } from './
 
 // Bridge imports
 import { createLogContext, type LogContext } from './context/LogContext.js';
+import { resolveTraceContext } from './context/traceContext.js';
 import { createTransportBridge, type TransportBridge } from './transports/TransportBridge.js';
 import { createHookBridge, type HookBridge } from './hooks/HookBridge.js';
 import { createSerializerBridge, type SerializerBridge } from './serializers/SerializerBridge.js';
@@ -88,6 +99,21 @@ import { createStyleManager, type StyleManager } from './styles/StyleManager.js'
  */
 let LEVEL_STYLES = THEME_PRESETS.default;
 
+/**
+ * Lo que guarda el {@link Deduplicator} del primer record de cada ventana
+ * para poder emitir el resumen fuera del call site original (timer).
+ * @private
+ */
+interface RepeatPayload {
+    level: LogLevel;
+    message: string;
+    prefix: string | undefined;
+    stackInfo: StackInfo | null;
+    tag: string | undefined;
+    context: Record<string, unknown>;
+    trace: TraceContext | undefined;
+}
+
 /**
  * Clase principal Logger con capacidades avanzadas de logging
  * 
@@ -132,6 +158,12 @@ export class Logger {
     private hookBridge: HookBridge;
     private logContext: LogContext;
     private transportBridge: TransportBridge;
+    /** Ring buffer de los últimos `config.bufferSize` records emitidos. */
+    private history: LogHistory;
+    /** Sampler de `config.sampling` para el dispatch a transports. */
+    private sampler: Sampler | null;
+    /** Ventanas de `config.dedup`; `null` sin dedup configurado. */
+    private deduplicator: Deduplicator<RepeatPayload> | null = null;
     /** Fijado por `success()` para que `log()` salte su propio dispatch. */
     private _successTagDispatched = false;
     private styleManager: StyleManager;
@@ -194,6 +226,9 @@ export class Logger {
 
         // Enterprise features
         this.serializerBridge = createSerializerBridge();
+        if (this.config.redact) {
+            this.serializerBridge.getSerializerRegistry().setRedaction(this.config.redact);
+        }
         this.hookBridge = createHookBridge();
 
         // LogContext bridge
@@ -212,6 +247,11 @@ export class Logger {
         // TransportBridge
         this.transportBridge = createTransportBridge();
 
+        // Historial en memoria, acotado por bufferSize
+        this.history = new LogHistory(this.config.bufferSize ?? DEFAULT_CONFIG.bufferSize);
+        this.sampler = this.config.sampling ? new Sampler(this.config.sampling) : null;
+        this.setDedup(this.config.dedup);
+
         // StyleManager bridge
         this.styleManager = createStyleManager();
 
@@ -286,6 +326,22 @@ export class Logger {
     updateConfig(updates: Partial<LoggerConfig>): void {
         const previousAutoDetect = this.config.autoDetectTheme;
         this.config = { ...this.config, ...updates };
+
+        if (updates.bufferSize !== undefined) {
+            this.history.resize(updates.bufferSize);
+        }
+
+        if ('redact' in updates) {
+            this.serializerBridge.getSerializerRegistry().setRedaction(updates.redact ?? null);
+        }
+
+        if ('sampling' in updates) {
+            this.sampler = updates.sampling ? new Sampler(updates.sampling) : null;
+        }
+
+        if ('dedup' in updates) {
+            this.setDedup(updates.dedup);
+        }
         
         // Handle de cambios de auto-detection
         if (updates.autoDetectTheme !== undefined && updates.autoDetectTheme !== previousAutoDetect) {
@@ -527,6 +583,10 @@ export class Logger {
 
         this.config = { ...DEFAULT_CONFIG };
         this.styleManager.resetStyles();
+        this.history.resize(DEFAULT_CONFIG.bufferSize);
+        this.serializerBridge.getSerializerRegistry().setRedaction(null);
+        this.sampler = null;
+        this.setDedup(undefined);
 
         // Re-setup auto theme detection si está habilitado en la config por defecto
         if (this.config.autoDetectTheme) {
@@ -558,7 +618,8 @@ export class Logger {
             this.themeChangeListener = null;
         }
 
-        // Drain del queue de transports en cleanup.
+        // Resúmenes de dedup pendientes + drain del queue de transports.
+        this.deduplicator?.flush();
         await this.transportBridge.closeTransports();
 
         // Suelta las refs de handlers para que el GC los pueda recolectar.
@@ -1059,12 +1120,14 @@ export class Logger {
     }
 
     /**
-     * Fuerza el flush de todos los transports
+     * Fuerza el flush de todos los transports. Antes cierra las ventanas
+     * de `LoggerConfig.dedup`, para que sus resúmenes entren en el flush.
      *
      * @returns Promise que resuelve cuando todos los buffers están vaciados
      *
      */
     async flushTransports(): Promise<void> {
+        this.deduplicator?.flush();
         await this.transportBridge.flushTransports();
     }
 
@@ -1075,6 +1138,7 @@ export class Logger {
      *
      */
     async closeTransports(): Promise<void> {
+        this.deduplicator?.flush();
         await this.transportBridge.closeTransports();
     }
 
@@ -1087,6 +1151,71 @@ export class Logger {
         return this.transportBridge.getTransportManager();
     }
 
+    // ===== HISTORY =====
+
+    /**
+     * Consulta el historial en memoria: los últimos `bufferSize` records
+     * emitidos (mismo `TransportRecord` que reciben los transports), en orden
+     * cronológico. Pensado para volcados post-mortem desde un error handler
+     * o desde la consola de DevTools.
+     *
+     * @param query - Filtro opcional (rango de niveles, prefijo/scope,
+     *   ventana temporal, atributos, texto). Sin filtro devuelve todo.
+     * @returns Records que pasan el filtro, del más viejo al más reciente.
+     *
+     * @example
+     * process.on('uncaughtException', (err) => {
+     *   const lastLogs = logger.getHistory({ limit: 500 });
+     *   fs.writeFileSync('crash.json', JSON.stringify({ err: String(err), lastLogs }));
+     * });
+     *
+     * @example
+     * logger.getHistory({ minLevel: 'warn', prefix: 'DB', search: 'timeout' });
+     */
+    getHistory(query?: LogHistoryQuery): TransportRecord[] {
+        return this.history.query(query);
+    }
+
+    /**
+     * Vacía el historial en memoria sin cambiar su capacidad.
+     */
+    clearHistory(): void {
+        this.history.clear();
+    }
+
+    /**
+     * Contadores del sampling de `LoggerConfig.sampling` (records
+     * conservados y descartados, por nivel y por motivo), para extrapolar
+     * el volumen real en dashboards. El sampling propio de cada transport
+     * se consulta con `getTransportManager()?.getSamplingStats(id)`.
+     *
+     * @returns Contadores acumulados, o `undefined` sin sampling configurado.
+     *
+     * @example
+     * const stats = logger.getSamplingStats();
+     * // { kept: 1200, dropped: 8800, levels: { debug: { kept: 900, dropped: 8100 } }, reasons: {...} }
+     */
+    getSamplingStats(): SamplingStats | undefined {
+        return this.sampler?.stats();
+    }
+
+    /**
+     * Exporta el historial (opcionalmente filtrado) a uno de los
+     * {@link ExportFormat}. El HTML usa los colores del theme activo.
+     *
+     * @param format - `json` | `csv` | `markdown` | `plain` | `html`.
+     * @param query - Filtro opcional, igual que en {@link getHistory}.
+     * @returns Contenido exportado como string.
+     *
+     * @example
+     * const csv = logger.exportHistory('csv', { minLevel: 'warn' });
+     */
+    exportHistory(format: ExportFormat, query?: LogHistoryQuery): string {
+        return exportRecords(this.history.query(query), format, {
+            styles: this.styleManager.getStyles()
+        });
+    }
+
     // ===== CORE LOGGING METHODS =====
 
     /**
@@ -1109,6 +1238,16 @@ export class Logger {
      */
     protected _dispatchTag: string | undefined;
 
+    /**
+     * Ubicación y attributes pendientes de aplicar al siguiente
+     * `TransportRecord` emitido por `log()`. Los fija
+     * {@link logWithLocation}; `log()` los consume y los resetea a
+     * `undefined`, igual que `_dispatchTag`.
+     *
+     * @internal
+     */
+    protected _dispatchRecord: { location?: StackInfo; attributes?: ILogAttributes } | undefined;
+
     /**
      * Computa el contexto completamente mergueado para este logger.
      *
@@ -1169,6 +1308,17 @@ export class Logger {
      * @param {StackInfo | null} stackInfo - Ubicación del caller, opcional
      * @param {Partial<TransportRecord>} [extra] - Campos extra a mergear en el record
      *        (p.ej. `{ tag: 'success' }` o `attributes` adicionales)
+     *
+     * Con `LoggerConfig.redact` activo, `msg`, `attributes` y `exception`
+     * pasan por el redactor antes de llegar a historial y transports.
+     *
+     * El record siempre entra al historial; `LoggerConfig.sampling` decide
+     * después si llega a los transports.
+     *
+     * `traceId` / `spanId` se completan con el trace activo (ver
+     * `LoggerConfig.traceContextProvider`, el `traceparent` bound en el
+     * contexto o el span activo de `@opentelemetry/api`), salvo que `extra`
+     * ya los traiga.
      */
     protected dispatchToTransports(
         level: LogLevel,
@@ -1177,6 +1327,7 @@ export class Logger {
         stackInfo: StackInfo | null,
         extra?: Partial<TransportRecord>
     ): void {
+        const contextRecord = this.logContext._getContextRecord();
         const record: TransportRecord = {
             level,
             levelValue: LOG_LEVELS[level],
@@ -1193,8 +1344,8 @@ export class Logger {
                     function: stackInfo.function
                 }
                 : undefined,
-            attributes: Object.keys(this.logContext._getContextRecord()).length > 0
-                ? toLogAttributes(this.logContext._getContextRecord())
+            attributes: Object.keys(contextRecord).length > 0
+                ? toLogAttributes(contextRecord)
                 : undefined,
             resource: this.logContext._getResource()
                 ? { ...this.logContext._getResource() } as Partial<ITransportLogResource>
@@ -1202,6 +1353,34 @@ export class Logger {
             ...extra
         };
 
+        const redactor = this.serializerBridge.getSerializerRegistry().getRedactor();
+        if (redactor) {
+            record.msg = redactor.redactString(record.msg);
+            if (record.attributes) record.attributes = redactor.redact(record.attributes);
+            if (record.exception) {
+                record.exception = {
+                    ...record.exception,
+                    message: redactor.redactString(record.exception.message),
+                    ...(record.exception.stacktrace
+                        ? { stacktrace: redactor.redactString(record.exception.stacktrace) }
+                        : {})
+                };
+            }
+        }
+
+        // Correlación con el trace activo, salvo que el caller ya la aporte
+        if (!record.traceId) {
+            const trace = resolveTraceContext(contextRecord, this.config.traceContextProvider);
+            if (trace) {
+                record.traceId = trace.traceId;
+                record.spanId = trace.spanId;
+            }
+        }
+
+        this.history.push(record);
+
+        if (this.sampler && !this.sampler.shouldKeep(record)) return;
+
         // Fire-and-forget vía bridge — nunca rompe el path de log sincrónico.
         this.transportBridge.writeRecord(record);
     }
@@ -1217,10 +1396,14 @@ export class Logger {
     }
 
     /**
-     * Método central de logging. Espera el hook pipeline `beforeLog`
-     * antes de despachar a consola y transports, para que redacciones
-     * o enriquecimientos (PII, correlation IDs) se reflejen en el
-     * mensaje emitido.
+     * Método central de logging. Pasa el entry por el pipeline de hooks
+     * (`beforeLog` + middlewares registrados con {@link use}) y emite a
+     * consola, handlers y transports como eslabón final de esa cadena, para
+     * que redacciones o enriquecimientos (PII, correlation IDs) se reflejen
+     * en el mensaje emitido. Un middleware que no llama a `next()` descarta
+     * el log por completo: sin salida, sin handlers, sin transports y sin
+     * `afterLog`. Lo mismo aplica a los duplicados que suprime
+     * `LoggerConfig.dedup`, que se cuentan para el resumen de su ventana.
      *
      * Los callers fire-and-forget (p.ej. `logger.info(...)` sin `await`)
      * siguen funcionando: el `Promise<void>` resultante se descarta.
@@ -1228,7 +1411,8 @@ export class Logger {
      *
      * El tag opcional (`TransportRecord.tag`) NO se pasa como argumento:
      * se establece vía `_dispatchTag` (ver `success()` y
-     * {@link logWithBindingsAndTag}) antes de invocar este método.
+     * {@link logWithBindingsAndTag}) antes de invocar este método. Con tag
+     * `'success'` la salida de consola usa el label/emoji de success.
      *
      * @protected
      * @param {LogLevel} level - Nivel del log
@@ -1244,13 +1428,20 @@ export class Logger {
         // 'success' como arg.
         const dispatchTag = this._dispatchTag;
         this._dispatchTag = undefined;
+        const dispatchRecord = this._dispatchRecord;
+        this._dispatchRecord = undefined;
 
-        const stackInfo = this.config.enableStackTrace ? parseStackTrace() : null;
+        const stackInfo = dispatchRecord
+            ? dispatchRecord.location ?? null
+            : this.config.enableStackTrace ? parseStackTrace() : null;
         const prefix = this.getEffectivePrefix();
         const timestamp = formatTimestamp();
 
         const serializedArgs = args.map(arg => this.serializerBridge.getSerializerRegistry().serialize(arg));
 
+        // El error viaja además como `TransportRecord.exception`; el texto
+        // sigue siendo el de siempre.
+        const exception = toLogException(args);
         let message = serializedArgs.length > 0 ? String(serializedArgs[0]) : '';
         if (this.badgeList.length > 0 && this.displaySettings.showBadges) {
             const badgePrefix = this.badgeList.map(b => `[${b}]`).join('');
@@ -1258,7 +1449,7 @@ export class Logger {
         }
         const additionalArgs = serializedArgs.slice(1);
 
-        const hookEntry = {
+        const hookEntry: HookLogEntry = {
             level,
             message,
             args: serializedArgs,
@@ -1267,20 +1458,63 @@ export class Logger {
             stackInfo: stackInfo ?? undefined
         };
 
-        // Await de los hooks beforeLog para que las redacciones / enriquecimientos
-        // se reflejen en el mensaje emitido.
-        let processed;
+        const emitEntry = (processed: HookLogEntry): void => {
+            // Los args ya salen redactados del serializer; el mensaje se vuelve
+            // a pasar por si un hook o middleware le añadió contenido.
+            const redactor = this.serializerBridge.getSerializerRegistry().getRedactor();
+            const finalMessage = redactor ? redactor.redactString(processed.message) : processed.message;
+            if (this.deduplicator && !this.admitDedup(level, finalMessage, prefix, stackInfo, dispatchTag)) return;
+            const extra: Partial<TransportRecord> = exception ? { exception } : {};
+            if (dispatchRecord?.attributes) {
+                extra.attributes = {
+                    ...toLogAttributes(this.logContext._getContextRecord()),
+                    ...dispatchRecord.attributes
+                };
+            }
+            this.emitProcessed(
+                level, finalMessage, prefix, stackInfo, timestamp, serializedArgs, additionalArgs, dispatchTag,
+                Object.keys(extra).length > 0 ? extra : undefined
+            );
+            // Fire-and-forget de afterLog — las mutaciones after-side no cambian
+            // el mensaje que ya está en pantalla, así que no bloqueamos con él.
+            this.hookBridge.getHookManager().afterProcess(processed).catch(() => {});
+        };
+
+        // La emisión corre como eslabón final de la cadena de middlewares,
+        // así que un middleware que no llama a next() la suprime.
+        let emitted = false;
         try {
-            processed = await this.hookBridge.getHookManager().emit('beforeLog', hookEntry);
+            await this.hookBridge.getHookManager().process(hookEntry, (processed) => {
+                emitted = true;
+                emitEntry(processed);
+            });
         } catch (error) {
-            // El Hook manager ya dispara onError por su cuenta; cae a los
-            // valores pre-hook para que la llamada de log no se rompa.
+            // El Hook manager ya dispara onError por sus hooks; un middleware
+            // que lanza antes de next() cae a los valores pre-hook para que
+            // la llamada de log no se rompa.
             // eslint-disable-next-line no-console
-            console.error('HookManager beforeLog failed:', error);
-            processed = hookEntry;
+            console.error('HookManager pipeline failed:', error);
+            if (!emitted) emitEntry(hookEntry);
         }
-        message = processed.message;
+    }
 
+    /**
+     * Emite un entry ya procesado por el pipeline de hooks: salida styled,
+     * handlers legacy y dispatch a transports.
+     *
+     * @private
+     */
+    private emitProcessed(
+        level: LogLevel,
+        message: string,
+        prefix: string | undefined,
+        stackInfo: StackInfo | null,
+        timestamp: string,
+        serializedArgs: unknown[],
+        additionalArgs: unknown[],
+        dispatchTag: string | undefined,
+        extra?: Partial<TransportRecord>
+    ): void {
         const [format, ...styles] = createStyledOutput(
             level,
             this.styleManager.getStyles(),
@@ -1292,8 +1526,16 @@ export class Logger {
             this._activePresetName
         );
 
+        let levelFormat = format;
+        if (dispatchTag === 'success') {
+            const successStyle = this.styleManager.getStyles().success;
+            const emoji = successStyle?.emoji ?? '✅';
+            const label = successStyle?.label ?? 'SUCCESS';
+            levelFormat = format.replace(/ℹ️ INFO/, `${emoji} ${label}`);
+        }
+
         const groupIndent = '  '.repeat(this.groupDepth);
-        const finalFormat = groupIndent + format;
+        const finalFormat = groupIndent + levelFormat;
 
         this.writeOutput(finalFormat, level, styles, additionalArgs);
 
@@ -1315,14 +1557,76 @@ export class Logger {
 
         // Si se fijó dispatchTag (por success()), despacha con él.
         if (dispatchTag !== undefined) {
-            this.dispatchToTransports(level, message, prefix, stackInfo, { tag: dispatchTag as LogTag });
+            this.dispatchToTransports(level, message, prefix, stackInfo, { tag: dispatchTag as LogTag, ...extra });
         } else {
-            this.dispatchToTransports(level, message, prefix, stackInfo);
+            this.dispatchToTransports(level, message, prefix, stackInfo, extra);
         }
+    }
 
-        // Fire-and-forget de afterLog — las mutaciones after-side no cambian
-        // el mensaje que ya está en pantalla, así que no bloqueamos con él.
-        this.hookBridge.getHookManager().emit('afterLog', processed).catch(() => {});
+    /**
+     * Reemplaza el {@link Deduplicator} de `config.dedup`. Las ventanas
+     * abiertas del anterior se cierran emitiendo sus resúmenes.
+     *
+     * @private
+     */
+    private setDedup(config: DedupConfig | undefined): void {
+        this.deduplicator?.flush();
+        this.deduplicator = config
+            ? new Deduplicator<RepeatPayload>(config, summary => this.emitRepeatSummary(summary))
+            : null;
+    }
+
+    /**
+     * Pasa un entry por `config.dedup`. El contexto y el trace se capturan
+     * aquí porque el resumen se emite desde un timer, fuera del scope ALS
+     * del call site.
+     *
+     * @private
+     * @returns `true` si el entry debe emitirse.
+     */
+    private admitDedup(
+        level: LogLevel,
+        message: string,
+        prefix: string | undefined,
+        stackInfo: StackInfo | null,
+        tag: string | undefined
+    ): boolean {
+        if (!this.deduplicator) return true;
+        const context = this.logContext._getContextRecord();
+        return this.deduplicator.admit({ level, prefix, msg: message, tag: tag as LogTag | undefined }, {
+            level,
+            message,
+            prefix,
+            stackInfo,
+            tag,
+            context,
+            trace: resolveTraceContext(context, this.config.traceContextProvider)
+        });
+    }
+
+    /**
+     * Emite el resumen de una ventana de dedup por el mismo camino que un
+     * log normal (consola, handlers y transports), con el contexto del
+     * primer record y `attributes.repeatCount`.
+     *
+     * @private
+     */
+    private emitRepeatSummary({ payload, count, durationMs }: DedupSummary<RepeatPayload>): void {
+        const message = formatRepeatSummary(payload.message, count, durationMs);
+        this.emitProcessed(
+            payload.level,
+            message,
+            payload.prefix,
+            payload.stackInfo,
+            formatTimestamp(),
+            [message],
+            [],
+            payload.tag,
+            {
+                attributes: { ...toLogAttributes(payload.context), repeatCount: count },
+                ...(payload.trace ? { traceId: payload.trace.traceId, spanId: payload.trace.spanId } : {})
+            }
+        );
     }
 
     /**
@@ -1379,6 +1683,32 @@ export class Logger {
         return this.logWithBindings(bindings, level, ...args);
     }
 
+    /**
+     * Emite un log con la ubicación y los attributes que aporta el caller
+     * en lugar de los del stack actual. Lo usa `captureGlobalErrors()`: la
+     * ubicación de un error global es la del evento (script, línea y
+     * columna del throw), no la del listener que lo recibe.
+     *
+     * @internal
+     * @param {StackInfo | undefined} location - Ubicación del record. Sin ella
+     *        el record sale sin ubicación (no se usa la del stack actual)
+     * @param {ILogAttributes | undefined} attributes - Attributes a mergear
+     *        sobre los del contexto
+     * @param {LogLevel} level - Nivel de log
+     * @param {unknown[]} args - Argumentos a loggear
+     * @returns {Promise<void>} Promesa del dispatch
+     */
+    logWithLocation(
+        location: StackInfo | undefined,
+        attributes: ILogAttributes | undefined,
+        level: LogLevel,
+        ...args: unknown[]
+    ): Promise<void> {
+        if (!this.shouldLog(level)) return Promise.resolve();
+        this._dispatchRecord = { location, attributes };
+        return this.log(level, ...args);
+    }
+
     /**
      * Registra mensajes de debug (nivel más verboso junto a `trace`).
      * Pensado para diagnóstico de desarrollo: valores intermedios, flags
@@ -1448,79 +1778,14 @@ export class Logger {
      * logger.success('✓ Tests pasados: 42/42');
      *
      */
-    async success(...args: unknown[]): Promise<void> {
-        if (!this.shouldLog('info')) return;
-
-        const stackInfo = this.config.enableStackTrace ? parseStackTrace() : null;
-        const prefix = this.getEffectivePrefix();
-        const timestamp = formatTimestamp();
-        const serializedArgs = args.map(arg => this.serializerBridge.getSerializerRegistry().serialize(arg));
-        let message = serializedArgs.length > 0 ? String(serializedArgs[0]) : '';
-        if (this.badgeList.length > 0 && this.displaySettings.showBadges) {
-            const badgePrefix = this.badgeList.map(b => `[${b}]`).join('');
-            message = badgePrefix + ' ' + message;
-        }
-        const additionalArgs = serializedArgs.slice(1);
-
-        const hookEntry = {
-            level: 'info' as LogLevel,
-            message,
-            args: serializedArgs,
-            timestamp,
-            prefix,
-            stackInfo: stackInfo ?? undefined
-        };
-
-        // Await de beforeLog para que las redacciones se propaguen (match con log())
-        try {
-            const processed = await this.hookBridge.getHookManager().emit('beforeLog', hookEntry);
-            message = processed.message;
-        } catch {
-            // El Hook manager ya disparó onError
-        }
-
-        const [format, ...styles] = createStyledOutput(
-            'info',
-            this.styleManager.getStyles(),
-            prefix,
-            message,
-            this.displaySettings.showLocation ? stackInfo : null,
-            this.config.autoDetectTheme,
-            this._activePreset as LogStyles | undefined,
-            this._activePresetName
-        );
-
-        const successStyle = this.styleManager.getStyles().success;
-        const emoji = successStyle?.emoji ?? '✅';
-        const label = successStyle?.label ?? 'SUCCESS';
-        const successFormat = format.replace(/ℹ️ INFO/, `${emoji} ${label}`);
-
-        const groupIndent = '  '.repeat(this.groupDepth);
-        const finalFormat = groupIndent + successFormat;
-
-        this.writeOutput(finalFormat, 'info', styles, additionalArgs);
-
-        const metadata: LogMetadata = {
-            timestamp,
-            level: 'info',
-            prefix,
-            stackInfo: stackInfo ?? undefined
-        };
-        this.handlers.forEach(handler => {
-            try {
-                handler.handle('info', message, args, metadata);
-            } catch (error) {
-                // eslint-disable-next-line no-console
-                console.error('Log handler failed:', error);
-            }
-        });
+    success(...args: unknown[]): Promise<void> {
+        if (!this.shouldLog('info')) return Promise.resolve();
 
-        // Fija _dispatchTag para que log() despache con el tag.
-        // 'success' NO se pasa como arg (evita que aparezca en additionalArgs).
+        // Fija _dispatchTag para que log() despache con el tag y el styling
+        // de success. 'success' NO se pasa como arg (evita que aparezca en
+        // additionalArgs).
         this._dispatchTag = 'success';
-        await this.log('info', ...args);
-
-        this.hookBridge.getHookManager().emit('afterLog', hookEntry).catch(() => {});
+        return this.log('info', ...args);
     }
 
     /**
@@ -2150,8 +2415,10 @@ export default loggerProxy;
 
 /**
  * Estrecha un contexto free-form `Record<string, unknown>` a un bag tipado
- * `ILogAttributes`. Los shapes desconocidos caen a strings JSON-encoded,
- * lo que mantiene conforme al transport OTLP (cada valor cae en un slot tipado).
+ * `ILogAttributes`. Plain objects y arrays se conservan como estructuras
+ * anidadas y los `Uint8Array` como bytes; el resto de shapes (Date,
+ * instancias de clases) cae a strings JSON-encoded, así cada valor encaja
+ * en un slot tipado de `AnyValue` OTLP.
  *
  * @param input - Contexto suministrado por el usuario (típicamente `Logger.context`).
  * @returns Un nuevo bag de attributes que satisface `ILogAttributes`.
@@ -2167,20 +2434,24 @@ function toLogAttributes(input: Record<string, unknown>): ILogAttributes {
     return out;
 }
 
-function toAttributeValue(value: unknown): LogAttributeValue | undefined {
+function toAttributeValue(value: unknown, ancestors: WeakSet<object> = new WeakSet()): LogAttributeValue | undefined {
     if (value === null || value === undefined) return undefined;
     if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
         return value;
     }
-    if (Array.isArray(value)) {
-        const values: LogAttributeValue[] = [];
-        for (const item of value) {
-            const mapped = toAttributeValue(item);
-            if (mapped !== undefined) values.push(mapped);
+    if (value instanceof Uint8Array) return value;
+    if (Array.isArray(value) || isPlainObject(value)) {
+        // Solo se omiten los ciclos (un ancestro del propio valor); un mismo
+        // objeto referenciado desde dos ramas se convierte en ambas.
+        if (ancestors.has(value)) return undefined;
+        ancestors.add(value);
+        try {
+            return Array.isArray(value) ? toAttributeArray(value, ancestors) : toAttributeStruct(value, ancestors);
+        } finally {
+            ancestors.delete(value);
         }
-        return values;
     }
-    // Plain objects → fallback a string JSON (el transport OTLP lo maneja)
+    // Resto (Date, instancias de clases) → string JSON
     try {
         return JSON.stringify(value);
     } catch {
@@ -2188,6 +2459,45 @@ function toAttributeValue(value: unknown): LogAttributeValue | undefined {
     }
 }
 
+function toAttributeArray(value: unknown[], ancestors: WeakSet<object>): LogAttributeValue[] {
+    const values: LogAttributeValue[] = [];
+    for (const item of value) {
+        const mapped = toAttributeValue(item, ancestors);
+        if (mapped !== undefined) values.push(mapped);
+    }
+    return values;
+}
+
+// Plain objects → struct anidado (OTLP lo envía como kvlistValue)
+function toAttributeStruct(value: Record<string, unknown>, ancestors: WeakSet<object>): Record<string, LogAttributeValue> {
+    const struct: Record<string, LogAttributeValue> = {};
+    for (const [key, child] of Object.entries(value)) {
+        const mapped = toAttributeValue(child, ancestors);
+        if (mapped !== undefined) struct[key] = mapped;
+    }
+    return struct;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') return false;
+    const proto = Object.getPrototypeOf(value) as unknown;
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Extrae el primer `Error` de los argumentos de un log con la forma de las
+ * semantic conventions `exception.*` de OTel.
+ */
+function toLogException(args: unknown[]): ILogException | undefined {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    if (!error) return undefined;
+    return {
+        type: error.name || error.constructor.name,
+        message: error.message,
+        ...(error.stack ? { stacktrace: error.stack } : {})
+    };
+}
+
 /**
  * Métodos individuales exportados para conveniencia
  * @description Todos los métodos están correctamente enlazados al singleton lazy
@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Entry ejecutable del bin `better-logger` (el shebang lo
+ * añade el build).
+ */
+
+import { main } from './index.js';
+
+main(process.argv.slice(2), { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr })
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch((error: unknown) => {
+        process.stderr.write(`better-logger: ${error instanceof Error ? error.message : String(error)}\n`);
+        process.exitCode = 1;
+    });
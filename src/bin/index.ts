@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Dispatcher del bin `better-logger`. Cada sub-comando es un
+ * `run*(argv, io)` que devuelve el exit code; el entry
+ * (`better-logger.ts`) solo conecta `process` con {@link main}.
+ */
+
+import type { Readable, Writable } from 'node:stream';
+import { runPretty, PRETTY_USAGE } from './pretty.js';
+import { runQuery, QUERY_USAGE } from './query.js';
+
+/** Streams del proceso, inyectables en tests. */
+export interface BinIO {
+    stdin: Readable;
+    stdout: Writable;
+    stderr: Writable;
+}
+
+type BinCommand = (argv: string[], io: BinIO) => Promise<number>;
+
+const COMMANDS: Record<string, { run: BinCommand; usage: string }> = {
+    pretty: { run: runPretty, usage: PRETTY_USAGE },
+    query: { run: runQuery, usage: QUERY_USAGE }
+};
+
+const USAGE = `Usage: better-logger <command> [options]
+
+Commands:
+${Object.values(COMMANDS).map(command => `  ${command.usage.split('\n')[0]}`).join('\n')}
+
+Run "better-logger <command> --help" for command options.
+`;
+
+/**
+ * Ejecuta un sub-comando.
+ *
+ * @param argv - Argumentos sin `node` ni el script (`process.argv.slice(2)`).
+ * @param io - Streams de entrada / salida.
+ * @returns Exit code: `0` ok, `1` error de ejecución, `2` uso incorrecto.
+ */
+export async function main(argv: string[], io: BinIO): Promise<number> {
+    const [name, ...rest] = argv;
+    if (!name || name === '--help' || name === '-h') {
+        io.stdout.write(USAGE);
+        return name ? 0 : 2;
+    }
+    const command = COMMANDS[name];
+    if (!command) {
+        io.stderr.write(`better-logger: unknown command "${name}"\n\n${USAGE}`);
+        return 2;
+    }
+    return command.run(rest, io);
+}
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview `better-logger pretty`: lee NDJSON (stdin o fichero) y
+ * re-renderiza cada record con el mismo formato ANSI que la consola del
+ * logger. Acepta la shape de `TransportRecord` (FileTransport,
+ * JsonStreamTransport) y la de pino / bunyan; las líneas que no son un
+ * record pasan tal cual.
+ */
+
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import type { BinIO } from './index.js';
+import { LOG_LEVELS } from '../types/core.js';
+import type { LogLevel, ThemeVariant, TransportRecord, ILogAttributes, ILogException } from '../types/index.js';
+import { formatLogLevelANSI, formatPrefixANSI, formatLocationANSI, formatTimestampANSI, ansiColor, ansiDim, ANSI_CODES } from '../utils/ansi-colors.js';
+import { getColorCapability } from '../utils/environment-detector.js';
+import { cssColorToANSI } from '../terminal/color-converter.js';
+import { stripAnsi } from '../terminal/formatter.js';
+import { THEME_PRESETS } from '../styling/themes.js';
+
+/** Opciones de render de {@link formatPrettyRecord}. */
+export interface PrettyOptions {
+    /** Nivel mínimo a mostrar. */
+    minLevel?: LogLevel;
+    /**
+     * Patrón para mostrar `time` (`yyyy`, `mm`, `dd`, `HH`, `MM`, `ss`, `l`),
+     * en hora local o en UTC con prefijo `UTC:`; `iso` para ISO 8601. Sin
+     * patrón se muestra el valor crudo.
+     */
+    translateTime?: string;
+    /** Solo estos campos extra (attributes, trace ids, tag). */
+    include?: string[];
+    /** Oculta estos campos: extras o `time`, `prefix`, `location`, `exception`. */
+    exclude?: string[];
+    /** Theme cuyos badges se usan para el nivel. Sin theme: el badge ANSI de la consola. */
+    theme?: ThemeVariant;
+    /** `false` quita todos los códigos ANSI. Default: según la terminal. */
+    colors?: boolean;
+}
+
+export const PRETTY_USAGE = `pretty [file]                     Render NDJSON logs (stdin or file) like the styled console
+
+Options:
+  -l, --level <level>               Minimum level (trace|debug|info|warn|error|critical or pino number)
+  -t, --translate-time[=<pattern>]  Readable time: HH:MM:ss.l (default), UTC:yyyy-mm-dd HH:MM:ss, iso
+  -i, --include <keys>              Only show these extra keys (comma-separated)
+  -x, --exclude <keys>              Hide these keys (extras or time, prefix, location, exception)
+      --theme <theme>               Level badges from a theme (${Object.keys(THEME_PRESETS).join(', ')})
+      --no-color                    Plain output (also honours NO_COLOR)
+  -h, --help                        Show this help
+`;
+
+const DEFAULT_TIME_PATTERN = 'HH:MM:ss.l';
+
+/** Campos de pino / bunyan que no son attributes. */
+const PINO_RESERVED = new Set(['level', 'time', 'msg', 'message', 'pid', 'hostname', 'v', 'name', 'component', 'err', 'trace_id', 'span_id', 'trace_flags']);
+
+/**
+ * Convierte un objeto parseado de una línea NDJSON en `TransportRecord`.
+ *
+ * - Shape propia: `level` como label (`"info"`), `time` epoch o ISO.
+ * - pino / bunyan: `level` numérico (10-60), `name` / `component` →
+ *   `prefix`, `err` → `exception`, `trace_id` / `span_id`, y el resto de
+ *   claves de primer nivel → `attributes`.
+ *
+ * @param value - Resultado de `JSON.parse`.
+ * @returns El record, o `null` si no parece un log.
+ */
+export function normalizeRecord(value: unknown): TransportRecord | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+    const raw = value as Record<string, unknown>;
+    const time = parseTime(raw['time'] ?? raw['timestamp']);
+    const msg = raw['msg'] ?? raw['message'];
+
+    if (typeof raw['level'] === 'string' && Object.hasOwn(LOG_LEVELS, raw['level'])) {
+        const level = raw['level'] as LogLevel;
+        return {
+            ...(raw as Partial<TransportRecord>),
+            level,
+            levelValue: LOG_LEVELS[level],
+            severityNumber: typeof raw['severityNumber'] === 'number' ? raw['severityNumber'] : 0,
+            severityText: typeof raw['severityText'] === 'string' ? raw['severityText'] : level.toUpperCase(),
+            time: time ?? 0,
+            msg: typeof msg === 'string' ? msg : String(msg ?? '')
+        };
+    }
+
+    if (typeof raw['level'] !== 'number') return null;
+    const level = levelFromPino(raw['level']);
+    const record: TransportRecord = {
+        level,
+        levelValue: LOG_LEVELS[level],
+        severityNumber: 0,
+        severityText: level.toUpperCase(),
+        time: time ?? 0,
+        msg: typeof msg === 'string' ? msg : String(msg ?? '')
+    };
+    const prefix = raw['component'] ?? (raw['v'] === undefined ? raw['name'] : undefined);
+    if (typeof prefix === 'string') record.prefix = prefix;
+    if (typeof raw['trace_id'] === 'string') record.traceId = raw['trace_id'];
+    if (typeof raw['span_id'] === 'string') record.spanId = raw['span_id'];
+
+    const err = raw['err'] as { type?: string; message?: string; stack?: string } | undefined;
+    if (err && typeof err === 'object') {
+        const exception: ILogException = { type: err.type ?? 'Error', message: err.message ?? '' };
+        if (err.stack) exception.stacktrace = err.stack;
+        record.exception = exception;
+    }
+
+    const attributes = Object.fromEntries(Object.entries(raw).filter(([key]) => !PINO_RESERVED.has(key)));
+    if (Object.keys(attributes).length > 0) record.attributes = attributes as ILogAttributes;
+    return record;
+}
+
+/**
+ * Renderiza un record como la consola del logger:
+ * `[time] LEVEL [prefix] message (file:line:col)`, seguido del stacktrace y
+ * de los campos extra (uno por línea, indentados).
+ *
+ * @param record - Record a renderizar.
+ * @param options - Ver {@link PrettyOptions}.
+ * @returns Líneas con `\n` final.
+ */
+export function formatPrettyRecord(record: TransportRecord, options: PrettyOptions = {}): string {
+    const hidden = new Set(options.exclude ?? []);
+    const parts: string[] = [];
+
+    if (!hidden.has('time')) parts.push(formatTimestampANSI(`[${formatTime(record.time, options.translateTime)}]`));
+    parts.push(options.theme ? themedLevel(record.level, options.theme) : formatLogLevelANSI(record.level));
+    if (record.prefix && !hidden.has('prefix')) parts.push(formatPrefixANSI(record.prefix));
+    parts.push(record.msg);
+    if (record.location && !hidden.has('location')) {
+        parts.push(formatLocationANSI(`${record.location.file}:${record.location.line}:${record.location.column}`));
+    }
+
+    const lines = [parts.join(' ')];
+    if (record.exception && !hidden.has('exception')) {
+        const stack = record.exception.stacktrace ?? `${record.exception.type}: ${record.exception.message}`;
+        lines.push(...stack.split('\n').map(line => ansiColor(`    ${line.trimEnd()}`, ANSI_CODES.red)));
+    }
+
+    const extras: Record<string, unknown> = { ...record.attributes };
+    if (record.tag) extras['tag'] = record.tag;
+    if (record.traceId) extras['traceId'] = record.traceId;
+    if (record.spanId) extras['spanId'] = record.spanId;
+    for (const [key, value] of Object.entries(extras)) {
+        if (hidden.has(key) || (options.include && !options.include.includes(key))) continue;
+        lines.push(`    ${ansiDim(`${key}:`)} ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+
+    const output = `${lines.join('\n')}\n`;
+    return options.colors === false ? stripAnsi(output) : output;
+}
+
+/**
+ * Lee NDJSON de `input` y escribe cada línea renderizada en `output`. Las
+ * líneas que no son JSON (o no son un log) se copian sin tocar; los records
+ * por debajo de `minLevel` se omiten.
+ *
+ * @param input - Stream de entrada (stdin o fichero).
+ * @param output - Destino.
+ * @param options - Ver {@link PrettyOptions}.
+ */
+export async function prettyStream(input: Readable, output: Writable, options: PrettyOptions = {}): Promise<void> {
+    const minValue = options.minLevel ? LOG_LEVELS[options.minLevel] : -Infinity;
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+        if (line.trim() === '') continue;
+        const record = parseLine(line);
+        if (!record) {
+            output.write(`${line}\n`);
+        } else if (record.levelValue >= minValue) {
+            output.write(formatPrettyRecord(record, options));
+        }
+    }
+}
+
+/**
+ * Sub-comando `pretty`.
+ *
+ * @param argv - Argumentos tras `pretty`.
+ * @param io - Streams del proceso.
+ * @returns Exit code.
+ */
+export async function runPretty(argv: string[], io: BinIO): Promise<number> {
+    let parsed: ReturnType<typeof parsePrettyArgs>;
+    try {
+        parsed = parsePrettyArgs(argv);
+    } catch (error) {
+        io.stderr.write(`better-logger pretty: ${(error as Error).message}\n\n${PRETTY_USAGE}`);
+        return 2;
+    }
+    if (parsed.help) {
+        io.stdout.write(PRETTY_USAGE);
+        return 0;
+    }
+
+    let input: Readable = io.stdin;
+    if (parsed.file && parsed.file !== '-') {
+        input = createReadStream(parsed.file);
+    }
+    try {
+        await prettyStream(input, io.stdout, parsed.options);
+        return 0;
+    } catch (error) {
+        io.stderr.write(`better-logger pretty: ${(error as Error).message}\n`);
+        return 1;
+    }
+}
+
+// ===== Internal helpers =====
+
+function parsePrettyArgs(argv: string[]): { help: boolean; file?: string; options: PrettyOptions } {
+    // `--translate-time` admite valor opcional: sin `=` se expande al patrón por defecto.
+    const normalized = argv.map(arg => (arg === '--translate-time' || arg === '-t') ? `--translate-time=${DEFAULT_TIME_PATTERN}` : arg);
+    const { values, positionals } = parseArgs({
+        args: normalized,
+        allowPositionals: true,
+        options: {
+            level: { type: 'string', short: 'l' },
+            'translate-time': { type: 'string' },
+            include: { type: 'string', short: 'i' },
+            exclude: { type: 'string', short: 'x' },
+            theme: { type: 'string' },
+            'no-color': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (positionals.length > 1) throw new Error(`expected at most one file, got ${positionals.length}`);
+
+    const options: PrettyOptions = {};
+    if (values.level !== undefined) options.minLevel = parseLevel(values.level);
+    if (values['translate-time'] !== undefined) options.translateTime = values['translate-time'];
+    if (values.include !== undefined) options.include = splitKeys(values.include);
+    if (values.exclude !== undefined) options.exclude = splitKeys(values.exclude);
+    if (values.theme !== undefined) {
+        if (!Object.hasOwn(THEME_PRESETS, values.theme)) throw new Error(`unknown theme "${values.theme}"`);
+        options.theme = values.theme as ThemeVariant;
+    }
+    if (values['no-color'] || process.env['NO_COLOR']) options.colors = false;
+
+    return { help: values.help ?? false, file: positionals[0], options };
+}
+
+function parseLevel(value: string): LogLevel {
+    if (Object.hasOwn(LOG_LEVELS, value)) return value as LogLevel;
+    if (/^\d+$/.test(value)) return levelFromPino(Number(value));
+    throw new Error(`unknown level "${value}"`);
+}
+
+function splitKeys(value: string): string[] {
+    return value.split(',').map(key => key.trim()).filter(Boolean);
+}
+
+function parseLine(line: string): TransportRecord | null {
+    try {
+        return normalizeRecord(JSON.parse(line));
+    } catch {
+        return null;
+    }
+}
+
+function parseTime(value: unknown): number | undefined {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+}
+
+/** Escala pino / bunyan (10-60) → `LogLevel`; `fatal` (60) es `critical`. */
+function levelFromPino(value: number): LogLevel {
+    if (value <= 10) return 'trace';
+    if (value <= 20) return 'debug';
+    if (value <= 30) return 'info';
+    if (value <= 40) return 'warn';
+    if (value <= 50) return 'error';
+    return 'critical';
+}
+
+function formatTime(time: number, pattern: string | undefined): string {
+    if (!pattern) return String(time);
+    const date = new Date(time);
+    if (pattern === 'iso') return date.toISOString();
+
+    const utc = pattern.startsWith('UTC:');
+    const format = pattern.replace(/^(UTC|SYS):/, '');
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    const tokens: Record<string, string> = utc
+        ? {
+            yyyy: String(date.getUTCFullYear()), mm: pad(date.getUTCMonth() + 1), dd: pad(date.getUTCDate()),
+            HH: pad(date.getUTCHours()), MM: pad(date.getUTCMinutes()), ss: pad(date.getUTCSeconds()), l: pad(date.getUTCMilliseconds(), 3)
+        }
+        : {
+            yyyy: String(date.getFullYear()), mm: pad(date.getMonth() + 1), dd: pad(date.getDate()),
+            HH: pad(date.getHours()), MM: pad(date.getMinutes()), ss: pad(date.getSeconds()), l: pad(date.getMilliseconds(), 3)
+        };
+    return format.replace(/yyyy|mm|dd|HH|MM|ss|l/g, token => tokens[token] ?? token);
+}
+
+/** Badge de nivel con los colores del theme (background del gradient + color del label). */
+function themedLevel(level: LogLevel, theme: ThemeVariant): string {
+    const style = THEME_PRESETS[theme][level];
+    if (!style) return formatLogLevelANSI(level);
+    const text = ` ${style.emoji ? `${style.emoji} ` : ''}${style.label.padEnd(8)}`;
+    const capability = getColorCapability();
+    if (capability === 'none') return text;
+    return `${cssColorToANSI(style.background, capability, true)}${cssColorToANSI(style.color, capability)}\x1b[1m${text}\x1b[0m`;
+}
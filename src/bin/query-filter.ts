@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Lenguaje de filtros de `better-logger query`: comparaciones
+ * sobre campos de `TransportRecord` combinadas con `and` / `or` / `not` y
+ * paréntesis.
+ *
+ * ```text
+ * level>=warn and prefix~"API" and attributes.userId=42
+ * not (msg~/timeout|ECONNRESET/i or exception) and time>="2026-10-18T10:00Z"
+ * ```
+ */
+
+import { LOG_LEVELS } from '../types/core.js';
+import type { LogLevel, TransportRecord } from '../types/index.js';
+
+/** Predicado compilado por {@link compileFilter}. */
+export type RecordFilter = (record: TransportRecord) => boolean;
+
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+type Literal = string | number | boolean | null | RegExp;
+
+type Token =
+    | { kind: 'word'; value: string; pos: number }
+    | { kind: 'string'; value: string; pos: number }
+    | { kind: 'number'; value: number; pos: number }
+    | { kind: 'regex'; value: RegExp; pos: number }
+    | { kind: 'op'; value: Operator; pos: number }
+    | { kind: 'paren'; value: '(' | ')'; pos: number };
+
+const OPERATORS: Operator[] = ['>=', '<=', '!=', '!~', '=', '>', '<', '~'];
+
+/** Alias de campo → campo real del record. */
+const FIELD_ALIASES: Record<string, string> = { message: 'msg' };
+
+/**
+ * Compila una expresión de filtro a un predicado sobre `TransportRecord`.
+ *
+ * - Campos: rutas con `.` (`level`, `prefix`, `msg`, `tag`, `traceId`,
+ *   `location.file`, `exception.type`, `attributes.userId`,
+ *   `resource.service.name`, ...). Las claves con puntos se resuelven por
+ *   el match más largo, así que `resource.service.name` llega a
+ *   `resource['service.name']`.
+ * - Operadores: `=` (o `==`), `!=`, `>`, `>=`, `<`, `<=`, `~` (contiene,
+ *   case-insensitive, o test de un `/regex/flags`) y `!~`. Un campo sin
+ *   operador comprueba que existe y es truthy (`exception`).
+ * - Valores: números, `"strings"` / `'strings'`, `/regex/flags`,
+ *   `true` / `false` / `null` y palabras sueltas (`warn`, `API`).
+ * - `level` compara por severidad (`level>=warn`); `time` acepta fechas
+ *   ISO además de epoch ms.
+ * - Precedencia: `not` > `and` > `or`; las keywords no distinguen
+ *   mayúsculas.
+ *
+ * @param expression - Expresión a compilar.
+ * @returns El predicado.
+ * @throws {Error} Si la expresión no es válida (el mensaje incluye la posición).
+ *
+ * @example
+ * const filter = compileFilter('level>=warn and prefix~"API"');
+ * records.filter(filter);
+ */
+export function compileFilter(expression: string): RecordFilter {
+    const parser = new FilterParser(tokenize(expression), expression);
+    return parser.parse();
+}
+
+// ===== Internal helpers =====
+
+class FilterParser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+    parse(): RecordFilter {
+        if (this.tokens.length === 0) return () => true;
+        const filter = this.parseOr();
+        const extra = this.tokens[this.index];
+        if (extra) throw this.error(extra.pos, `unexpected "${String(extra.value)}"`);
+        return filter;
+    }
+
+    private parseOr(): RecordFilter {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('or')) {
+            const a = left;
+            const b = this.parseAnd();
+            left = record => a(record) || b(record);
+        }
+        return left;
+    }
+
+    private parseAnd(): RecordFilter {
+        let left = this.parseUnary();
+        while (this.acceptKeyword('and')) {
+            const a = left;
+            const b = this.parseUnary();
+            left = record => a(record) && b(record);
+        }
+        return left;
+    }
+
+    private parseUnary(): RecordFilter {
+        if (this.acceptKeyword('not')) {
+            const inner = this.parseUnary();
+            return record => !inner(record);
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): RecordFilter {
+        const token = this.tokens[this.index];
+        if (!token) throw this.error(this.source.length, 'unexpected end of expression');
+
+        if (token.kind === 'paren' && token.value === '(') {
+            this.index++;
+            const inner = this.parseOr();
+            const close = this.tokens[this.index];
+            if (!close || close.kind !== 'paren' || close.value !== ')') {
+                throw this.error(close?.pos ?? this.source.length, 'expected ")"');
+            }
+            this.index++;
+            return inner;
+        }
+        if (token.kind !== 'word' || isKeyword(token.value)) {
+            throw this.error(token.pos, `expected a field, got "${String(token.value)}"`);
+        }
+        this.index++;
+
+        const path = token.value.split('.');
+        const operator = this.tokens[this.index];
+        if (!operator || operator.kind !== 'op') {
+            return record => Boolean(resolvePath(record, path));
+        }
+        this.index++;
+
+        const valueToken = this.tokens[this.index];
+        if (!valueToken || valueToken.kind === 'op' || valueToken.kind === 'paren') {
+            throw this.error(valueToken?.pos ?? this.source.length, `expected a value after "${operator.value}"`);
+        }
+        this.index++;
+        return this.comparison(path, operator.value, literalOf(valueToken), valueToken.pos);
+    }
+
+    private comparison(path: string[], operator: Operator, value: Literal, pos: number): RecordFilter {
+        const field = path.join('.');
+
+        if (operator === '~' || operator === '!~') {
+            if (typeof value !== 'string' && !(value instanceof RegExp)) {
+                throw this.error(pos, `"${operator}" needs a string or a /regex/`);
+            }
+            const test = value instanceof RegExp
+                ? (actual: string) => { value.lastIndex = 0; return value.test(actual); }
+                : (actual: string) => actual.toLowerCase().includes(value.toLowerCase());
+            const negate = operator === '!~';
+            return record => {
+                const actual = resolvePath(record, path);
+                const matched = actual !== undefined && actual !== null && test(stringify(actual));
+                return negate ? !matched : matched;
+            };
+        }
+        if (value instanceof RegExp) throw this.error(pos, `a /regex/ only works with "~" or "!~"`);
+
+        // `level` por severidad y `time` por instante: se comparan como números.
+        if (field === 'level' && typeof value === 'string') {
+            if (!Object.hasOwn(LOG_LEVELS, value)) throw this.error(pos, `unknown level "${value}"`);
+            const expected = LOG_LEVELS[value as LogLevel];
+            return record => compare(record.levelValue, operator, expected);
+        }
+        if (field === 'level' && typeof value === 'number') {
+            return record => compare(record.levelValue, operator, value);
+        }
+        if (field === 'time' && typeof value === 'string') {
+            const expected = Date.parse(value);
+            if (Number.isNaN(expected)) throw this.error(pos, `invalid date "${value}"`);
+            return record => compare(record.time, operator, expected);
+        }
+
+        return record => {
+            const actual = resolvePath(record, path);
+            if (actual === undefined) return operator === '!=';
+            return compare(actual, operator, value);
+        };
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.tokens[this.index];
+        if (token?.kind === 'word' && token.value.toLowerCase() === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private error(pos: number, message: string): Error {
+        return new Error(`invalid filter at column ${pos + 1}: ${message}`);
+    }
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+
+    while (pos < source.length) {
+        const char = source[pos]!;
+        if (/\s/.test(char)) {
+            pos++;
+            continue;
+        }
+        const start = pos;
+
+        if (char === '(' || char === ')') {
+            tokens.push({ kind: 'paren', value: char, pos: start });
+            pos++;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            let value = '';
+            pos++;
+            while (pos < source.length && source[pos] !== char) {
+                if (source[pos] === '\\' && pos + 1 < source.length) pos++;
+                value += source[pos];
+                pos++;
+            }
+            if (pos >= source.length) throw new Error(`invalid filter at column ${start + 1}: unterminated string`);
+            pos++;
+            tokens.push({ kind: 'string', value, pos: start });
+            continue;
+        }
+        // Una `/` abre un regex solo donde se espera un valor (tras un operador).
+        if (char === '/' && tokens[tokens.length - 1]?.kind === 'op') {
+            let body = '';
+            pos++;
+            while (pos < source.length && source[pos] !== '/') {
+                if (source[pos] === '\\' && pos + 1 < source.length) body += source[pos++];
+                body += source[pos];
+                pos++;
+            }
+            if (pos >= source.length) throw new Error(`invalid filter at column ${start + 1}: unterminated /regex/`);
+            pos++;
+            const flags = /^[a-z]*/.exec(source.slice(pos))![0];
+            pos += flags.length;
+            try {
+                tokens.push({ kind: 'regex', value: new RegExp(body, flags), pos: start });
+            } catch (error) {
+                throw new Error(`invalid filter at column ${start + 1}: ${(error as Error).message}`);
+            }
+            continue;
+        }
+        const operator = OPERATORS.find(op => source.startsWith(op, pos));
+        if (operator) {
+            pos += operator.length;
+            // `==` es alias de `=`.
+            if (operator === '=' && source[pos] === '=') pos++;
+            tokens.push({ kind: 'op', value: operator, pos: start });
+            continue;
+        }
+
+        const word = /^[^\s()=!<>~"']+/.exec(source.slice(pos));
+        if (!word) throw new Error(`invalid filter at column ${start + 1}: unexpected "${char}"`);
+        pos += word[0].length;
+        const number = Number(word[0]);
+        tokens.push(/^-?\d/.test(word[0]) && !Number.isNaN(number)
+            ? { kind: 'number', value: number, pos: start }
+            : { kind: 'word', value: word[0], pos: start });
+    }
+    return tokens;
+}
+
+function isKeyword(word: string): boolean {
+    return ['and', 'or', 'not'].includes(word.toLowerCase());
+}
+
+function literalOf(token: Exclude<Token, { kind: 'op' | 'paren' }>): Literal {
+    if (token.kind !== 'word') return token.value;
+    switch (token.value) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'null': return null;
+        default: return token.value;
+    }
+}
+
+/**
+ * Resuelve `path` dentro del record. En cada nivel prueba primero la clave
+ * más larga formada con los segmentos restantes (`service.name`).
+ */
+function resolvePath(record: TransportRecord, path: string[]): unknown {
+    const [head, ...rest] = path;
+    const root = FIELD_ALIASES[head!] ?? head!;
+    return resolveIn((record as unknown as Record<string, unknown>)[root], rest);
+}
+
+function resolveIn(value: unknown, path: string[]): unknown {
+    if (path.length === 0) return value;
+    if (typeof value !== 'object' || value === null) return undefined;
+    const object = value as Record<string, unknown>;
+    for (let length = path.length; length > 0; length--) {
+        const key = path.slice(0, length).join('.');
+        if (Object.hasOwn(object, key)) return resolveIn(object[key], path.slice(length));
+    }
+    return undefined;
+}
+
+function stringify(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function compare(actual: unknown, operator: Operator, expected: Literal): boolean {
+    const numeric = typeof expected === 'number' && (typeof actual === 'number' || (typeof actual === 'string' && actual.trim() !== '' && !Number.isNaN(Number(actual))));
+    const a = numeric ? Number(actual) : stringify(actual);
+    const b = numeric ? expected : stringify(expected);
+    switch (operator) {
+        case '=': return a === b;
+        case '!=': return a !== b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        default: return false;
+    }
+}
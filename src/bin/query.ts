@@ -0,0 +1,312 @@
+/**
+ * @fileoverview `better-logger query`: lee directamente los ficheros NDJSON
+ * de `FileTransport` (incluidos los rotados y los `.gz`), los filtra con el
+ * lenguaje de {@link compileFilter} y los escribe en cualquier
+ * `ExportFormat`. Con `--follow` sigue el fichero activo como `tail -F`,
+ * sobreviviendo a rotaciones y truncados. No necesita el proceso que
+ * escribió los logs.
+ */
+
+import { createReadStream } from 'node:fs';
+import { open, readdir, stat, type FileHandle } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { pipeline, type Readable, type Writable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import { createGunzip } from 'node:zlib';
+import type { BinIO } from './index.js';
+import { normalizeRecord } from './pretty.js';
+import { compileFilter, type RecordFilter } from './query-filter.js';
+import { exportRecords } from '../history/exporters.js';
+import { ROTATED_FILE_SUFFIX } from '../transports/FileTransport.js';
+import { EXPORT_FORMATS } from '../constants.js';
+import { stripAnsi } from '../terminal/formatter.js';
+import type { ExportFormat, TransportRecord } from '../types/index.js';
+
+/** Opciones de {@link queryLogs}. */
+export interface QueryOptions {
+    /** Expresión de filtro (ver {@link compileFilter}). Sin filtro pasa todo. */
+    where?: string;
+    /** Formato de salida. @default 'plain' */
+    format?: ExportFormat;
+    /** Incluye los ficheros rotados (`<file>.<stamp>[.<n>][.gz]`) antes de cada fichero. */
+    rotated?: boolean;
+    /** Solo los N últimos records que pasan el filtro (con `follow`, solo al arrancar). */
+    limit?: number;
+    /**
+     * Tras leer, sigue el último fichero y emite los records nuevos según
+     * llegan. En este modo `json` se escribe como NDJSON y `html` no está
+     * soportado.
+     */
+    follow?: boolean;
+    /** Intervalo de polling de `follow` en ms. @default 250 */
+    pollInterval?: number;
+    /** Detiene `follow`. */
+    signal?: AbortSignal;
+}
+
+export const QUERY_USAGE = `query [files...]                  Filter FileTransport logs (plain, rotated or .gz) offline
+
+Options:
+  -w, --where <expr>                Filter, e.g. 'level>=warn and prefix~"API" and attributes.userId=42'
+  -o, --format <format>             ${Object.keys(EXPORT_FORMATS).join('|')} (default plain)
+  -r, --rotated                     Also read the rotated siblings of each file, oldest first
+  -n, --limit <n>                   Only the last n matching records
+  -f, --follow                      Keep following the file as it grows (survives rotation)
+  -h, --help                        Show this help
+
+Without files (or with "-") reads NDJSON from stdin.
+`;
+
+const DEFAULT_POLL_INTERVAL = 250;
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Ejecuta una consulta sobre ficheros de log y escribe el resultado en
+ * `output`. Los ficheros se leen en el orden dado (con `rotated`, los
+ * rotados de cada uno van delante, del más antiguo al más reciente); los
+ * `.gz` se descomprimen al vuelo. Las líneas que no son un record se
+ * ignoran.
+ *
+ * @param sources - Rutas de fichero, o un `Readable` con NDJSON (stdin).
+ * @param output - Destino.
+ * @param options - Ver {@link QueryOptions}.
+ * @returns Resuelve al terminar la lectura o, con `follow`, al abortar `signal`.
+ * @throws {Error} Si el filtro no es válido, la combinación de opciones no
+ *   está soportada o un fichero no se puede leer.
+ *
+ * @example
+ * await queryLogs(['logs/app.log'], process.stdout, { where: 'level>=error', rotated: true, format: 'csv' });
+ */
+export async function queryLogs(sources: Array<string | Readable>, output: Writable, options: QueryOptions = {}): Promise<void> {
+    const format = options.format ?? 'plain';
+    const { filter, follow } = prepareQuery(sources, options);
+
+    const matches: TransportRecord[] = [];
+    let limit = options.limit;
+    const collect = (record: TransportRecord): void => {
+        if (!filter(record)) return;
+        matches.push(record);
+        if (limit !== undefined && matches.length > limit) matches.shift();
+    };
+
+    for (const source of sources) {
+        if (typeof source !== 'string') {
+            await readLines(source, collect);
+            continue;
+        }
+        const files = options.rotated ? [...await listRotated(source), source] : [source];
+        for (const file of files) {
+            // El fichero activo que se va a seguir lo lee `tailLines` desde el principio.
+            if (file === follow) continue;
+            await readLines(openLogFile(file), collect);
+        }
+    }
+
+    if (!follow) {
+        output.write(exportRecords(matches, format));
+        return;
+    }
+
+    let first = true;
+    for await (const lines of tailLines(follow, options)) {
+        for (const line of lines) {
+            const record = parseRecord(line);
+            if (record) collect(record);
+        }
+        output.write(renderIncremental(matches.splice(0), format, first));
+        first = false;
+        limit = undefined;
+    }
+}
+
+/**
+ * Sub-comando `query`.
+ *
+ * @param argv - Argumentos tras `query`.
+ * @param io - Streams del proceso.
+ * @returns Exit code.
+ */
+export async function runQuery(argv: string[], io: BinIO): Promise<number> {
+    let parsed: ReturnType<typeof parseQueryArgs>;
+    let sources: Array<string | Readable>;
+    try {
+        parsed = parseQueryArgs(argv);
+        sources = parsed.files.length > 0
+            ? parsed.files.map(file => file === '-' ? io.stdin : file)
+            : [io.stdin];
+        if (!parsed.help) prepareQuery(sources, parsed.options);
+    } catch (error) {
+        io.stderr.write(`better-logger query: ${(error as Error).message}\n\n${QUERY_USAGE}`);
+        return 2;
+    }
+    if (parsed.help) {
+        io.stdout.write(QUERY_USAGE);
+        return 0;
+    }
+
+    try {
+        await queryLogs(sources, io.stdout, parsed.options);
+        return 0;
+    } catch (error) {
+        io.stderr.write(`better-logger query: ${(error as Error).message}\n`);
+        return 1;
+    }
+}
+
+/**
+ * Sigue `path` como `tail -F`: el primer lote son las líneas completas que
+ * ya tiene el fichero y cada lote siguiente las añadidas desde el anterior.
+ * Si el fichero se rota (cambia de inode) se terminan de leer las líneas
+ * del rotado y se sigue con el nuevo; si se trunca, se vuelve al principio.
+ * Un fichero inexistente (entre rename y recreación) se reintenta.
+ *
+ * @param path - Fichero a seguir.
+ * @param options - `pollInterval` y `signal` para terminar.
+ */
+export async function* tailLines(
+    path: string,
+    options: Pick<QueryOptions, 'pollInterval' | 'signal'> = {}
+): AsyncGenerator<string[]> {
+    const interval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    let handle: FileHandle = await open(path, 'r');
+    let inode = (await handle.stat()).ino;
+    let position = 0;
+    let decoder = new StringDecoder('utf8');
+    let partial = '';
+
+    const readAvailable = async (): Promise<string[]> => {
+        const buffer = Buffer.allocUnsafe(READ_CHUNK_SIZE);
+        let text = '';
+        for (;;) {
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+            if (bytesRead === 0) break;
+            position += bytesRead;
+            text += decoder.write(buffer.subarray(0, bytesRead));
+        }
+        const lines = (partial + text).split('\n');
+        partial = lines.pop() ?? '';
+        return lines.filter(line => line.trim() !== '');
+    };
+
+    try {
+        while (!options.signal?.aborted) {
+            const lines = await readAvailable();
+
+            const current = await stat(path).catch(() => undefined);
+            if (current && current.ino !== inode) {
+                await handle.close();
+                handle = await open(path, 'r');
+                inode = (await handle.stat()).ino;
+                position = 0;
+                decoder = new StringDecoder('utf8');
+                partial = '';
+                lines.push(...await readAvailable());
+            } else if (current && current.size < position) {
+                position = 0;
+                decoder = new StringDecoder('utf8');
+                partial = '';
+                lines.push(...await readAvailable());
+            }
+            yield lines;
+
+            try {
+                await sleep(interval, undefined, { signal: options.signal });
+            } catch {
+                break;
+            }
+        }
+    } finally {
+        await handle.close();
+    }
+}
+
+// ===== Internal helpers =====
+
+/** Valida la combinación de fuentes y opciones y compila el filtro. */
+function prepareQuery(sources: Array<string | Readable>, options: QueryOptions): { filter: RecordFilter; follow?: string } {
+    const filter = compileFilter(options.where ?? '');
+    if (!options.follow) return { filter };
+
+    const follow = sources[sources.length - 1];
+    if (typeof follow !== 'string') throw new Error('--follow needs a file');
+    if (options.format === 'html') throw new Error('--follow does not support the html format');
+    return { filter, follow };
+}
+
+function parseQueryArgs(argv: string[]): { help: boolean; files: string[]; options: QueryOptions } {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            where: { type: 'string', short: 'w' },
+            format: { type: 'string', short: 'o' },
+            rotated: { type: 'boolean', short: 'r' },
+            limit: { type: 'string', short: 'n' },
+            follow: { type: 'boolean', short: 'f' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+
+    const options: QueryOptions = {};
+    if (values.where !== undefined) options.where = values.where;
+    if (values.format !== undefined) {
+        if (!Object.hasOwn(EXPORT_FORMATS, values.format)) throw new Error(`unknown format "${values.format}"`);
+        options.format = values.format as ExportFormat;
+    }
+    if (values.rotated) options.rotated = true;
+    if (values.limit !== undefined) {
+        const limit = Number(values.limit);
+        if (!Number.isInteger(limit) || limit < 0) throw new Error(`invalid limit "${values.limit}"`);
+        options.limit = limit;
+    }
+    if (values.follow) options.follow = true;
+
+    return { help: values.help ?? false, files: positionals, options };
+}
+
+/** Hermanos rotados de `path`, del más antiguo al más reciente (por `mtime`, como el prune de `FileTransport`). */
+async function listRotated(path: string): Promise<string[]> {
+    const dir = dirname(path);
+    const base = basename(path);
+    const names = (await readdir(dir)).filter(name => name.startsWith(base) && ROTATED_FILE_SUFFIX.test(name.slice(base.length)));
+    const entries = await Promise.all(names.map(async name => {
+        const file = join(dir, name);
+        return { file, mtimeMs: (await stat(file)).mtimeMs };
+    }));
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs || a.file.localeCompare(b.file, undefined, { numeric: true }));
+    return entries.map(entry => entry.file);
+}
+
+function openLogFile(path: string): Readable {
+    const raw = createReadStream(path);
+    if (!path.endsWith('.gz')) return raw;
+    // `pipeline` propaga los errores de lectura al gunzip y de ahí a readline.
+    return pipeline(raw, createGunzip(), () => undefined);
+}
+
+async function readLines(input: Readable, onRecord: (record: TransportRecord) => void): Promise<void> {
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+        const record = parseRecord(line);
+        if (record) onRecord(record);
+    }
+}
+
+function parseRecord(line: string): TransportRecord | null {
+    if (line.trim() === '') return null;
+    try {
+        return normalizeRecord(JSON.parse(line));
+    } catch {
+        return null;
+    }
+}
+
+/** Render por lotes de `follow`: cabecera solo en el primero; `json` como NDJSON. */
+function renderIncremental(records: TransportRecord[], format: ExportFormat, first: boolean): string {
+    if (format === 'json') {
+        return records.map(record => `${JSON.stringify({ ...record, msg: stripAnsi(record.msg) })}\n`).join('');
+    }
+    return exportRecords(records, format, { header: first });
+}
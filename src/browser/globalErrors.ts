@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Captura de errores globales del browser: los que nunca
+ * pasan por el código que loguea (throws no capturados, promesas
+ * rechazadas sin handler, violaciones de CSP y recursos que no cargan).
+ */
+
+import type { Logger } from '../Logger.js';
+import { Deduplicator, formatRepeatSummary } from '../dedup/index.js';
+import type { ILogAttributes, LogAttributeValue, StackInfo } from '../types/index.js';
+
+/** Evento del browser que originó un error capturado (`attributes.errorSource`). */
+export type GlobalErrorSource = 'error' | 'unhandledrejection' | 'securitypolicyviolation' | 'resource';
+
+/** Opciones de {@link captureGlobalErrors}. */
+export interface GlobalErrorCaptureOptions {
+    /**
+     * Ventana en ms en la que los errores idénticos (mismo origen, mensaje
+     * y ubicación) se loguean una sola vez; al cerrar la ventana se emite
+     * `"<mensaje> … repeated N times in 30s"`. `0` desactiva el dedup.
+     * @default 30000
+     */
+    dedupWindowMs?: number;
+}
+
+interface CapturedError {
+    source: GlobalErrorSource;
+    message: string;
+    location?: StackInfo;
+    /** Se pasa como argumento del log para que el record lleve `exception`. */
+    error?: Error;
+    attributes: ILogAttributes;
+}
+
+const DEDUP_WINDOW_DEFAULT = 30_000;
+
+/**
+ * Loguea a nivel `error` los errores globales de la página:
+ *
+ * - `error` en `window`: excepciones no capturadas (lo que recibe
+ *   `window.onerror`, sin reemplazar un handler existente).
+ * - `unhandledrejection`: promesas rechazadas sin `catch`.
+ * - `securitypolicyviolation`: recursos o scripts bloqueados por la CSP.
+ * - `error` de `<img>`, `<script>`, `<link>`… que no cargan. No burbujean,
+ *   así que se escuchan en fase de captura.
+ *
+ * Cada record lleva `attributes.errorSource`, el error serializado con el
+ * serializer de `Error` del `SerializerRegistry` del logger (`attributes.error`,
+ * con redacción si está activa), `exception` y `location`: la del evento
+ * (`filename` / `lineno` / `colno`, `sourceFile` de la CSP), la del primer
+ * frame del stack o, para un recurso, su URL.
+ *
+ * Fuera del browser no instala nada.
+ *
+ * @param logger - Logger que recibe los errores.
+ * @param options - Ver {@link GlobalErrorCaptureOptions}.
+ * @returns Función que quita los listeners y emite los resúmenes de dedup pendientes.
+ *
+ * @example
+ * import logger, { captureGlobalErrors } from '@mks2508/better-logger';
+ *
+ * const stop = captureGlobalErrors(logger, { dedupWindowMs: 10_000 });
+ * // En el unmount de la app:
+ * stop();
+ */
+export function captureGlobalErrors(logger: Logger, options: GlobalErrorCaptureOptions = {}): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const page = window;
+    const registry = logger.getSerializerRegistry();
+    const windowMs = options.dedupWindowMs ?? DEDUP_WINDOW_DEFAULT;
+
+    const emit = (captured: CapturedError): void => {
+        const args: unknown[] = captured.error ? [captured.message, captured.error] : [captured.message];
+        logger.logWithLocation(captured.location, captured.attributes, 'error', ...args).catch(() => {});
+    };
+    const dedup = windowMs > 0
+        ? new Deduplicator<CapturedError>({ windowMs }, ({ payload, count, durationMs }) => {
+            emit({
+                ...payload,
+                message: formatRepeatSummary(payload.message, count, durationMs),
+                error: undefined,
+                attributes: { ...payload.attributes, repeatCount: count }
+            });
+        })
+        : null;
+
+    const report = (captured: CapturedError): void => {
+        const { location } = captured;
+        const key = [captured.source, captured.message, location ? `${location.file}:${location.line}:${location.column}` : ''].join('\u0000');
+        if (dedup && !dedup.admit({ level: 'error', msg: key }, captured)) return;
+        emit(captured);
+    };
+
+    const serializeError = (error: Error): LogAttributeValue => registry.serialize(error) as LogAttributeValue;
+
+    const onError = (event: Event): void => {
+        const target = event.target as { tagName?: unknown } | null;
+        if (target && target !== page && typeof target.tagName === 'string') {
+            report(resourceError(target as Element));
+            return;
+        }
+        const errorEvent = event as ErrorEvent;
+        const error = errorEvent.error instanceof Error ? errorEvent.error : undefined;
+        report({
+            source: 'error',
+            message: error ? `Uncaught ${error.name}: ${error.message}` : errorEvent.message || 'Script error.',
+            location: errorEvent.filename
+                ? { file: errorEvent.filename, line: errorEvent.lineno, column: errorEvent.colno }
+                : locationFromStack(error?.stack),
+            error,
+            attributes: { errorSource: 'error', ...(error ? { error: serializeError(error) } : {}) }
+        });
+    };
+
+    const onUnhandledRejection = (event: PromiseRejectionEvent): void => {
+        const reason: unknown = event.reason;
+        if (reason instanceof Error) {
+            report({
+                source: 'unhandledrejection',
+                message: `Unhandled promise rejection: ${reason.name}: ${reason.message}`,
+                location: locationFromStack(reason.stack),
+                error: reason,
+                attributes: { errorSource: 'unhandledrejection', error: serializeError(reason) }
+            });
+            return;
+        }
+        const serialized = registry.serialize(reason) as LogAttributeValue;
+        report({
+            source: 'unhandledrejection',
+            message: `Unhandled promise rejection: ${typeof serialized === 'string' ? serialized : JSON.stringify(serialized)}`,
+            attributes: { errorSource: 'unhandledrejection', reason: serialized }
+        });
+    };
+
+    const onSecurityPolicyViolation = (event: SecurityPolicyViolationEvent): void => {
+        const directive = event.effectiveDirective || event.violatedDirective;
+        const blocked = event.blockedURI || 'inline';
+        report({
+            source: 'securitypolicyviolation',
+            message: `Content Security Policy violation: ${directive} blocked ${blocked}`,
+            location: event.sourceFile
+                ? { file: event.sourceFile, line: event.lineNumber, column: event.columnNumber }
+                : undefined,
+            attributes: {
+                errorSource: 'securitypolicyviolation',
+                csp: {
+                    directive,
+                    blockedURI: blocked,
+                    disposition: event.disposition,
+                    ...(event.sample ? { sample: event.sample } : {})
+                }
+            }
+        });
+    };
+
+    // La CSP se despacha en el documento (o en el elemento bloqueado) y burbujea hasta él.
+    const cspTarget: EventTarget = typeof document === 'undefined' ? page : document;
+    const listeners = new AbortController();
+    const { signal } = listeners;
+    page.addEventListener('error', onError, { capture: true, signal });
+    page.addEventListener('unhandledrejection', onUnhandledRejection, { signal });
+    cspTarget.addEventListener('securitypolicyviolation', onSecurityPolicyViolation as EventListener, { signal });
+
+    return () => {
+        listeners.abort();
+        dedup?.flush();
+    };
+}
+
+// ===== Internal helpers =====
+
+/** Recurso que no cargó: la ubicación es su propia URL. */
+function resourceError(element: Element): CapturedError {
+    const source = element as Element & { currentSrc?: string; src?: string; href?: string };
+    const url = source.currentSrc || source.src || source.href || '';
+    const tag = element.tagName.toLowerCase();
+    return {
+        source: 'resource',
+        message: `Failed to load ${tag}${url ? `: ${url}` : ''}`,
+        location: url ? { file: url, line: 0, column: 0 } : undefined,
+        attributes: { errorSource: 'resource', element: tag, ...(url ? { url } : {}) }
+    };
+}
+
+/**
+ * Primer frame con ubicación de un stack de V8 (`at fn (file:1:2)`) o de
+ * Firefox / Safari (`fn@file:1:2`). A diferencia de `parseStackTrace()`,
+ * conserva la URL completa y no salta bundles: el frame que lanzó es el
+ * que interesa aunque esté minificado.
+ */
+function locationFromStack(stack: string | undefined): StackInfo | undefined {
+    if (!stack) return undefined;
+    for (const line of stack.split('\n')) {
+        const match = /^\s*at\s+(?:(.+?)\s+\()?(.+?):(\d+):(\d+)\)?\s*$/.exec(line)
+            ?? /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/.exec(line);
+        if (!match?.[2]) continue;
+        return {
+            file: match[2],
+            line: Number(match[3]),
+            column: Number(match[4]),
+            ...(match[1] ? { function: match[1] } : {})
+        };
+    }
+    return undefined;
+}
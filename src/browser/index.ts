@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Browser barrel.
+ * Exports: captureGlobalErrors
+ */
+export {
+    captureGlobalErrors,
+    type GlobalErrorCaptureOptions,
+    type GlobalErrorSource
+} from './globalErrors.js';
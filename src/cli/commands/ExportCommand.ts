@@ -1,15 +1,176 @@
 /**
- * @fileoverview Status and demo commands for Advanced Logger CLI
+ * @fileoverview Export, status and demo commands for Advanced Logger CLI
  */
 
 import type { ICommand } from '../CommandProcessor.js';
 import type { Logger } from '../../Logger.js';
+import type { ExportFormat, LogLevel, LogHistoryQuery } from '../../types/index.js';
+import { LOG_LEVELS } from '../../types/index.js';
+import { EXPORT_FORMATS, TIME_UNITS } from '../../constants.js';
+
+/** Aliases cortos aceptados por `/export` además de los nombres canónicos. */
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+    md: 'markdown',
+    txt: 'plain',
+    text: 'plain'
+};
+
+/**
+ * Comando `/export` del CLI runtime del {@link Logger}. Exporta el
+ * historial en memoria (`bufferSize` últimos records) a uno de los
+ * {@link ExportFormat} y lo entrega según el runtime:
+ *
+ * - Browser: dispara la descarga de un fichero vía `Blob` + `<a download>`.
+ * - Node: escribe `better-logger-<timestamp>.<ext>` en `process.cwd()`.
+ *
+ * Filtros:
+ * - `--level error,warn` — solo esos niveles (lista separada por comas).
+ * - `--since 2h` — ventana relativa (`ms`, `s`, `m`, `h`, `d`) o fecha ISO.
+ *
+ * Ambas flags aceptan también la forma `--flag=valor`.
+ *
+ * @example
+ * // > /export csv --level error,critical --since 1h
+ * // > /export html --since=30m
+ *
+ * @see {@link Logger.exportHistory} para el exporter subyacente.
+ */
+export class ExportCommand implements ICommand {
+    name = 'export';
+    description = 'Export log history (json|csv|markdown|plain|html)';
+    usage = '/export <format> [--level error,warn] [--since 2h]';
+    category = 'Export';
+
+    /**
+     * Ejecuta el comando `/export` contra el logger dado.
+     *
+     * @param args - `<format>` seguido de flags opcionales.
+     * @param logger - Instancia cuyo historial se exporta.
+     */
+    async execute(args: string, logger: Logger): Promise<void> {
+        const tokens = args.trim().split(/\s+/).filter(Boolean);
+        const rawFormat = (tokens.shift() ?? '').toLowerCase();
+        const format = Object.hasOwn(FORMAT_ALIASES, rawFormat) ? FORMAT_ALIASES[rawFormat]! : rawFormat;
+
+        if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+            logger.error(`Invalid export format: "${rawFormat}". Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+            return;
+        }
+
+        let flags: ExportFlags;
+        try {
+            flags = parseExportFlags(tokens);
+        } catch (error) {
+            logger.error(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        const exportFormat = format as ExportFormat;
+        const query: LogHistoryQuery = {};
+        if (flags.levels) query.levels = flags.levels;
+        if (flags.since !== undefined) query.since = flags.since;
+
+        // Snapshot antes de loguear nada, para que los mensajes del propio
+        // comando no acaben en el export.
+        const count = logger.getHistory(query).length;
+        const content = logger.exportHistory(exportFormat, query);
+        const { extension, mimeType } = EXPORT_FORMATS[exportFormat];
+        const fileName = `better-logger-${new Date().toISOString().replace(/[:.]/g, '-')}${extension}`;
+
+        try {
+            const destination = await saveExport(content, fileName, mimeType);
+            logger.success(`Exported ${count} records to ${destination}`);
+        } catch (error) {
+            logger.error('Export failed:', error);
+        }
+    }
+}
+
+/** Flags ya parseadas de `/export`. */
+interface ExportFlags {
+    levels?: LogLevel[];
+    since?: number;
+}
+
+/**
+ * Parsea `--level` y `--since` (forma `--flag valor` o `--flag=valor`).
+ *
+ * @throws {Error} Ante una flag desconocida, sin valor o con valor inválido.
+ */
+function parseExportFlags(tokens: string[]): ExportFlags {
+    const flags: ExportFlags = {};
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i] ?? '';
+        const [flag, inline] = token.split('=', 2) as [string, string | undefined];
+        const value = inline ?? tokens[++i];
+        if (value === undefined || value === '') {
+            throw new Error(`Missing value for ${flag}`);
+        }
+
+        if (flag === '--level') {
+            const levels = value.split(',').map(l => l.trim().toLowerCase()).filter(Boolean);
+            const invalid = levels.filter(l => !Object.hasOwn(LOG_LEVELS, l));
+            if (invalid.length > 0) {
+                throw new Error(`Invalid level(s): ${invalid.join(', ')}. Use: ${Object.keys(LOG_LEVELS).join(', ')}`);
+            }
+            flags.levels = levels as LogLevel[];
+        } else if (flag === '--since') {
+            flags.since = parseSince(value);
+        } else {
+            throw new Error(`Unknown export flag: ${flag}. Supported: --level, --since`);
+        }
+    }
+    return flags;
+}
+
+/**
+ * Convierte `--since` a epoch ms: duración relativa (`30s`, `15m`, `2h`,
+ * `1d`, `500ms`) contada hacia atrás desde ahora, o una fecha parseable.
+ */
+function parseSince(value: string): number {
+    const relative = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/.exec(value);
+    if (relative) {
+        const unit = relative[2] as keyof typeof TIME_UNITS;
+        return Date.now() - Number(relative[1]) * TIME_UNITS[unit];
+    }
+    const absolute = Date.parse(value);
+    if (Number.isNaN(absolute)) {
+        throw new Error(`Invalid --since value: "${value}". Use e.g. 30m, 2h, 1d or an ISO date`);
+    }
+    return absolute;
+}
+
+/**
+ * Entrega el export: descarga en el browser, fichero en `cwd` en Node.
+ *
+ * @returns Nombre del fichero descargado o ruta escrita.
+ */
+async function saveExport(content: string, fileName: string, mimeType: string): Promise<string> {
+    if (typeof document !== 'undefined' && typeof Blob !== 'undefined' && typeof URL !== 'undefined') {
+        const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = fileName;
+        document.body.appendChild(anchor);
+        anchor.click();
+        anchor.remove();
+        URL.revokeObjectURL(url);
+        return fileName;
+    }
+
+    // Dynamic import para no mandar código Node-only al bundle del browser.
+    const fsPromises = await import('node:fs/promises');
+    await fsPromises.writeFile(fileName, content, 'utf8');
+    return fileName;
+}
 
 /**
  * Comando `/status` del CLI runtime del {@link Logger}. Vuelca la
  * configuración vigente y algunas estadísticas (theme, verbosity, flags
  * de features, handler count, bufferSize) en una tabla agrupada dentro
- * de la consola. Es de solo lectura: no muta el logger.
+ * de la consola y, si hay transports de red, su salud (circuit breaker,
+ * contadores, records en cola, último error). Es de solo lectura: no muta
+ * el logger.
  *
  * @example
  * // Inspeccionar el estado actual del logger
@@ -45,6 +206,20 @@ export class StatusCommand implements ICommand {
         logger.group('⚙️ Logger Configuration');
         logger.table(statusData);
         logger.groupEnd();
+
+        const health = logger.getTransportManager()?.getHealth() ?? [];
+        if (health.length > 0) {
+            logger.group('🩺 Transport Health');
+            logger.table(health.map(({ name, health: h }) => ({
+                transport: name,
+                circuit: h.state,
+                ok: h.successCount,
+                failed: h.failureCount,
+                queued: h.queuedRecords,
+                lastError: h.lastError ? `${h.lastError.message} (${new Date(h.lastError.time).toISOString()})` : '—'
+            })));
+            logger.groupEnd();
+        }
     }
 }
 
@@ -13,7 +13,7 @@ import { CommandProcessor } from './CommandProcessor.js';
 // Commands
 export { ConfigCommand } from './commands/ConfigCommand.js';
 export { ThemesCommand, BannersCommand, BannerCommand } from './commands/ThemeCommand.js';
-export { StatusCommand, ResetCommand, DemoCommand } from './commands/ExportCommand.js';
+export { ExportCommand, StatusCommand, ResetCommand, DemoCommand } from './commands/ExportCommand.js';
 
 // Help system
 export { HelpCommand } from './help.js';
@@ -22,12 +22,12 @@ export { HelpCommand } from './help.js';
 import { HelpCommand } from './help.js';
 import { ConfigCommand } from './commands/ConfigCommand.js';
 import { ThemesCommand, BannersCommand, BannerCommand } from './commands/ThemeCommand.js';
-import { StatusCommand, ResetCommand, DemoCommand } from './commands/ExportCommand.js';
+import { ExportCommand, StatusCommand, ResetCommand, DemoCommand } from './commands/ExportCommand.js';
 
 /**
- * Crea un {@link CommandProcessor} con los 8 comandos estándar ya registrados:
- * `help`, `config`, `themes`, `banners`, `banner`, `status`, `reset` y
- * `demo`. Es el factory canónico — los consumidores normalmente no construyen
+ * Crea un {@link CommandProcessor} con los 9 comandos estándar ya registrados:
+ * `help`, `config`, `themes`, `banners`, `banner`, `status`, `reset`,
+ * `demo` y `export`. Es el factory canónico — los consumidores normalmente no construyen
  * un `CommandProcessor` vacío a mano, ya que este no trae comandos cargados.
  *
  * @returns {CommandProcessor} Processor listo para usar, sin modo interactivo activo.
@@ -62,6 +62,7 @@ export function createDefaultCLI(): CommandProcessor {
     processor.registerCommand(new StatusCommand());
     processor.registerCommand(new ResetCommand());
     processor.registerCommand(new DemoCommand());
+    processor.registerCommand(new ExportCommand());
 
     return processor;
 }
\ No newline at end of file
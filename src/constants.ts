@@ -5,6 +5,13 @@
 import type { LogLevel, AdaptiveColors, CLILogLevel, Verbosity } from './types/index.js';
 import type { LevelStyleConfig } from './utils/index.js';
 
+/**
+ * Package version (from `package.json`, injected at build time).
+ * Falls back to `0.0.0-dev` when running from source without a build.
+ */
+export const PACKAGE_VERSION: string =
+    typeof __BETTER_LOGGER_VERSION__ !== 'undefined' ? __BETTER_LOGGER_VERSION__ : '0.0.0-dev';
+
 /**
  * Default configuration values
  */
@@ -1,5 +1,22 @@
 /**
  * @fileoverview Entry point for ./context subpath.
- * MDC context utilities: createLogContext, child, withContext, getContext.
+ * MDC context utilities: createLogContext, child, withContext, getContext,
+ * plus W3C traceparent/tracestate propagation for HTTP boundaries.
  */
 export { createLogContext, type LogContext, type ContextSnapshot, type ChildLoggerFactory, type ChildLoggerShape } from './context/index.js';
+export {
+    TRACEPARENT_HEADER,
+    TRACESTATE_HEADER,
+    parseTraceparent,
+    formatTraceparent,
+    parseTracestate,
+    generateTraceContext,
+    extractTraceContext,
+    runWithTraceContext,
+    getActiveTraceContext,
+    injectTraceHeaders,
+    withTraceHeaders,
+    type TraceHeaderSource,
+    type PropagatedTraceContext,
+} from './context/index.js';
+export type { TraceContext, TraceContextProvider } from './types/index.js';
@@ -235,9 +235,53 @@ type ALS = {
 };
 declare const AsyncLocalStorage: new () => ALS;
 
-// Feature-detect AsyncLocalStorage
-const hasALS = typeof AsyncLocalStorage !== 'undefined';
-const alsInstance: ALS | undefined = hasALS ? new AsyncLocalStorage() : undefined;
+/**
+ * Feature-detect de AsyncLocalStorage: global (edge runtimes, Bun) o, en
+ * Node, `node:async_hooks` vía `process.getBuiltinModule` (sincrónico y sin
+ * import estático, para no arrastrar el módulo al bundle de browser). En
+ * Node < 20.16 / 22.3 no existe `getBuiltinModule`: ver
+ * {@link loadAsyncLocalStorage}.
+ */
+function detectAsyncLocalStorage(): (new () => ALS) | undefined {
+    if (typeof AsyncLocalStorage !== 'undefined') return AsyncLocalStorage;
+    if (typeof process === 'undefined') return undefined;
+    const proc = process as unknown as { getBuiltinModule?: (id: string) => unknown };
+    const asyncHooks = proc.getBuiltinModule?.('node:async_hooks') as
+        { AsyncLocalStorage?: new () => ALS } | undefined;
+    return asyncHooks?.AsyncLocalStorage;
+}
+
+const AsyncLocalStorageCtor = detectAsyncLocalStorage();
+let alsInstance: ALS | undefined = AsyncLocalStorageCtor ? new AsyncLocalStorageCtor() : undefined;
+
+/**
+ * Fallback para Node sin `process.getBuiltinModule`: dynamic import de
+ * `node:async_hooks` al cargar el módulo. Resuelve en cuanto termina la
+ * carga; solo un scope abierto en ese mismo tick corre sin contexto.
+ *
+ * @internal
+ * @returns Resuelve cuando la instancia ALS del módulo está disponible (o no hay ALS).
+ */
+export async function loadAsyncLocalStorage(): Promise<void> {
+    if (alsInstance || typeof process === 'undefined' || typeof process.versions?.node !== 'string') return;
+    try {
+        const asyncHooks = await import('node:async_hooks');
+        alsInstance ??= new asyncHooks.AsyncLocalStorage<Record<string, unknown>>();
+    } catch {
+        // Sin async_hooks: `withContext*` degrada a no-op como en browser.
+    }
+}
+
+void loadAsyncLocalStorage();
+
+/**
+ * Store del scope `withContext()` activo en el call stack corriente, compartido
+ * por todos los loggers que usan la instancia ALS del módulo.
+ * @internal
+ */
+export function getActiveContextScope(): Record<string, unknown> | undefined {
+    return alsInstance?.getStore();
+}
 
 /**
  * Factory que crea una instancia de {@link LogContext}.
@@ -266,8 +310,9 @@ export function createLogContext(options: ILogContextOptions): LogContext {
         ? { ...options.initialResource }
         : undefined;
 
-    // Use provided ALS instance or fall back to module-level (browser fallback)
-    const als = options.alsInstance ?? alsInstance;
+    // Use provided ALS instance or fall back to module-level (browser fallback).
+    // Se lee en cada llamada: la instancia del módulo puede llegar tras el import dinámico.
+    const currentAls = (): ALS | undefined => options.alsInstance ?? alsInstance;
 
     return {
         getContext(): ContextSnapshot {
@@ -276,6 +321,7 @@ export function createLogContext(options: ILogContextOptions): LogContext {
 
         withContext<R>(bindings: Record<string, unknown>, fn?: () => R): R | undefined {
             // No-op without AsyncLocalStorage (browser) — warn once
+            const als = currentAls();
             if (!als) {
                 if (fn) return fn();
                 return undefined;
@@ -288,6 +334,7 @@ export function createLogContext(options: ILogContextOptions): LogContext {
         },
 
         async withContextAsync<R>(bindings: Record<string, unknown>, fn: () => Promise<R>): Promise<R> {
+            const als = currentAls();
             if (!als) return fn();
             const merged = { ...context, ...bindings };
             return als.run(merged, fn);
@@ -320,7 +367,7 @@ export function createLogContext(options: ILogContextOptions): LogContext {
             // Returns the full merged context for dispatch purposes.
             // Base (parent snapshot + own context) plus ALS overlay if active.
             const base = this._getBaseContextRecord();
-            const alsContext = als?.getStore();
+            const alsContext = currentAls()?.getStore();
             if (alsContext && Object.keys(alsContext).length > 0) {
                 return { ...base, ...alsContext };
             }
@@ -348,7 +395,7 @@ export function createLogContext(options: ILogContextOptions): LogContext {
         },
 
         _getAlsStore(): Record<string, unknown> | undefined {
-            return als?.getStore();
+            return currentAls()?.getStore();
         }
     };
 }
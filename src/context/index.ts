@@ -1,6 +1,7 @@
 /**
  * @fileoverview Context/MDC subpath barrel.
- * Exports: child, withContext, withContextAsync, getContext, clearContext, setResource
+ * Exports: child, withContext, withContextAsync, getContext, clearContext, setResource,
+ * W3C trace context propagation helpers
  */
 export {
     createLogContext,
@@ -9,3 +10,18 @@ export {
     type ChildLoggerFactory,
     type ChildLoggerShape,
 } from './LogContext.js';
+export { parseTraceparent } from './traceContext.js';
+export {
+    TRACEPARENT_HEADER,
+    TRACESTATE_HEADER,
+    formatTraceparent,
+    parseTracestate,
+    generateTraceContext,
+    extractTraceContext,
+    runWithTraceContext,
+    getActiveTraceContext,
+    injectTraceHeaders,
+    withTraceHeaders,
+    type TraceHeaderSource,
+    type PropagatedTraceContext,
+} from './propagation.js';
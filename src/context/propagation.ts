@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Propagación W3C Trace Context (`traceparent` / `tracestate`)
+ * en los bordes HTTP.
+ *
+ * - Entrada: {@link runWithTraceContext} extrae los headers de un request y
+ *   ejecuta el handler dentro de un scope `withContextAsync`, así cada log
+ *   del handler lleva `traceId` / `spanId`.
+ * - Salida: {@link injectTraceHeaders} / {@link withTraceHeaders} copian los
+ *   ids del scope activo a los headers de un `fetch` saliente.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+import type { TraceContext } from '../types/index.js';
+import type { LogContext } from './LogContext.js';
+import { getActiveContextScope } from './LogContext.js';
+import { isValidTraceContext, parseTraceparent, resolveTraceContext } from './traceContext.js';
+
+/** Nombre del header W3C con trace id, parent id y flags. */
+export const TRACEPARENT_HEADER = 'traceparent';
+/** Nombre del header W3C con el estado vendor-specific del trace. */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/** Flags W3C con el bit `sampled` activo. */
+const SAMPLED_FLAG = 0x01;
+/** Máximo de entradas que admite un `tracestate` según la spec. */
+const TRACESTATE_MAX_MEMBERS = 32;
+const TRACESTATE_KEY_PATTERN = /^[a-z0-9][_0-9a-z\-*/@]{0,255}$/;
+const TRACESTATE_VALUE_PATTERN = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Headers de los que se pueden leer `traceparent` / `tracestate`: un
+ * `Headers` de Fetch o un objeto plano (`IncomingHttpHeaders` de Node, con
+ * valores string o string[]). La búsqueda es case-insensitive.
+ */
+export type TraceHeaderSource = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Trace context propagado entre servicios: los ids más el `tracestate`
+ * normalizado que se reenvía tal cual.
+ */
+export interface PropagatedTraceContext extends TraceContext {
+    /** Header `tracestate` normalizado, si venía uno válido. */
+    tracestate?: string;
+}
+
+/**
+ * Serializa un trace context como header `traceparent` (versión `00`).
+ *
+ * @param ctx - Trace context a serializar.
+ * @returns El valor del header.
+ */
+export function formatTraceparent(ctx: TraceContext): string {
+    const flags = (ctx.traceFlags ?? SAMPLED_FLAG) & 0xff;
+    return `00-${ctx.traceId}-${ctx.spanId}-${flags.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Parsea un header `tracestate` (`vendor1=value1,vendor2=value2`) en un
+ * `Map` que conserva el orden. Descarta las entradas mal formadas, las keys
+ * duplicadas (gana la primera) y todo lo que pase de 32 entradas.
+ *
+ * @param value - Valor del header. Varios headers se pueden unir con `,`.
+ * @returns Las entradas válidas, en orden.
+ */
+export function parseTracestate(value: string): Map<string, string> {
+    const entries = new Map<string, string>();
+    for (const member of value.split(',')) {
+        const trimmed = member.trim();
+        const eq = trimmed.indexOf('=');
+        if (eq <= 0) continue;
+        const key = trimmed.slice(0, eq);
+        const memberValue = trimmed.slice(eq + 1);
+        if (!TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(memberValue)) continue;
+        if (entries.has(key)) continue;
+        entries.set(key, memberValue);
+        if (entries.size === TRACESTATE_MAX_MEMBERS) break;
+    }
+    return entries;
+}
+
+/**
+ * Genera un trace context nuevo con ids aleatorios y el flag `sampled`.
+ * Usa `crypto.getRandomValues` si está disponible.
+ *
+ * @returns Un trace context válido.
+ */
+export function generateTraceContext(): TraceContext {
+    let ctx: TraceContext;
+    do {
+        ctx = { traceId: randomHex(16), spanId: randomHex(8), traceFlags: SAMPLED_FLAG };
+    } while (!isValidTraceContext(ctx));
+    return ctx;
+}
+
+/**
+ * Extrae el trace context de los headers de un request entrante. Sin un
+ * `traceparent` válido genera uno nuevo (este servicio inicia el trace) y
+ * descarta el `tracestate`, como pide la spec.
+ *
+ * @param headers - Headers del request entrante.
+ * @returns El trace context a usar para el request.
+ *
+ * @example
+ * const ctx = extractTraceContext(req.headers);
+ */
+export function extractTraceContext(headers: TraceHeaderSource): PropagatedTraceContext {
+    const traceparent = readHeader(headers, TRACEPARENT_HEADER);
+    const parsed = traceparent ? parseTraceparent(traceparent) : undefined;
+    if (!parsed) return generateTraceContext();
+
+    const tracestate = readHeader(headers, TRACESTATE_HEADER);
+    const entries = tracestate ? parseTracestate(tracestate) : undefined;
+    return entries && entries.size > 0
+        ? { ...parsed, tracestate: formatTracestate(entries) }
+        : parsed;
+}
+
+/**
+ * Ejecuta `fn` dentro de un scope `withContextAsync` con el trace context
+ * del request: los logs emitidos dentro de `fn` (también tras `await`)
+ * llevan `traceId` / `spanId`, y {@link injectTraceHeaders} los propaga a
+ * las llamadas salientes.
+ *
+ * @param scope - Logger o `LogContext` sobre el que abrir el scope.
+ * @param headers - Headers del request entrante.
+ * @param fn - Handler a ejecutar; recibe el trace context resuelto.
+ * @returns El Promise retornado por `fn`.
+ *
+ * @example
+ * server.on('request', (req, res) => runWithTraceContext(logger, req.headers, async () => {
+ *   logger.info('handling');              // record.traceId del header
+ *   await fetch(url, withTraceHeaders()); // propaga traceparent
+ * }));
+ */
+export function runWithTraceContext<R>(
+    scope: Pick<LogContext, 'withContextAsync'>,
+    headers: TraceHeaderSource,
+    fn: (ctx: PropagatedTraceContext) => Promise<R>
+): Promise<R> {
+    const ctx = extractTraceContext(headers);
+    const bindings: Record<string, unknown> = { [TRACEPARENT_HEADER]: formatTraceparent(ctx) };
+    if (ctx.tracestate) bindings[TRACESTATE_HEADER] = ctx.tracestate;
+    return scope.withContextAsync(bindings, () => fn(ctx));
+}
+
+/**
+ * Trace context activo en el call stack corriente: el del scope
+ * `withContext*` activo o, si no hay, el span activo de
+ * `@opentelemetry/api`.
+ *
+ * @returns El trace context activo, o `undefined` si no hay ninguno.
+ */
+export function getActiveTraceContext(): PropagatedTraceContext | undefined {
+    const scope = getActiveContextScope() ?? {};
+    const ctx = resolveTraceContext(scope);
+    if (!ctx) return undefined;
+    const tracestate = scope[TRACESTATE_HEADER];
+    return typeof tracestate === 'string' && tracestate ? { ...ctx, tracestate } : ctx;
+}
+
+/**
+ * Escribe `traceparent` (y `tracestate`, si hay) en un objeto de headers
+ * saliente. Sin trace context activo lo deja intacto.
+ *
+ * @param headers - `Headers` de Fetch u objeto plano; se muta in place.
+ * @param ctx - Trace context a inyectar. Default: {@link getActiveTraceContext}.
+ * @returns El mismo objeto `headers`.
+ *
+ * @example
+ * const headers = injectTraceHeaders(new Headers({ accept: 'application/json' }));
+ */
+export function injectTraceHeaders<T extends Headers | Record<string, string>>(
+    headers: T,
+    ctx: PropagatedTraceContext | undefined = getActiveTraceContext()
+): T {
+    if (!ctx || !isValidTraceContext(ctx)) return headers;
+    const values: Array<[string, string]> = [[TRACEPARENT_HEADER, formatTraceparent(ctx)]];
+    if (ctx.tracestate) values.push([TRACESTATE_HEADER, ctx.tracestate]);
+    for (const [name, value] of values) {
+        if (isFetchHeaders(headers)) headers.set(name, value);
+        else (headers as Record<string, string>)[name] = value;
+    }
+    return headers;
+}
+
+/**
+ * Devuelve una copia del `RequestInit` de `fetch` con los headers de trace
+ * inyectados. No muta `init`.
+ *
+ * @param init - Init original del `fetch`.
+ * @param ctx - Trace context a inyectar. Default: {@link getActiveTraceContext}.
+ * @returns Un `RequestInit` nuevo.
+ *
+ * @example
+ * await fetch('https://api.internal/orders', withTraceHeaders({ method: 'POST', body }));
+ */
+export function withTraceHeaders(
+    init: RequestInit = {},
+    ctx: PropagatedTraceContext | undefined = getActiveTraceContext()
+): RequestInit {
+    return { ...init, headers: injectTraceHeaders(new Headers(init.headers), ctx) };
+}
+
+// ===== Internal helpers =====
+
+function isFetchHeaders(value: unknown): value is Headers {
+    return typeof Headers !== 'undefined' && value instanceof Headers;
+}
+
+function readHeader(headers: TraceHeaderSource, name: string): string | undefined {
+    if (isFetchHeaders(headers)) return headers.get(name) ?? undefined;
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() !== name || value === undefined) continue;
+        return Array.isArray(value) ? value.join(',') : value;
+    }
+    return undefined;
+}
+
+function formatTracestate(entries: Map<string, string>): string {
+    return Array.from(entries, ([key, value]) => `${key}=${value}`).join(',');
+}
+
+function randomHex(bytes: number): string {
+    const buf = new Uint8Array(bytes);
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(buf);
+    } else {
+        for (let i = 0; i < bytes; i++) buf[i] = Math.floor(Math.random() * 256);
+    }
+    return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Resolución del trace context activo (traceId / spanId) para
+ * correlacionar logs con traces OTel.
+ *
+ * Fuentes, en orden de prioridad:
+ * 1. `LoggerConfig.traceContextProvider` — provider pluggable del usuario.
+ * 2. Contexto bound (`child()` / `withContext()`): un header W3C
+ *    `traceparent`, o el par `traceId` + `spanId` en hex.
+ * 3. Span activo de `@opentelemetry/api`, si el SDK está registrado en el
+ *    proceso. Se detecta vía el registry global de la API, sin importarla:
+ *    `@opentelemetry/api` es opcional y no es una dependencia del paquete.
+ */
+
+import type { TraceContext, TraceContextProvider } from '../types/index.js';
+
+/** Key del registry global donde `@opentelemetry/api` (v1.x) guarda sus APIs. */
+const OTEL_API_GLOBAL_KEY = Symbol.for('opentelemetry.js.api.1');
+/** Key con la que `@opentelemetry/api` guarda el span activo en su `Context`. */
+const OTEL_SPAN_KEY = Symbol.for('OpenTelemetry Context Key SPAN');
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/** Shape mínima del registry global de `@opentelemetry/api` que se consulta. */
+interface OtelApiRegistry {
+    context?: {
+        active(): { getValue(key: symbol): unknown } | undefined;
+    };
+}
+
+/** Shape mínima de un `Span` de `@opentelemetry/api`. */
+interface OtelSpanLike {
+    spanContext(): { traceId: string; spanId: string; traceFlags?: number };
+}
+
+/**
+ * Valida un par traceId/spanId: hex lowercase de 32/16 chars y no todo ceros
+ * (el valor inválido según W3C Trace Context).
+ *
+ * @internal
+ */
+export function isValidTraceContext(ctx: Partial<TraceContext> | undefined): ctx is TraceContext {
+    return ctx !== undefined
+        && typeof ctx.traceId === 'string'
+        && typeof ctx.spanId === 'string'
+        && TRACE_ID_PATTERN.test(ctx.traceId)
+        && SPAN_ID_PATTERN.test(ctx.spanId)
+        && ctx.traceId !== INVALID_TRACE_ID
+        && ctx.spanId !== INVALID_SPAN_ID;
+}
+
+/**
+ * Parsea un header W3C `traceparent` (`00-<trace-id>-<parent-id>-<flags>`).
+ * Rechaza la versión `ff` y los ids todo ceros.
+ *
+ * @param value - Valor del header.
+ * @returns El trace context, o `undefined` si el header no es válido.
+ *
+ * @example
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf9…4736', spanId: '00f0…02b7', traceFlags: 1 }
+ */
+export function parseTraceparent(value: string): TraceContext | undefined {
+    const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+    if (!match || match[1] === 'ff') return undefined;
+    const ctx: TraceContext = {
+        traceId: match[2] ?? '',
+        spanId: match[3] ?? '',
+        traceFlags: parseInt(match[4] ?? '0', 16)
+    };
+    return isValidTraceContext(ctx) ? ctx : undefined;
+}
+
+/**
+ * Extrae el trace context de los bindings del contexto MDC.
+ *
+ * @internal
+ */
+function fromContextRecord(record: Record<string, unknown>): TraceContext | undefined {
+    const traceparent = record['traceparent'];
+    if (typeof traceparent === 'string') {
+        const parsed = parseTraceparent(traceparent);
+        if (parsed) return parsed;
+    }
+    const candidate = { traceId: record['traceId'], spanId: record['spanId'] };
+    return isValidTraceContext(candidate as Partial<TraceContext>) ? candidate as TraceContext : undefined;
+}
+
+/**
+ * Lee el span activo de `@opentelemetry/api` vía su registry global.
+ * Devuelve `undefined` si la API no está cargada o no hay span activo.
+ *
+ * @internal
+ */
+function fromOtelActiveSpan(): TraceContext | undefined {
+    try {
+        const api = (globalThis as Record<symbol, unknown>)[OTEL_API_GLOBAL_KEY] as OtelApiRegistry | undefined;
+        const span = api?.context?.active()?.getValue(OTEL_SPAN_KEY) as OtelSpanLike | undefined;
+        if (!span || typeof span.spanContext !== 'function') return undefined;
+        const { traceId, spanId, traceFlags } = span.spanContext();
+        const ctx: TraceContext = { traceId, spanId, traceFlags };
+        return isValidTraceContext(ctx) ? ctx : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Resuelve el trace context activo para un record. Un provider que lanza o
+ * devuelve un valor inválido se ignora y se pasa a la siguiente fuente: la
+ * correlación nunca rompe el path de log.
+ *
+ * @param contextRecord - Contexto mergeado del logger (base + overlay ALS).
+ * @param provider - `LoggerConfig.traceContextProvider`, si hay.
+ * @returns El trace context activo, o `undefined` si ninguna fuente lo aporta.
+ *
+ * @internal
+ */
+export function resolveTraceContext(
+    contextRecord: Record<string, unknown>,
+    provider?: TraceContextProvider
+): TraceContext | undefined {
+    if (provider) {
+        try {
+            const provided = provider();
+            if (isValidTraceContext(provided)) return provided;
+        } catch {
+            // provider roto: seguir con el resto de fuentes
+        }
+    }
+    return fromContextRecord(contextRecord) ?? fromOtelActiveSpan();
+}
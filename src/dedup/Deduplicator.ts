@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Deduplicator — colapsa records idénticos dentro de una
+ * ventana temporal y reporta cuántas veces se repitieron.
+ */
+
+import type { LogLevel, TransportRecord, DedupConfig } from '../types/index.js';
+
+const DEFAULT_WINDOW_MS = 30_000;
+const DEFAULT_MAX_KEYS = 1000;
+
+/** Campos de un record que forman la key de dedup. */
+export type DedupKeySource = Pick<TransportRecord, 'level' | 'prefix' | 'msg' | 'tag'>;
+
+/**
+ * Resumen de una ventana con repeticiones, entregado al callback
+ * `onSummary` del {@link Deduplicator}.
+ */
+export interface DedupSummary<T> {
+    /** Payload del primer record de la ventana (el que sí se emitió). */
+    payload: T;
+    /** Records suprimidos (sin contar el primero). */
+    count: number;
+    /** Tiempo entre el primer record y el cierre de la ventana. */
+    durationMs: number;
+}
+
+interface DedupWindow<T> {
+    payload: T;
+    count: number;
+    startedAt: number;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Ventanas de dedup por key (`level` + `prefix` + `tag` + `msg`).
+ *
+ * El primer record de cada key abre una ventana de `windowMs` y se emite;
+ * los idénticos que lleguen antes del cierre se suprimen y se cuentan. Al
+ * cerrar la ventana, si hubo repeticiones, se invoca `onSummary` — quien lo
+ * construye decide cómo emitir el resumen. El siguiente record de la key
+ * abre una ventana nueva.
+ *
+ * Los timers se crean con `unref()` para no mantener vivo el proceso; usa
+ * {@link flush} antes de salir para no perder resúmenes pendientes.
+ *
+ * @example
+ * ```ts
+ * const dedup = new Deduplicator<string>({ windowMs: 5000 }, ({ payload, count }) =>
+ *     console.warn(`${payload} … repeated ${count} times`));
+ * if (dedup.admit(record, record.msg)) transport.write(record);
+ * ```
+ */
+export class Deduplicator<T> {
+    private readonly windowMs: number;
+    private readonly maxKeys: number;
+    private readonly levels: ReadonlySet<LogLevel> | null;
+    private readonly windows = new Map<string, DedupWindow<T>>();
+
+    /**
+     * @param config - Ventana, niveles y tope de keys. Ver {@link DedupConfig}.
+     * @param onSummary - Se invoca al cerrar una ventana con repeticiones.
+     */
+    constructor(
+        config: DedupConfig,
+        private readonly onSummary: (summary: DedupSummary<T>) => void
+    ) {
+        this.windowMs = config.windowMs !== undefined && config.windowMs > 0 ? config.windowMs : DEFAULT_WINDOW_MS;
+        this.maxKeys = config.maxKeys !== undefined && config.maxKeys > 0 ? config.maxKeys : DEFAULT_MAX_KEYS;
+        this.levels = config.levels ? new Set(config.levels) : null;
+    }
+
+    /** Keys con ventana abierta. */
+    get size(): number {
+        return this.windows.size;
+    }
+
+    /**
+     * Decide si un record se emite o se suprime por duplicado.
+     *
+     * @param source - Campos que forman la key.
+     * @param payload - Lo que recibirá `onSummary` si la ventana que abre
+     *   este record acumula repeticiones. Solo se guarda para el primero.
+     * @returns `true` si el record debe emitirse.
+     */
+    admit(source: DedupKeySource, payload: T): boolean {
+        if (this.levels && !this.levels.has(source.level)) return true;
+
+        const key = dedupKey(source);
+        const open = this.windows.get(key);
+        if (open) {
+            open.count++;
+            return false;
+        }
+
+        if (this.windows.size >= this.maxKeys) {
+            const oldest = this.windows.keys().next().value;
+            if (oldest !== undefined) this.close(oldest);
+        }
+
+        const timer = setTimeout(() => this.close(key), this.windowMs);
+        (timer as { unref?: () => void }).unref?.();
+        this.windows.set(key, { payload, count: 0, startedAt: Date.now(), timer });
+        return true;
+    }
+
+    /** Cierra todas las ventanas ahora, emitiendo los resúmenes pendientes. */
+    flush(): void {
+        for (const key of this.windows.keys()) this.close(key);
+    }
+
+    /** Descarta todas las ventanas sin emitir resúmenes. */
+    dispose(): void {
+        this.windows.forEach(window => clearTimeout(window.timer));
+        this.windows.clear();
+    }
+
+    private close(key: string): void {
+        const window = this.windows.get(key);
+        if (!window) return;
+        clearTimeout(window.timer);
+        this.windows.delete(key);
+        if (window.count === 0) return;
+        try {
+            this.onSummary({
+                payload: window.payload,
+                count: window.count,
+                durationMs: Date.now() - window.startedAt
+            });
+        } catch (error) {
+            // eslint-disable-next-line no-console
+            console.error('Dedup summary failed:', error);
+        }
+    }
+}
+
+/**
+ * Mensaje del resumen: `"<msg> … repeated 1,284 times in 30s"`.
+ *
+ * @param message - Mensaje original.
+ * @param count - Repeticiones suprimidas.
+ * @param durationMs - Duración de la ventana.
+ */
+export function formatRepeatSummary(message: string, count: number, durationMs: number): string {
+    const times = count === 1 ? 'time' : 'times';
+    return `${message} … repeated ${count.toLocaleString('en-US')} ${times} in ${formatDuration(durationMs)}`;
+}
+
+// ===== Internal helpers =====
+
+function dedupKey(source: DedupKeySource): string {
+    return [source.level, source.prefix ?? '', source.tag ?? '', source.msg].join('\u0000');
+}
+
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`;
+    return `${Math.round(ms / 100) / 10}s`;
+}
@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Dedup barrel.
+ * Exports: Deduplicator, formatRepeatSummary
+ */
+export {
+    Deduplicator,
+    formatRepeatSummary,
+    type DedupSummary,
+    type DedupKeySource
+} from './Deduplicator.js';
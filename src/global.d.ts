@@ -14,4 +14,11 @@ declare const localStorage: any;
 declare const self: any;
 declare const MediaQueryListEvent: any;
 declare const MediaQueryList: any;
-declare type MediaQueryListEvent = any;
\ No newline at end of file
+declare type MediaQueryListEvent = any;
+
+/**
+ * Versión del paquete, inyectada en build por el `define` de rolldown / vite
+ * desde `package.json`. Sin build (TS directo) no existe: leerla siempre tras
+ * un guard `typeof`.
+ */
+declare const __BETTER_LOGGER_VERSION__: string;
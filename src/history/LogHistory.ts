@@ -0,0 +1,191 @@
+/**
+ * @fileoverview LogHistory — ring buffer acotado de `TransportRecord`s con
+ * API de consulta. Respaldado por `LoggerConfig.bufferSize`.
+ */
+
+import type { TransportRecord, LogHistoryQuery, LogAttributeValue } from '../types/index.js';
+import { LOG_LEVELS } from '../types/index.js';
+import { stripAnsi } from '../terminal/formatter.js';
+
+/**
+ * Historial en memoria de los últimos N registros emitidos por un logger.
+ *
+ * Implementado como ring buffer de capacidad fija: al llenarse, cada
+ * registro nuevo sobrescribe el más viejo en O(1), sin `shift()` ni
+ * realocaciones. Con capacidad `0` el historial queda desactivado y
+ * {@link push} es no-op.
+ *
+ * Los registros se guardan tal cual se despacharon a los transports (mismo
+ * `TransportRecord`), así que un volcado post-mortem ("los últimos 500 logs
+ * antes del crash") tiene exactamente la misma forma que lo que llegó al
+ * backend.
+ *
+ * @example
+ * ```ts
+ * const history = new LogHistory(500);
+ * history.push(record);
+ * history.query({ minLevel: 'error', limit: 20 });
+ * ```
+ */
+export class LogHistory {
+    private slots: Array<TransportRecord | undefined>;
+    /** Índice del próximo slot a escribir. */
+    private head = 0;
+    private count = 0;
+
+    /**
+     * @param capacity - Máximo de registros retenidos. `0` desactiva el historial.
+     */
+    constructor(capacity: number) {
+        this.slots = emptySlots(normaliseCapacity(capacity));
+    }
+
+    /** Capacidad máxima actual. */
+    get capacity(): number {
+        return this.slots.length;
+    }
+
+    /** Registros retenidos actualmente. */
+    get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Añade un registro; si el buffer está lleno sobrescribe el más viejo.
+     *
+     * @param record - Registro ya despachado a los transports.
+     */
+    push(record: TransportRecord): void {
+        if (this.slots.length === 0) return;
+        this.slots[this.head] = record;
+        this.head = (this.head + 1) % this.slots.length;
+        if (this.count < this.slots.length) this.count++;
+    }
+
+    /**
+     * Cambia la capacidad conservando los registros más recientes que quepan.
+     *
+     * @param capacity - Nueva capacidad. `0` desactiva y vacía el historial.
+     */
+    resize(capacity: number): void {
+        const next = normaliseCapacity(capacity);
+        if (next === this.slots.length) return;
+        const kept = next === 0 ? [] : this.toArray().slice(-next);
+        this.slots = emptySlots(next);
+        this.head = 0;
+        this.count = 0;
+        kept.forEach(record => this.push(record));
+    }
+
+    /** Vacía el historial sin cambiar la capacidad. */
+    clear(): void {
+        this.slots = emptySlots(this.slots.length);
+        this.head = 0;
+        this.count = 0;
+    }
+
+    /**
+     * Devuelve los registros retenidos en orden cronológico (más viejo primero).
+     *
+     * @returns Copia del contenido del buffer.
+     */
+    toArray(): TransportRecord[] {
+        const out: TransportRecord[] = [];
+        const start = (this.head - this.count + this.slots.length) % (this.slots.length || 1);
+        for (let i = 0; i < this.count; i++) {
+            const record = this.slots[(start + i) % this.slots.length];
+            if (record) out.push(record);
+        }
+        return out;
+    }
+
+    /**
+     * Filtra el historial con los criterios de {@link LogHistoryQuery}
+     * (combinados con AND). El resultado conserva el orden cronológico; con
+     * `limit` se quedan los N más recientes.
+     *
+     * @param query - Criterios de filtrado. Sin criterios devuelve todo.
+     * @returns Registros que pasan el filtro.
+     */
+    query(query: LogHistoryQuery = {}): TransportRecord[] {
+        const matches = this.toArray().filter(record => matchesQuery(record, query));
+        if (query.limit !== undefined && query.limit >= 0) {
+            return query.limit === 0 ? [] : matches.slice(-query.limit);
+        }
+        return matches;
+    }
+}
+
+// ===== Internal helpers =====
+
+function normaliseCapacity(capacity: number): number {
+    return Number.isFinite(capacity) && capacity > 0 ? Math.floor(capacity) : 0;
+}
+
+function emptySlots(length: number): Array<TransportRecord | undefined> {
+    return Array.from({ length }, () => undefined);
+}
+
+function toEpoch(value: number | Date): number {
+    return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Scopes de un registro: segmentos del prefijo (`App:DB` → `App`, `DB`) más
+ * los badges `[X]` con los que arranca el mensaje de un scoped logger.
+ */
+function recordScopes(record: TransportRecord): string[] {
+    const scopes = record.prefix ? record.prefix.split(':') : [];
+    const leading = /^\s*\[([^\]]+)\]/;
+    let rest = stripAnsi(record.msg);
+    let match = leading.exec(rest);
+    while (match) {
+        scopes.push(...(match[1] ?? '').split(':'));
+        rest = rest.slice(match[0].length);
+        match = leading.exec(rest);
+    }
+    return scopes;
+}
+
+function matchesPrefix(record: TransportRecord, prefix: string | RegExp): boolean {
+    const scopes = recordScopes(record);
+    if (prefix instanceof RegExp) {
+        return (record.prefix !== undefined && prefix.test(record.prefix))
+            || scopes.some(scope => prefix.test(scope));
+    }
+    const wanted = prefix.toLowerCase();
+    return record.prefix?.toLowerCase() === wanted
+        || scopes.some(scope => scope.toLowerCase() === wanted);
+}
+
+function attributeEquals(actual: LogAttributeValue | undefined, expected: LogAttributeValue): boolean {
+    if (actual === expected) return true;
+    if (actual === undefined || typeof expected !== 'object' || expected === null) return false;
+    return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function matchesQuery(record: TransportRecord, query: LogHistoryQuery): boolean {
+    if (query.minLevel && LOG_LEVELS[record.level] < LOG_LEVELS[query.minLevel]) return false;
+    if (query.maxLevel && LOG_LEVELS[record.level] > LOG_LEVELS[query.maxLevel]) return false;
+    if (query.levels && !query.levels.includes(record.level)) return false;
+    if (query.since !== undefined && record.time < toEpoch(query.since)) return false;
+    if (query.until !== undefined && record.time > toEpoch(query.until)) return false;
+    if (query.prefix !== undefined && !matchesPrefix(record, query.prefix)) return false;
+
+    if (query.attributes) {
+        for (const [key, expected] of Object.entries(query.attributes)) {
+            if (!attributeEquals(record.attributes?.[key], expected)) return false;
+        }
+    }
+
+    if (query.search !== undefined) {
+        const text = stripAnsi(record.msg);
+        if (query.search instanceof RegExp) {
+            if (!query.search.test(text)) return false;
+        } else if (!text.toLowerCase().includes(query.search.toLowerCase())) {
+            return false;
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Exporters de `TransportRecord`s a los formatos de
+ * {@link ExportFormat}: JSON, CSV, Markdown, texto plano y HTML standalone.
+ */
+
+import type { TransportRecord, ExportFormat } from '../types/index.js';
+import type { LevelStyleConfig } from '../utils/index.js';
+import { LEVEL_STYLES } from '../constants.js';
+import { stripAnsi } from '../terminal/formatter.js';
+
+/**
+ * Opciones de {@link exportRecords}.
+ */
+export interface ExportOptions {
+    /**
+     * Estilos por nivel (`emoji`, `label`, `background`, `color`, `border`)
+     * que usa el exporter HTML. Default: los del theme activo en
+     * {@link LEVEL_STYLES}. `Logger.exportHistory()` pasa los del logger.
+     */
+    styles?: Record<string, LevelStyleConfig>;
+    /** Título del documento HTML / encabezado Markdown. @default 'Better Logger export' */
+    title?: string;
+    /**
+     * `false` omite la fila de columnas (CSV) y el título + cabecera de la
+     * tabla (Markdown), para añadir filas a una salida ya empezada. Sin
+     * efecto en el resto de formatos. @default true
+     */
+    header?: boolean;
+}
+
+const DEFAULT_TITLE = 'Better Logger export';
+const CSV_COLUMNS = ['time', 'level', 'prefix', 'tag', 'message', 'location', 'traceId', 'spanId', 'attributes'] as const;
+
+/**
+ * Serializa una lista de registros al formato pedido. Los mensajes se
+ * exportan sin códigos ANSI.
+ *
+ * - `json`: array de `TransportRecord` indentado.
+ * - `csv`: una fila por registro, columnas escapadas según RFC 4180.
+ * - `markdown`: tabla con `|` y saltos de línea escapados.
+ * - `plain`: `ISO [LEVEL] [prefix] mensaje (file:line)` por línea.
+ * - `html`: documento standalone con los colores del theme por nivel.
+ *
+ * @param records - Registros a exportar (p.ej. `logger.getHistory(query)`).
+ * @param format - Formato de salida.
+ * @param options - Estilos, título y cabecera (HTML / CSV / Markdown).
+ * @returns El contenido exportado como string.
+ *
+ * @example
+ * const csv = exportRecords(logger.getHistory({ minLevel: 'warn' }), 'csv');
+ */
+export function exportRecords(
+    records: TransportRecord[],
+    format: ExportFormat,
+    options: ExportOptions = {}
+): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(records.map(r => ({ ...r, msg: stripAnsi(r.msg) })), null, 2);
+        case 'csv':
+            return toCsv(records, options.header ?? true);
+        case 'markdown':
+            return toMarkdown(records, options.title ?? DEFAULT_TITLE, options.header ?? true);
+        case 'plain':
+            return records.map(toPlainLine).join('\n') + (records.length > 0 ? '\n' : '');
+        case 'html':
+            return toHtml(records, options.styles ?? LEVEL_STYLES, options.title ?? DEFAULT_TITLE);
+        default:
+            throw new Error(`Unsupported export format: ${String(format)}`);
+    }
+}
+
+// ===== Internal helpers =====
+
+function formatLocation(record: TransportRecord): string {
+    return record.location ? `${record.location.file}:${record.location.line}` : '';
+}
+
+function styleKey(record: TransportRecord): string {
+    return record.tag === 'success' ? 'success' : record.level;
+}
+
+function toPlainLine(record: TransportRecord): string {
+    const parts = [new Date(record.time).toISOString(), `[${record.severityText}]`];
+    if (record.prefix) parts.push(`[${record.prefix}]`);
+    parts.push(stripAnsi(record.msg));
+    const location = formatLocation(record);
+    if (location) parts.push(`(${location})`);
+    return parts.join(' ');
+}
+
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(records: TransportRecord[], header: boolean): string {
+    const rows = records.map(record => [
+        new Date(record.time).toISOString(),
+        record.level,
+        record.prefix ?? '',
+        record.tag ?? '',
+        stripAnsi(record.msg),
+        formatLocation(record),
+        record.traceId ?? '',
+        record.spanId ?? '',
+        record.attributes ? JSON.stringify(record.attributes) : ''
+    ].map(escapeCsv).join(','));
+    const lines = header ? [CSV_COLUMNS.join(','), ...rows] : rows;
+    return lines.length > 0 ? lines.join('\r\n') + '\r\n' : '';
+}
+
+function escapeMarkdownCell(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/\|/g, '\\|')
+        .replace(/\r?\n/g, '<br>');
+}
+
+function toMarkdown(records: TransportRecord[], title: string, header: boolean): string {
+    const lines = header
+        ? [
+            `# ${title}`,
+            '',
+            '| Time | Level | Prefix | Message | Location |',
+            '|------|-------|--------|---------|----------|'
+        ]
+        : [];
+    for (const record of records) {
+        const cells = [
+            new Date(record.time).toISOString(),
+            record.tag === 'success' ? 'SUCCESS' : record.severityText,
+            record.prefix ?? '',
+            stripAnsi(record.msg),
+            formatLocation(record)
+        ].map(escapeMarkdownCell);
+        lines.push(`| ${cells.join(' | ')} |`);
+    }
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** Los valores de estilo vienen del theme; se descartan los que podrían cerrar la regla CSS. */
+function cssValue(value: string | undefined): string {
+    return value && !/[;{}<]/.test(value) ? value : 'inherit';
+}
+
+function toHtml(records: TransportRecord[], styles: Record<string, LevelStyleConfig>, title: string): string {
+    const levelRules = Object.entries(styles)
+        .map(([level, style]) => `    .level-${level} .badge { background: ${cssValue(style.background)}; color: ${cssValue(style.color)}; border: ${cssValue(style.border)}; }`)
+        .join('\n');
+
+    const rows = records.map(record => {
+        const key = styleKey(record);
+        const style = styles[key];
+        const badge = `${style?.emoji ?? ''} ${style?.label ?? record.severityText}`.trim();
+        return [
+            `      <tr class="level-${escapeHtml(key)}">`,
+            `        <td class="time">${escapeHtml(new Date(record.time).toISOString())}</td>`,
+            `        <td><span class="badge">${escapeHtml(badge)}</span></td>`,
+            `        <td class="prefix">${escapeHtml(record.prefix ?? '')}</td>`,
+            `        <td class="msg">${escapeHtml(stripAnsi(record.msg))}</td>`,
+            `        <td class="location">${escapeHtml(formatLocation(record))}</td>`,
+            '      </tr>'
+        ].join('\n');
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; background: #1e1e1e; color: #d4d4d4; margin: 2rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #333; vertical-align: top; }
+    .badge { display: inline-block; padding: 1px 8px; border-radius: 4px; font-weight: bold; white-space: nowrap; }
+    .time, .location { color: #888; white-space: nowrap; }
+    .msg { white-space: pre-wrap; }
+${levelRules}
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${records.length} records</p>
+  <table>
+    <thead>
+      <tr><th>Time</th><th>Level</th><th>Prefix</th><th>Message</th><th>Location</th></tr>
+    </thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview History barrel.
+ * Exports: LogHistory, exportRecords, ExportOptions
+ */
+export { LogHistory } from './LogHistory.js';
+export { exportRecords, type ExportOptions } from './exporters.js';
@@ -367,45 +367,61 @@ export class HookManager implements IHookManager {
      *    pueden mutar el entry vía return partial).
      * 2. Si hay middlewares registrados ({@link use}), los ejecuta en cascada
      *    sobre el entry ya enriquecido por los hooks de `beforeLog`.
+     * 3. Si se pasa `dispatch`, se invoca como eslabón final de la cadena —
+     *    el `next()` del último middleware — con el entry ya mutado. Así los
+     *    middlewares envuelven la emisión estilo Koa: lo que hagan después de
+     *    `await next()` corre con el log ya emitido, y un middleware que no
+     *    llama a `next()` impide que `dispatch` se ejecute.
      *
-     * Es el punto de entrada que el logger invoca **antes** de despachar el
-     * record a los transports. El entry devuelto es el que finalmente se loguea.
+     * Es el punto de entrada que el logger invoca para cada emisión. El entry
+     * devuelto es el que finalmente se loguea.
      *
      * No emite `afterLog`; para eso usar {@link afterProcess} una vez que el
      * dispatch al transport haya terminado.
      *
      * @param entry - Entry crudo entrante al pipeline.
+     * @param dispatch - Emisión final, envuelta por la cadena de middlewares.
      * @returns {Promise<HookLogEntry>} Entry final listo para mandar a transports.
      *
      * @example
      * ```ts
-     * const processed = await hooks.process(rawEntry);
-     * await transport.write(processed);
-     * await hooks.afterProcess(processed);
+     * let emitted = false;
+     * const processed = await hooks.process(rawEntry, async (entry) => {
+     *   await transport.write(entry);
+     *   emitted = true;
+     * });
+     * if (emitted) await hooks.afterProcess(processed);
      * ```
      *
      * @see {@link afterProcess}
      * @see {@link use}
      */
-    async process(entry: HookLogEntry): Promise<HookLogEntry> {
+    async process(
+        entry: HookLogEntry,
+        dispatch?: (entry: HookLogEntry) => void | Promise<void>
+    ): Promise<HookLogEntry> {
         let currentEntry = { ...entry };
 
         currentEntry = await this.emit('beforeLog', currentEntry);
 
-        if (this.middlewares.length > 0) {
-            let index = 0;
+        // Snapshot de la cadena: un use()/cancelación durante el recorrido
+        // no desplaza índices a mitad de emisión.
+        const chain = [...this.middlewares];
+        let index = 0;
 
-            const executeNext = async (): Promise<void> => {
-                if (index < this.middlewares.length) {
-                    const middleware = this.middlewares[index++];
-                    if (middleware) {
-                        await middleware.fn(currentEntry, executeNext);
-                    }
+        const executeNext = async (): Promise<void> => {
+            if (index < chain.length) {
+                const middleware = chain[index++];
+                if (middleware) {
+                    await middleware.fn(currentEntry, executeNext);
                 }
-            };
+            } else if (index === chain.length) {
+                index++;
+                await dispatch?.(currentEntry);
+            }
+        };
 
-            await executeNext();
-        }
+        await executeNext();
 
         return currentEntry;
     }
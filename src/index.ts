@@ -96,15 +96,28 @@ export type {
     SerializerContext,
     SerializerConfig,
     ISerializerRegistry,
+    RedactionConfig,
+    RedactionStrategy,
     HookLogEntry,
     HookEvent,
     HookCallback,
     MiddlewareFn,
     IHookManager,
     TransportRecord,
+    ILogException,
     TransportOptions,
     TransportTarget,
     ITransport,
+    CircuitState,
+    TransportHealth,
+    LogHistoryQuery,
+    ExportFormat,
+    SamplingConfig,
+    RateLimitPolicy,
+    SamplingStats,
+    DedupConfig,
+    TraceContext,
+    TraceContextProvider,
     TimestampFormat,
     ColumnAlign,
     ColumnConfig,
@@ -125,7 +138,7 @@ export {
 } from './styling/index.js';
 
 // Enterprise features — convenience wrappers bound to the singleton.
-import type { SerializerFn, HookEvent, HookCallback, MiddlewareFn, TransportTarget } from './types/index.js';
+import type { SerializerFn, HookEvent, HookCallback, MiddlewareFn, TransportTarget, LogHistoryQuery, ExportFormat } from './types/index.js';
 export const addSerializer = <T>(
     type: new (...args: unknown[]) => T,
     serializer: SerializerFn<T>,
@@ -149,6 +162,22 @@ export const flushTransports = () =>
     getLogger().flushTransports();
 export const closeTransports = () =>
     getLogger().closeTransports();
+export const getHistory = (query?: LogHistoryQuery) =>
+    getLogger().getHistory(query);
+export const exportHistory = (format: ExportFormat, query?: LogHistoryQuery) =>
+    getLogger().exportHistory(format, query);
+
+// History exporters
+export { exportRecords, type ExportOptions } from './history/index.js';
+
+// Sampling
+export { Sampler } from './sampling/index.js';
+
+// Dedup
+export { Deduplicator, formatRepeatSummary, type DedupSummary } from './dedup/index.js';
+
+// Browser global errors
+export { captureGlobalErrors, type GlobalErrorCaptureOptions, type GlobalErrorSource } from './browser/index.js';
 
 // Scoped loggers
 export {
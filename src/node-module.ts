@@ -1,8 +1,52 @@
 /**
  * @fileoverview Entry point for ./node subpath.
  *
- * Reserved namespace for Node-only utilities. Use the main entry (`@mks2508/better-logger`)
- * for cross-runtime APIs. This subpath exists so future Node-only features
- * (file-based log capture, fs-backed rotation, etc.) can land here without
- * polluting the default bundle.
+ * Node-only utilities. Use the main entry (`@mks2508/better-logger`) for
+ * cross-runtime APIs; code that needs `node:*` modules or server frameworks
+ * lands here so it stays out of the default bundle.
+ *
+ * Request logging middleware: node:http, Express, Fastify, Hono.
+ * SyslogTransport: RFC 5424 over UDP, TCP (octet-counting) and Unix stream sockets.
+ * GelfTransport: GELF 1.1 for Graylog over chunked UDP or TCP.
+ * JsonStreamTransport: NDJSON to stdout or any writable stream.
+ * WorkerTransport: runs other transports off the main thread in a worker.
+ * installShutdownHandlers: flushes transports on exit, SIGINT/SIGTERM and fatal errors.
  */
+export {
+    httpRequestLogger,
+    expressRequestLogger,
+    fastifyRequestLogger,
+    honoRequestLogger,
+    levelForStatus,
+    type RequestLoggerOptions,
+    type RequestLogInfo,
+    type HttpRequestHandler,
+    type ExpressRequestLike,
+    type ExpressMiddleware,
+    type FastifyRequestLike,
+    type FastifyReplyLike,
+    type FastifyInstanceLike,
+    type FastifyPlugin,
+    type HonoContextLike,
+    type HonoMiddleware,
+    SyslogTransport,
+    LOG_LEVEL_TO_SYSLOG_SEVERITY,
+    type SyslogTransportOptions,
+    type SyslogFacility,
+    type SyslogProtocol,
+    GelfTransport,
+    type GelfTransportOptions,
+    type GelfMessage,
+    JsonStreamTransport,
+    PINO_LEVELS,
+    type JsonStreamTransportOptions,
+    type JsonStreamPreset,
+    type JsonStreamFieldNames,
+    type JsonWritableStream,
+    WorkerTransport,
+    type WorkerTransportOptions,
+    type WorkerTransportTarget,
+    installShutdownHandlers,
+    type ShutdownHandlerOptions,
+    type ShutdownEvent,
+} from './node/index.js';
@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Entry del worker de `WorkerTransport` (subpath `./node`).
+ * Se carga con `new Worker(...)`, nunca con `import`.
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { runTransportWorker, type TransportWorkerData } from './node/transportWorker.js';
+
+if (parentPort) {
+    void runTransportWorker(workerData as TransportWorkerData, parentPort);
+}
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Transport GELF 1.1 para Graylog: UDP con chunking y
+ * compresión gzip / zlib, o TCP con framing por null byte.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { hostname as osHostname } from 'node:os';
+import { deflateSync, gzipSync } from 'node:zlib';
+import type {
+    ITransport,
+    TransportRecord,
+    LogAttributeValue,
+    HookLogEntry,
+    HookEvent
+} from '../types/index.js';
+import { SocketSender } from './SocketSender.js';
+import { LOG_LEVEL_TO_SYSLOG_SEVERITY } from './SyslogTransport.js';
+
+/**
+ * Opciones de configuración para {@link GelfTransport}.
+ */
+export interface GelfTransportOptions {
+    /** `udp` (chunking + compresión) o `tcp` (null-byte framing). Default `'udp'`. */
+    protocol?: 'udp' | 'tcp';
+    /** Host del input GELF de Graylog. Default `'127.0.0.1'`. */
+    host?: string;
+    /** Puerto del input GELF. Default `12201`. */
+    port?: number;
+    /**
+     * Compresión de los mensajes UDP. Graylog acepta los tres sin
+     * configuración extra; los inputs GELF TCP no admiten compresión.
+     * Default `'gzip'` en UDP.
+     */
+    compression?: 'gzip' | 'zlib' | 'none';
+    /**
+     * Tamaño máximo de datagrama (bytes, incluida la cabecera de chunk de
+     * 12 bytes). Los mensajes más grandes se parten en chunks; 1420 es
+     * seguro en WAN, 8192 es habitual en LAN. Default 1420.
+     */
+    maxChunkSize?: number;
+    /** Campo `host` de GELF. Default `os.hostname()`. */
+    hostname?: string;
+    /** Additional fields fijos para todos los mensajes (`{ environment: 'prod' }` → `_environment`). */
+    staticFields?: Record<string, string | number>;
+    /** Espera antes de reintentar la conexión TCP tras un fallo (ms). Default 1000. */
+    reconnectDelay?: number;
+    /** Tope de mensajes encolados mientras no hay conexión TCP. Default 10000 (drop-oldest). */
+    maxBufferSize?: number;
+    /** Errores de socket y mensajes descartados. */
+    onError?: (entry: HookLogEntry) => void | Promise<void>;
+}
+
+/**
+ * Mensaje GELF 1.1.
+ * @see https://go2docs.graylog.org/current/getting_in_log_data/gelf.html
+ */
+export interface GelfMessage {
+    version: '1.1';
+    host: string;
+    short_message: string;
+    full_message?: string;
+    /** Epoch en segundos, con milisegundos como decimales. */
+    timestamp: number;
+    /** Severity syslog (ver {@link LOG_LEVEL_TO_SYSLOG_SEVERITY}). */
+    level: number;
+    [additional: `_${string}`]: string | number;
+}
+
+const CHUNK_MAGIC = [0x1e, 0x0f];
+const CHUNK_HEADER_BYTES = 12;
+const MAX_CHUNKS = 128;
+const DEFAULT_MAX_CHUNK_SIZE = 1420;
+
+/**
+ * Transport GELF 1.1 (Graylog Extended Log Format).
+ *
+ * Cada record se mapea a un {@link GelfMessage}: `msg` → `short_message`,
+ * el stacktrace de la excepción → `full_message`, el nivel → severity
+ * syslog, y `attributes`, `resource`, `prefix` (`_logger`), trace ids y
+ * ubicación → additional fields con prefijo `_`. Los structs se aplanan con
+ * `_` (`user.id` → `_user_id`).
+ *
+ * Por UDP el JSON se comprime y, si no cabe en `maxChunkSize`, se parte en
+ * chunks GELF (máx. 128). Por TCP cada mensaje sale sin comprimir y
+ * terminado en `\0`, sobre una conexión persistente que se reabre sola.
+ *
+ * @implements {ITransport}
+ *
+ * @example
+ * ```ts
+ * import { GelfTransport } from '@mks2508/better-logger/node';
+ *
+ * logger.addTransport({
+ *   target: new GelfTransport({ host: 'graylog.internal', staticFields: { environment: 'production' } })
+ * });
+ * ```
+ */
+export class GelfTransport implements ITransport {
+    /** Identificador del transport dentro del pipeline (`'gelf'`). */
+    readonly name = 'gelf';
+
+    private readonly options: GelfTransportOptions;
+    private readonly protocol: 'udp' | 'tcp';
+    private readonly hostname: string;
+    private readonly compression: 'gzip' | 'zlib' | 'none';
+    private readonly maxChunkSize: number;
+    private readonly sender: SocketSender;
+    private closed = false;
+
+    /**
+     * @param {GelfTransportOptions} [options] - Configuración. Default: UDP gzip a `127.0.0.1:12201`.
+     * @throws {Error} Si se pide compresión sobre TCP o `maxChunkSize` no deja sitio para datos.
+     */
+    constructor(options: GelfTransportOptions = {}) {
+        this.protocol = options.protocol ?? 'udp';
+        if (this.protocol === 'tcp' && options.compression && options.compression !== 'none') {
+            throw new Error('GelfTransport: `compression` is only supported over UDP');
+        }
+        this.maxChunkSize = options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE;
+        if (this.maxChunkSize <= CHUNK_HEADER_BYTES) {
+            throw new Error(`GelfTransport: \`maxChunkSize\` must be greater than ${CHUNK_HEADER_BYTES}`);
+        }
+
+        this.options = options;
+        this.hostname = options.hostname ?? osHostname();
+        this.compression = this.protocol === 'udp' ? options.compression ?? 'gzip' : 'none';
+        this.sender = new SocketSender({
+            protocol: this.protocol,
+            host: options.host ?? '127.0.0.1',
+            port: options.port ?? 12201,
+            path: '',
+            reconnectDelay: options.reconnectDelay,
+            maxBufferSize: options.maxBufferSize
+        }, 'GelfTransport', (message, cause, extra) => this.emitError(message, cause, extra));
+    }
+
+    /**
+     * Indica si el transport acepta escrituras. Devuelve `false` después de
+     * {@link GelfTransport.close}.
+     */
+    isReady(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Serializa el record y lo envía: chunks comprimidos por UDP, un frame
+     * terminado en `\0` por TCP.
+     *
+     * @param record - Record a enviar.
+     */
+    write(record: TransportRecord): void {
+        if (this.closed) return;
+        const json = Buffer.from(JSON.stringify(this.toMessage(record)), 'utf8');
+        if (this.protocol === 'tcp') {
+            this.sender.send(Buffer.concat([json, Buffer.from([0])]));
+            return;
+        }
+
+        const chunks = this.chunk(this.compress(json));
+        if (!chunks) {
+            this.emitError(
+                `GelfTransport dropped a message that needs more than ${MAX_CHUNKS} chunks`,
+                undefined,
+                { droppedCount: 1, bytes: json.length }
+            );
+            return;
+        }
+        for (const chunk of chunks) this.sender.send(chunk);
+    }
+
+    /**
+     * Mapea un record a GELF 1.1. Expuesto para tests y para subclasses que
+     * añadan campos.
+     *
+     * @param record - Record a mapear.
+     * @returns Mensaje listo para `JSON.stringify`.
+     */
+    toMessage(record: TransportRecord): GelfMessage {
+        const message: GelfMessage = {
+            version: '1.1',
+            host: this.hostname,
+            short_message: record.msg,
+            timestamp: record.time / 1000,
+            level: LOG_LEVEL_TO_SYSLOG_SEVERITY[record.level]
+        };
+        if (record.exception?.stacktrace) message.full_message = record.exception.stacktrace;
+
+        // Attributes primero: los campos propios del record ganan si colisionan.
+        for (const [key, value] of Object.entries(record.attributes ?? {})) {
+            flattenField(message, additionalName(key), value);
+        }
+        for (const [key, value] of Object.entries(this.options.staticFields ?? {})) {
+            message[additionalName(key)] = value;
+        }
+        for (const [key, value] of Object.entries(record.resource ?? {})) {
+            if (value !== undefined) message[additionalName(key)] = value;
+        }
+        if (record.prefix) message._logger = record.prefix;
+        if (record.tag) message._tag = record.tag;
+        if (record.traceId) message._trace_id = record.traceId;
+        if (record.spanId) message._span_id = record.spanId;
+        if (record.exception) {
+            message._exception_type = record.exception.type;
+            message._exception_message = record.exception.message;
+        }
+        if (record.location) {
+            message._file = record.location.file;
+            message._line = record.location.line;
+            if (record.location.function) message._function = record.location.function;
+        }
+        return message;
+    }
+
+    /** Espera a que los mensajes en vuelo (o encolados, si hay conexión) lleguen al kernel. */
+    async flush(): Promise<void> {
+        await this.sender.flush();
+    }
+
+    /**
+     * Flushea y cierra el socket. Los mensajes que siguen encolados (sin
+     * conexión TCP) se reportan vía `onError` como descartados.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        await this.sender.close();
+    }
+
+    private compress(json: Buffer): Buffer {
+        switch (this.compression) {
+            case 'gzip': return gzipSync(json);
+            case 'zlib': return deflateSync(json);
+            case 'none': return json;
+        }
+    }
+
+    /**
+     * Parte el payload en chunks GELF: `0x1e 0x0f`, message id (8 bytes),
+     * número de secuencia y total (1 byte cada uno), datos.
+     *
+     * @returns Los datagramas, o `null` si harían falta más de 128 chunks.
+     */
+    private chunk(payload: Buffer): Buffer[] | null {
+        if (payload.length <= this.maxChunkSize) return [payload];
+
+        const dataSize = this.maxChunkSize - CHUNK_HEADER_BYTES;
+        const count = Math.ceil(payload.length / dataSize);
+        if (count > MAX_CHUNKS) return null;
+
+        const id = randomBytes(8);
+        return Array.from({ length: count }, (_, i) => Buffer.concat([
+            Buffer.from(CHUNK_MAGIC),
+            id,
+            Buffer.from([i, count]),
+            payload.subarray(i * dataSize, (i + 1) * dataSize)
+        ]));
+    }
+
+    private emitError(message: string, cause: unknown, extra?: Record<string, unknown>): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: cause instanceof Error ? cause : new Error(message),
+            ...(extra ? { extra } : {})
+        };
+        void this.options.onError(entry);
+    }
+}
+
+// ===== Internal helpers =====
+
+/**
+ * Nombre de additional field: `_` + `[\w-]`. GELF admite `.`, pero Graylog
+ * lo reemplaza al indexar, así que se normaliza aquí (`service.name` →
+ * `_service_name`). `_id` está reservado, así que un attribute `id` sale
+ * como `_id_`.
+ */
+function additionalName(key: string): `_${string}` {
+    const name = `_${key.replace(/[^\w-]/g, '_')}` as const;
+    return name === '_id' ? '_id_' : name;
+}
+
+/**
+ * GELF solo admite valores string o number: los structs se aplanan con
+ * `_`, booleans y arrays se serializan, bytes a hex y `null` se omite.
+ */
+function flattenField(out: GelfMessage, key: `_${string}`, value: LogAttributeValue): void {
+    if (value === null) return;
+    if (typeof value === 'string' || typeof value === 'number') {
+        out[key] = value;
+    } else if (typeof value === 'boolean') {
+        out[key] = String(value);
+    } else if (value instanceof Uint8Array) {
+        out[key] = Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('');
+    } else if (Array.isArray(value)) {
+        out[key] = JSON.stringify(value);
+    } else {
+        for (const [child, childValue] of Object.entries(value)) {
+            flattenField(out, `${key}_${child.replace(/[^\w-]/g, '_')}`, childValue);
+        }
+    }
+}
@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Transport NDJSON para contenedores: un objeto JSON por línea
+ * en cualquier writable stream (stdout por defecto), con nombres de campo
+ * configurables y presets compatibles con pino / bunyan.
+ */
+
+import { writeSync } from 'node:fs';
+import { hostname as osHostname } from 'node:os';
+import type {
+    ITransport,
+    TransportRecord,
+    LogLevel,
+    HookLogEntry,
+    HookEvent
+} from '../types/index.js';
+
+/** Presets de shape: `default` (≈ `TransportRecord`), `pino` y `bunyan`. */
+export type JsonStreamPreset = 'default' | 'pino' | 'bunyan';
+
+/**
+ * Nombre de salida de cada campo del record. Un campo sin nombre no se
+ * emite; `attributes: null` mezcla los attributes en la raíz del objeto
+ * (sin pisar los campos propios), como hacen los bindings de pino.
+ */
+export interface JsonStreamFieldNames {
+    time?: string;
+    level?: string;
+    msg?: string;
+    prefix?: string;
+    traceId?: string;
+    spanId?: string;
+    tag?: string;
+    exception?: string;
+    location?: string;
+    attributes?: string | null;
+    resource?: string;
+    pid?: string;
+    hostname?: string;
+}
+
+/** Destino de la salida: `process.stdout`, un `fs.WriteStream`, un socket… */
+export type JsonWritableStream = NodeJS.WritableStream & { fd?: number | null; writableLength?: number };
+
+/**
+ * Opciones de configuración para {@link JsonStreamTransport}. `fields`,
+ * `levelFormat` y `timeFormat` pisan lo que define el `preset`.
+ */
+export interface JsonStreamTransportOptions {
+    /** Stream de salida. Default `process.stdout`. */
+    stream?: JsonWritableStream;
+    /** Shape base. Default `'default'`. */
+    preset?: JsonStreamPreset;
+    /** Renombra (u omite) campos sobre el preset. */
+    fields?: JsonStreamFieldNames;
+    /** `label` (`"info"`) o `number` (escala pino: 10-60). */
+    levelFormat?: 'label' | 'number';
+    /** `epoch` (ms) o `iso` (ISO 8601). */
+    timeFormat?: 'epoch' | 'iso';
+    /** Campos fijos que encabezan cada línea (`{ env: 'prod' }`). */
+    base?: Record<string, unknown>;
+    /** Tope de líneas retenidas mientras el stream aplica backpressure. Default 10000 (drop-oldest). */
+    maxBufferSize?: number;
+    /**
+     * Escribe con `fs.writeSync` en el evento `exit` del proceso las líneas
+     * que aún no llegaron al destino: las retenidas y las que el stream
+     * aceptó pero no había escrito (requiere un stream con `fd`). Entrega
+     * at-least-once: la línea en vuelo puede duplicarse. Default `true`.
+     */
+    syncFlushOnExit?: boolean;
+    /** Errores de serialización y líneas descartadas. */
+    onError?: (entry: HookLogEntry) => void | Promise<void>;
+}
+
+/** `LOG_LEVELS` → escala numérica de pino / bunyan (`critical` → fatal). */
+export const PINO_LEVELS: Record<LogLevel, number> = {
+    trace: 10,
+    debug: 20,
+    info: 30,
+    warn: 40,
+    error: 50,
+    critical: 60
+};
+
+interface PresetDefinition {
+    fields: JsonStreamFieldNames;
+    levelFormat: 'label' | 'number';
+    timeFormat: 'epoch' | 'iso';
+    /** Clave del stacktrace dentro de la excepción: `stacktrace` (record) o `stack` (pino `err`). */
+    stackKey: 'stacktrace' | 'stack';
+    base: Record<string, unknown>;
+}
+
+const RECORD_FIELDS: JsonStreamFieldNames = {
+    time: 'time', level: 'level', msg: 'msg', prefix: 'prefix', traceId: 'traceId', spanId: 'spanId',
+    tag: 'tag', exception: 'exception', location: 'location', attributes: 'attributes', resource: 'resource'
+};
+
+const PINO_FIELDS: JsonStreamFieldNames = {
+    time: 'time', level: 'level', msg: 'msg', prefix: 'name', traceId: 'trace_id', spanId: 'span_id',
+    tag: 'tag', exception: 'err', location: 'caller', attributes: null, resource: 'resource',
+    pid: 'pid', hostname: 'hostname'
+};
+
+const PRESETS: Record<JsonStreamPreset, PresetDefinition> = {
+    default: { fields: RECORD_FIELDS, levelFormat: 'label', timeFormat: 'epoch', stackKey: 'stacktrace', base: {} },
+    pino: { fields: PINO_FIELDS, levelFormat: 'number', timeFormat: 'epoch', stackKey: 'stack', base: {} },
+    // bunyan: `v` y `name` obligatorios, `time` ISO; el prefix va a `component` (convención de sus child loggers).
+    bunyan: { fields: { ...PINO_FIELDS, prefix: 'component' }, levelFormat: 'number', timeFormat: 'iso', stackKey: 'stack', base: { v: 0 } }
+};
+
+const MAX_BUFFER_DEFAULT = 10000;
+
+/**
+ * Transport NDJSON: una línea JSON por record, sin estilos ni colores, para
+ * que el runtime de contenedores (Docker, Kubernetes) y los agentes de logs
+ * la recojan tal cual de stdout.
+ *
+ * **Backpressure**: cuando `stream.write()` devuelve `false`, las líneas
+ * siguientes se retienen en memoria (con drop-oldest al superar
+ * `maxBufferSize`) y se escriben al recibir `drain`.
+ *
+ * **Exit**: el evento `exit` no admite I/O asíncrona, así que con
+ * `syncFlushOnExit` se escriben con `fs.writeSync` sobre el `fd` del stream
+ * las líneas retenidas y las que el stream aceptó pero aún tenía en su
+ * buffer interno (un `fs.WriteStream` escribe en asíncrono), en orden. La
+ * entrega en el exit es at-least-once: la línea que el stream tuviera en
+ * vuelo (ya en el kernel, sin callback) puede quedar duplicada; se prefiere
+ * a perderla. `process.stdout` ya escribe en
+ * síncrono sobre ficheros y pipes en POSIX.
+ *
+ * @implements {ITransport}
+ *
+ * @example
+ * ```ts
+ * import { JsonStreamTransport } from '@mks2508/better-logger/node';
+ *
+ * // {"level":30,"time":1760788800000,"pid":1,"hostname":"api-7f9c","msg":"listening","port":8080}
+ * logger.addTransport({ target: new JsonStreamTransport({ preset: 'pino' }) });
+ * ```
+ */
+export class JsonStreamTransport implements ITransport {
+    /** Identificador del transport dentro del pipeline (`'json-stream'`). */
+    readonly name = 'json-stream';
+
+    private readonly options: JsonStreamTransportOptions;
+    private readonly stream: JsonWritableStream;
+    private readonly preset: PresetDefinition;
+    private readonly fields: JsonStreamFieldNames;
+    private readonly hostname: string;
+    private pending: string[] = [];
+    /** Líneas entregadas a `stream.write()` cuyo callback aún no llegó, en orden. */
+    private unconfirmed: string[] = [];
+    private drained: Promise<void> | null = null;
+    private closed = false;
+    private readonly onExit = (): void => this.flushSync();
+
+    /**
+     * @param {JsonStreamTransportOptions} [options] - Configuración. Default: preset `default` a `process.stdout`.
+     */
+    constructor(options: JsonStreamTransportOptions = {}) {
+        this.options = options;
+        this.stream = options.stream ?? process.stdout;
+        this.preset = PRESETS[options.preset ?? 'default'];
+        this.fields = { ...this.preset.fields, ...options.fields };
+        this.hostname = osHostname();
+
+        if (options.syncFlushOnExit ?? true) {
+            process.on('exit', this.onExit);
+        }
+    }
+
+    /** Líneas retenidas por backpressure, pendientes de escribir. */
+    get bufferSize(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Indica si el transport acepta escrituras. Devuelve `false` después de
+     * {@link JsonStreamTransport.close}.
+     */
+    isReady(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Serializa el record y lo escribe (o lo retiene si el stream está en
+     * backpressure).
+     *
+     * @param record - Record a escribir.
+     */
+    write(record: TransportRecord): void {
+        if (this.closed) return;
+        let line: string;
+        try {
+            line = `${JSON.stringify(this.toObject(record), jsonReplacer)}\n`;
+        } catch (error) {
+            this.emitError(`JsonStreamTransport could not serialize record: ${(error as Error).message}`, error);
+            return;
+        }
+
+        if (this.drained) {
+            this.pending.push(line);
+            if (this.pending.length > (this.options.maxBufferSize ?? MAX_BUFFER_DEFAULT)) {
+                this.pending.shift();
+                this.emitError('JsonStreamTransport buffer overflow: dropped oldest line', undefined, { droppedCount: 1 });
+            }
+            return;
+        }
+        if (!this.writeToStream(line)) this.waitForDrain();
+    }
+
+    /**
+     * Construye el objeto de salida según preset y `fields`. Expuesto para
+     * tests y para subclasses que añadan campos.
+     *
+     * @param record - Record a mapear.
+     * @returns Objeto listo para `JSON.stringify`.
+     */
+    toObject(record: TransportRecord): Record<string, unknown> {
+        const f = this.fields;
+        const out: Record<string, unknown> = { ...this.preset.base, ...this.options.base };
+        const set = (name: string | null | undefined, value: unknown) => {
+            if (name && value !== undefined) out[name] = value;
+        };
+
+        set(f.level, (this.options.levelFormat ?? this.preset.levelFormat) === 'number' ? PINO_LEVELS[record.level] : record.level);
+        set(f.time, (this.options.timeFormat ?? this.preset.timeFormat) === 'iso' ? new Date(record.time).toISOString() : record.time);
+        set(f.pid, process.pid);
+        set(f.hostname, this.hostname);
+        if (this.options.preset === 'bunyan') set('name', record.resource?.['service.name'] ?? 'app');
+        set(f.prefix, record.prefix);
+        set(f.msg, record.msg);
+        set(f.tag, record.tag);
+        set(f.traceId, record.traceId);
+        set(f.spanId, record.spanId);
+        set(f.location, record.location);
+        set(f.resource, record.resource);
+        if (record.exception) {
+            const { stacktrace, ...exception } = record.exception;
+            set(f.exception, { ...exception, ...(stacktrace ? { [this.preset.stackKey]: stacktrace } : {}) });
+        }
+        if (record.attributes) {
+            if (f.attributes === null) {
+                for (const [key, value] of Object.entries(record.attributes)) {
+                    if (!(key in out)) out[key] = value;
+                }
+            } else {
+                set(f.attributes, record.attributes);
+            }
+        }
+        return out;
+    }
+
+    /** Espera a que las líneas retenidas por backpressure se entreguen al stream. */
+    async flush(): Promise<void> {
+        while (this.drained) await this.drained;
+    }
+
+    /**
+     * Flushea y deja de escribir. No cierra el stream: pertenece al caller
+     * (y `process.stdout` no debe cerrarse).
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        await this.flush();
+        this.closed = true;
+        process.off('exit', this.onExit);
+    }
+
+    private waitForDrain(): void {
+        this.drained = new Promise<void>(resolve => {
+            this.stream.once('drain', () => {
+                this.drained = null;
+                while (this.pending.length > 0) {
+                    if (!this.writeToStream(this.pending.shift()!)) {
+                        this.waitForDrain();
+                        break;
+                    }
+                }
+                resolve();
+            });
+        });
+    }
+
+    /** Escribe en el stream y sigue la línea hasta que su callback confirma la escritura. */
+    private writeToStream(line: string): boolean {
+        this.unconfirmed.push(line);
+        return this.stream.write(line, () => {
+            this.unconfirmed.shift();
+        });
+    }
+
+    /**
+     * Líneas entregadas al stream que aún no llegaron al destino. El callback
+     * de una escritura síncrona (`process.stdout` sobre un fichero) se difiere
+     * a un `nextTick`, así que se acota con `writableLength`: los bytes que
+     * el stream todavía no escribió son la cola de lo entregado.
+     */
+    private unwritten(): string[] {
+        const remaining = this.stream.writableLength;
+        if (remaining === undefined) return this.unconfirmed;
+        let bytes = 0;
+        let index = this.unconfirmed.length;
+        while (index > 0 && bytes < remaining) {
+            bytes += Buffer.byteLength(this.unconfirmed[--index]!);
+        }
+        return this.unconfirmed.slice(index);
+    }
+
+    /** Handler de `exit`: escribe en síncrono lo que el stream no llegó a escribir y lo retenido. */
+    private flushSync(): void {
+        const lines = [...this.unwritten(), ...this.pending];
+        if (lines.length === 0) return;
+        const fd = this.stream.fd;
+        if (typeof fd !== 'number') {
+            this.emitError(`JsonStreamTransport lost ${lines.length} lines on exit: stream has no fd`, undefined, { droppedCount: lines.length });
+            return;
+        }
+        try {
+            writeSync(fd, lines.join(''));
+            this.pending = [];
+            this.unconfirmed = [];
+        } catch (error) {
+            this.emitError(`JsonStreamTransport sync flush on exit failed: ${(error as Error).message}`, error);
+        }
+    }
+
+    private emitError(message: string, cause: unknown, extra?: Record<string, unknown>): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: cause instanceof Error ? cause : new Error(message),
+            ...(extra ? { extra } : {})
+        };
+        void this.options.onError(entry);
+    }
+}
+
+// ===== Internal helpers =====
+
+/** Bytes a hex y bigint a string: `JSON.stringify` no los representa bien. */
+function jsonReplacer(_key: string, value: unknown): unknown {
+    if (value instanceof Uint8Array) return Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('');
+    if (typeof value === 'bigint') return value.toString();
+    return value;
+}
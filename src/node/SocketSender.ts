@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Envío de mensajes ya serializados por UDP, TCP o Unix
+ * socket, compartido por {@link SyslogTransport} y {@link GelfTransport}.
+ * El framing y el formato los decide el transport; aquí solo viven los
+ * sockets, la cola mientras no hay conexión y la reconexión.
+ */
+
+import { createSocket, type Socket as DatagramSocket } from 'node:dgram';
+import { connect, isIPv6, type Socket } from 'node:net';
+
+/** Transporte de red: datagramas UDP o una conexión stream TCP / Unix. */
+export type SocketProtocol = 'udp' | 'tcp' | 'unix';
+
+/** Reporta un error o un descarte; el transport lo convierte en `onError`. */
+export type SocketErrorReporter = (message: string, cause?: unknown, extra?: Record<string, unknown>) => void;
+
+/**
+ * Destino y límites del sender. Los defaults de `host` / `port` / `path`
+ * los resuelve cada transport.
+ *
+ * @internal
+ */
+export interface SocketSenderOptions {
+    protocol: SocketProtocol;
+    host: string;
+    port: number;
+    path: string;
+    /** Espera antes de reintentar la conexión stream tras un fallo (ms). Default 1000. */
+    reconnectDelay?: number;
+    /** Tope de mensajes encolados mientras no hay conexión stream. Default 10000 (drop-oldest). */
+    maxBufferSize?: number;
+}
+
+const MAX_BUFFER_DEFAULT = 10000;
+const RECONNECT_DELAY_DEFAULT = 1000;
+
+/**
+ * Sender de bajo nivel. `udp` manda cada `send` como un datagrama; `tcp` /
+ * `unix` mantienen una conexión persistente: mientras conecta, o tras una
+ * caída, los mensajes se encolan y se reenvían al reconectar. Los sockets
+ * llevan `unref()` para no mantener vivo el proceso. Nunca lanza: los
+ * errores van al `report` del transport.
+ *
+ * @internal
+ */
+export class SocketSender {
+    private closed = false;
+
+    private datagram: DatagramSocket | null = null;
+    private readonly inflight = new Set<Promise<void>>();
+
+    private stream: Socket | null = null;
+    private connecting: Promise<void> | null = null;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private queue: Buffer[] = [];
+    private lastWrite: Promise<void> = Promise.resolve();
+
+    /**
+     * @param options - Destino y límites.
+     * @param label - Nombre del transport para los mensajes de error (`'SyslogTransport'`).
+     * @param report - Recibe errores de socket y descartes.
+     */
+    constructor(
+        private readonly options: SocketSenderOptions,
+        private readonly label: string,
+        private readonly report: SocketErrorReporter
+    ) {}
+
+    /**
+     * Envía un mensaje (con el framing ya aplicado en stream).
+     *
+     * @param payload - Datagrama o frame.
+     */
+    send(payload: Buffer): void {
+        if (this.closed) return;
+        if (this.options.protocol === 'udp') {
+            this.sendDatagram(payload);
+        } else {
+            this.writeStream(payload);
+        }
+    }
+
+    /**
+     * Espera a que los datagramas en vuelo y la cola stream lleguen al
+     * kernel. Si el servidor stream no está disponible, los mensajes siguen
+     * encolados para la próxima reconexión.
+     */
+    async flush(): Promise<void> {
+        if (this.queue.length > 0) await this.ensureConnected();
+        await Promise.all(this.inflight);
+        await this.lastWrite;
+    }
+
+    /**
+     * Flushea y cierra los sockets. Los mensajes que siguen encolados (sin
+     * conexión) se reportan como descartados.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        await this.flush();
+        this.closed = true;
+        clearTimeout(this.reconnectTimer);
+
+        if (this.queue.length > 0) {
+            this.report(`${this.label} dropped ${this.queue.length} queued messages on close`, undefined, { droppedCount: this.queue.length });
+            this.queue = [];
+        }
+        const stream = this.stream;
+        this.stream = null;
+        if (stream) await new Promise<void>(resolve => stream.end(resolve));
+        const datagram = this.datagram;
+        this.datagram = null;
+        if (datagram) await new Promise<void>(resolve => datagram.close(() => resolve()));
+    }
+
+    // ===== UDP =====
+
+    private sendDatagram(message: Buffer): void {
+        const socket = this.datagram ??= this.openDatagram();
+        const { host, port } = this.options;
+        const sending = new Promise<void>(resolve => {
+            socket.send(message, port, host, error => {
+                if (error) this.report(`${this.label} UDP send to ${host} failed: ${error.message}`, error);
+                resolve();
+            });
+        });
+        this.inflight.add(sending);
+        void sending.then(() => this.inflight.delete(sending));
+    }
+
+    private openDatagram(): DatagramSocket {
+        const socket = createSocket(isIPv6(this.options.host) ? 'udp6' : 'udp4');
+        socket.on('error', error => this.report(`${this.label} UDP socket error: ${error.message}`, error));
+        socket.unref();
+        return socket;
+    }
+
+    // ===== TCP / Unix =====
+
+    private writeStream(frame: Buffer): void {
+        if (this.stream) {
+            this.write(this.stream, frame);
+            return;
+        }
+        this.queue.push(frame);
+        if (this.queue.length > (this.options.maxBufferSize ?? MAX_BUFFER_DEFAULT)) {
+            this.queue.shift();
+            this.report(`${this.label} queue overflow: dropped oldest message`, undefined, { droppedCount: 1 });
+        }
+        void this.ensureConnected();
+    }
+
+    private write(socket: Socket, frame: Buffer): void {
+        this.lastWrite = new Promise<void>(resolve => {
+            socket.write(frame, () => resolve());
+        });
+    }
+
+    /**
+     * Abre la conexión stream si no hay una (ni un intento en curso ni un
+     * reintento programado). Resuelve al conectar o al fallar el intento.
+     */
+    private ensureConnected(): Promise<void> {
+        if (this.stream || this.closed || this.reconnectTimer) return Promise.resolve();
+        this.connecting ??= new Promise<void>(resolve => {
+            const { protocol, host, port, path } = this.options;
+            const target = protocol === 'unix' ? path : `${host}:${port}`;
+            const socket = protocol === 'unix' ? connect({ path }) : connect({ host, port });
+            socket.unref();
+            let connected = false;
+
+            socket.once('connect', () => {
+                connected = true;
+                this.connecting = null;
+                this.stream = socket;
+                for (const frame of this.queue.splice(0)) this.write(socket, frame);
+                resolve();
+            });
+            socket.on('error', error => {
+                const hint = (error as NodeJS.ErrnoException).code === 'EPROTOTYPE'
+                    ? ' (datagram Unix sockets are not supported by Node; configure a stream socket)'
+                    : '';
+                this.report(`${this.label} connection to ${target} failed: ${error.message}${hint}`, error);
+            });
+            socket.once('close', () => {
+                if (this.stream === socket) this.stream = null;
+                if (connected) return;
+                this.connecting = null;
+                this.scheduleReconnect();
+                resolve();
+            });
+        });
+        return this.connecting;
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || this.queue.length === 0) return;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            void this.ensureConnected();
+        }, this.options.reconnectDelay ?? RECONNECT_DELAY_DEFAULT);
+        this.reconnectTimer.unref();
+    }
+}
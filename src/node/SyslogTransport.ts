@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Transport syslog para daemons Node: formatea cada record
+ * como RFC 5424 (o RFC 3164 legacy) y lo envía por UDP, TCP con framing
+ * octet-counting (RFC 6587) o un Unix stream socket local.
+ */
+
+import { hostname as osHostname } from 'node:os';
+import type {
+    ITransport,
+    TransportRecord,
+    LogLevel,
+    LogAttributeValue,
+    HookLogEntry,
+    HookEvent
+} from '../types/index.js';
+import { SocketSender, type SocketProtocol } from './SocketSender.js';
+
+/** Facilities de syslog (RFC 5424 §6.2.1) aceptadas por nombre. */
+export type SyslogFacility =
+    | 'kern' | 'user' | 'mail' | 'daemon' | 'auth' | 'syslog' | 'lpr' | 'news'
+    | 'uucp' | 'cron' | 'authpriv' | 'ftp'
+    | 'local0' | 'local1' | 'local2' | 'local3' | 'local4' | 'local5' | 'local6' | 'local7';
+
+/** Transporte de red del transport. */
+export type SyslogProtocol = SocketProtocol;
+
+/**
+ * Opciones de configuración para {@link SyslogTransport}.
+ */
+export interface SyslogTransportOptions {
+    /**
+     * `udp` (RFC 5426), `tcp` (RFC 6587) o `unix` (stream socket local;
+     * no sirve para un `/dev/log` de datagrama). Default `'udp'`.
+     */
+    protocol?: SyslogProtocol;
+    /** Host del servidor syslog (`udp` / `tcp`). Default `'127.0.0.1'`. */
+    host?: string;
+    /** Puerto del servidor syslog (`udp` / `tcp`). Default `514`. */
+    port?: number;
+    /**
+     * Ruta del Unix stream socket; obligatoria con `unix`. Sin default: el
+     * `/dev/log` de rsyslog / journald es `SOCK_DGRAM` y Node no puede
+     * conectarse a él.
+     */
+    path?: string;
+    /** Formato del mensaje. Default `'rfc5424'`. */
+    format?: 'rfc5424' | 'rfc3164';
+    /** Facility, por nombre o código numérico (0-23). Default `'user'`. */
+    facility?: SyslogFacility | number;
+    /** APP-NAME para records cuyo `resource` no trae `service.name`. */
+    appName?: string;
+    /** HOSTNAME del header. Default `os.hostname()`. */
+    hostname?: string;
+    /**
+     * Private Enterprise Number de los SD-ID (`meta@<n>`). Default `32473`,
+     * el PEN reservado para documentación (RFC 5612); usa el de tu
+     * organización si lo tienes.
+     */
+    enterpriseId?: number;
+    /**
+     * Framing en los transportes stream: `octet-counting` (`LEN SP MSG`,
+     * RFC 6587 §3.4.1) o `newline` (un mensaje por línea). Default
+     * `octet-counting` en `tcp` y `newline` en `unix`.
+     */
+    framing?: 'octet-counting' | 'newline';
+    /** Espera antes de reintentar la conexión stream tras un fallo (ms). Default 1000. */
+    reconnectDelay?: number;
+    /** Tope de mensajes encolados mientras no hay conexión stream. Default 10000 (drop-oldest). */
+    maxBufferSize?: number;
+    /** Errores de socket y mensajes descartados. */
+    onError?: (entry: HookLogEntry) => void | Promise<void>;
+}
+
+const FACILITIES: Record<SyslogFacility, number> = {
+    kern: 0, user: 1, mail: 2, daemon: 3, auth: 4, syslog: 5, lpr: 6, news: 7,
+    uucp: 8, cron: 9, authpriv: 10, ftp: 11,
+    local0: 16, local1: 17, local2: 18, local3: 19, local4: 20, local5: 21, local6: 22, local7: 23
+};
+
+/**
+ * `LOG_LEVELS` → severity syslog (RFC 5424 §6.2.1). `trace` no tiene
+ * equivalente y cae en `debug` (7).
+ */
+export const LOG_LEVEL_TO_SYSLOG_SEVERITY: Record<LogLevel, number> = {
+    trace: 7,
+    debug: 7,
+    info: 6,
+    warn: 4,
+    error: 3,
+    critical: 2
+};
+
+const NILVALUE = '-';
+const DEFAULT_ENTERPRISE_ID = 32473;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Transport syslog para Node.
+ *
+ * Cada record sale como un mensaje RFC 5424:
+ *
+ * ```
+ * <PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID [STRUCTURED-DATA] MSG
+ * ```
+ *
+ * - `PRI` = `facility * 8 + severity`, con la severity derivada de
+ *   {@link LOG_LEVEL_TO_SYSLOG_SEVERITY}.
+ * - `APP-NAME` sale de `resource['service.name']` (o `appName`), `PROCID`
+ *   es el pid y `MSGID` el `prefix` del record.
+ * - Los `attributes` escalares, el `tag`, los trace ids y la excepción van
+ *   en el elemento `[meta@<enterpriseId> ...]`; cada attribute struct de
+ *   primer nivel se convierte en su propio elemento (`user: { id }` →
+ *   `[user@32473 id="42"]`).
+ *
+ * UDP manda un datagrama por record. `tcp` / `unix` mantienen una conexión
+ * persistente (con `unref()`, no mantiene vivo el proceso): mientras
+ * conecta, o tras una caída, los mensajes se encolan y se reenvían al
+ * reconectar. Los errores nunca lanzan al caller: van a `onError`.
+ *
+ * @implements {ITransport}
+ *
+ * @example
+ * ```ts
+ * import { SyslogTransport } from '@mks2508/better-logger/node';
+ *
+ * logger.setResource({ 'service.name': 'billing-worker' });
+ * logger.addTransport({
+ *   target: new SyslogTransport({ protocol: 'tcp', host: 'syslog.internal', port: 514, facility: 'local0' })
+ * });
+ * ```
+ */
+export class SyslogTransport implements ITransport {
+    /** Identificador del transport dentro del pipeline (`'syslog'`). */
+    readonly name = 'syslog';
+
+    private readonly options: SyslogTransportOptions;
+    private readonly protocol: SyslogProtocol;
+    private readonly facility: number;
+    private readonly hostname: string;
+    private readonly enterpriseId: number;
+    private readonly framing: 'octet-counting' | 'newline';
+    private readonly sender: SocketSender;
+    private closed = false;
+
+    /**
+     * @param {SyslogTransportOptions} [options] - Configuración. Default: UDP a `127.0.0.1:514`, facility `user`.
+     * @throws {Error} Si `facility` no es un nombre conocido ni un código 0-23, o si `protocol` es `unix` sin `path`.
+     */
+    constructor(options: SyslogTransportOptions = {}) {
+        this.options = options;
+        this.protocol = options.protocol ?? 'udp';
+        if (this.protocol === 'unix' && !options.path) {
+            throw new Error('SyslogTransport: `path` is required with protocol `unix`');
+        }
+        this.facility = resolveFacility(options.facility ?? 'user');
+        this.hostname = options.hostname ?? osHostname();
+        this.enterpriseId = options.enterpriseId ?? DEFAULT_ENTERPRISE_ID;
+        this.framing = options.framing ?? (this.protocol === 'unix' ? 'newline' : 'octet-counting');
+        this.sender = new SocketSender({
+            protocol: this.protocol,
+            host: options.host ?? '127.0.0.1',
+            port: options.port ?? 514,
+            path: options.path ?? '',
+            reconnectDelay: options.reconnectDelay,
+            maxBufferSize: options.maxBufferSize
+        }, 'SyslogTransport', (message, cause, extra) => this.emitError(message, cause, extra));
+    }
+
+    /**
+     * Indica si el transport acepta escrituras. Devuelve `false` después de
+     * {@link SyslogTransport.close}.
+     */
+    isReady(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Formatea el record y lo envía (o lo encola si la conexión stream
+     * todavía no está lista).
+     *
+     * @param record - Record a enviar.
+     */
+    write(record: TransportRecord): void {
+        if (this.closed) return;
+        const message = this.format(record);
+        this.sender.send(this.protocol === 'udp' ? Buffer.from(message, 'utf8') : this.frame(message));
+    }
+
+    /**
+     * Formatea un record según `format`. Expuesto para tests y para
+     * subclasses que cambien el layout.
+     *
+     * @param record - Record a formatear.
+     * @returns Mensaje syslog sin framing.
+     */
+    format(record: TransportRecord): string {
+        const pri = this.facility * 8 + LOG_LEVEL_TO_SYSLOG_SEVERITY[record.level];
+        const appName = record.resource?.['service.name'] ?? this.options.appName;
+
+        if (this.options.format === 'rfc3164') {
+            const tag = (appName ?? 'node').replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 32);
+            return `<${pri}>${formatBsdTimestamp(record.time)} ${headerField(this.hostname, 255)} ${tag}[${process.pid}]: ${record.msg}`;
+        }
+
+        const header = [
+            `<${pri}>1`,
+            new Date(record.time).toISOString(),
+            headerField(this.hostname, 255),
+            headerField(appName, 48),
+            String(process.pid),
+            headerField(record.prefix, 32)
+        ].join(' ');
+        return `${header} ${this.structuredData(record)} ${record.msg}`;
+    }
+
+    /**
+     * Espera a que los datagramas en vuelo y la cola stream lleguen al
+     * kernel. Si el servidor stream no está disponible, los mensajes siguen
+     * encolados para la próxima reconexión.
+     */
+    async flush(): Promise<void> {
+        await this.sender.flush();
+    }
+
+    /**
+     * Flushea y cierra los sockets. Los mensajes que siguen encolados (sin
+     * conexión) se reportan vía `onError` como descartados.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        await this.sender.close();
+    }
+
+    // ===== Formato =====
+
+    private structuredData(record: TransportRecord): string {
+        const meta: Array<[string, string]> = [];
+        const elements: string[] = [];
+
+        if (record.tag) meta.push(['tag', record.tag]);
+        if (record.traceId) meta.push(['trace_id', record.traceId]);
+        if (record.spanId) meta.push(['span_id', record.spanId]);
+        if (record.exception) {
+            meta.push(['exception_type', record.exception.type], ['exception_message', record.exception.message]);
+        }
+        for (const [key, value] of Object.entries(record.attributes ?? {})) {
+            if (isStruct(value)) {
+                const params: Array<[string, string]> = [];
+                for (const [child, childValue] of Object.entries(value)) flattenParam(params, child, childValue);
+                if (params.length > 0) elements.push(sdElement(`${sdName(key)}@${this.enterpriseId}`, params));
+            } else {
+                flattenParam(meta, key, value);
+            }
+        }
+        if (meta.length > 0) elements.unshift(sdElement(`meta@${this.enterpriseId}`, meta));
+        return elements.length > 0 ? elements.join('') : NILVALUE;
+    }
+
+    private frame(message: string): Buffer {
+        if (this.framing === 'newline') {
+            return Buffer.from(`${message.replace(/\n/g, ' ')}\n`, 'utf8');
+        }
+        const body = Buffer.from(message, 'utf8');
+        return Buffer.concat([Buffer.from(`${body.length} `, 'ascii'), body]);
+    }
+
+    private emitError(message: string, cause: unknown, extra?: Record<string, unknown>): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: cause instanceof Error ? cause : new Error(message),
+            ...(extra ? { extra } : {})
+        };
+        void this.options.onError(entry);
+    }
+}
+
+// ===== Internal helpers =====
+
+function resolveFacility(facility: SyslogFacility | number): number {
+    const code = typeof facility === 'number' ? facility : FACILITIES[facility];
+    if (code === undefined || !Number.isInteger(code) || code < 0 || code > 23) {
+        throw new Error(`SyslogTransport: unknown facility "${String(facility)}"`);
+    }
+    return code;
+}
+
+/** Campo de header: ASCII imprimible sin espacios, truncado, o `-` si falta. */
+function headerField(value: string | undefined, maxLength: number): string {
+    if (!value) return NILVALUE;
+    return value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength);
+}
+
+/** SD-NAME: ASCII imprimible sin `=`, espacio, `]`, `"` ni `@`; máx. 32 chars. */
+function sdName(name: string): string {
+    return name.replace(/[^\x21-\x7e]|[= \]"@]/g, '_').slice(0, 32) || '_';
+}
+
+/** PARAM-VALUE: escapa `"`, `\` y `]` (RFC 5424 §6.3.3). */
+function sdElement(id: string, params: Array<[string, string]>): string {
+    const rendered = params.map(([name, value]) => ` ${sdName(name)}="${value.replace(/["\\\]]/g, '\\$&')}"`);
+    return `[${id}${rendered.join('')}]`;
+}
+
+function isStruct(value: LogAttributeValue): value is { [key: string]: LogAttributeValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+/** Structs anidados se aplanan con `.`, arrays a JSON, bytes a hex; `null` se omite. */
+function flattenParam(out: Array<[string, string]>, key: string, value: LogAttributeValue): void {
+    if (value === null) return;
+    if (value instanceof Uint8Array) {
+        out.push([key, Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('')]);
+    } else if (Array.isArray(value)) {
+        out.push([key, JSON.stringify(value)]);
+    } else if (typeof value === 'object') {
+        for (const [child, childValue] of Object.entries(value)) flattenParam(out, `${key}.${child}`, childValue);
+    } else {
+        out.push([key, String(value)]);
+    }
+}
+
+/** `Mmm dd hh:mm:ss` en hora local (RFC 3164 §4.1.2). */
+function formatBsdTimestamp(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2, ' ')} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Transport que ejecuta otros transports en un worker de
+ * `worker_threads`: el main thread solo serializa el record y lo copia a un
+ * ring buffer compartido; el formateo propio de cada transport y la I/O de
+ * red o disco ocurren en el worker (la idea de `thread-stream` de pino).
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { serialize } from 'node:v8';
+import { Worker } from 'node:worker_threads';
+import type {
+    ITransport,
+    TransportRecord,
+    HookLogEntry,
+    HookEvent
+} from '../types/index.js';
+import type { TransportWorkerData, TransportWorkerMessage, WorkerTransportTarget } from './transportWorker.js';
+import { CONTROL, RingBuffer } from './workerRing.js';
+
+export type { WorkerTransportTarget } from './transportWorker.js';
+
+/** Opciones de configuración para {@link WorkerTransport}. */
+export interface WorkerTransportOptions {
+    /** Transports a ejecutar dentro del worker. */
+    targets: WorkerTransportTarget[];
+    /** Bytes del ring buffer compartido. Con el ring lleno se descartan records. Default 4 MiB. */
+    bufferSize?: number;
+    /**
+     * Tope en ms para que el worker complete un flush / close: el de
+     * `flush()` / `close()` y el de la espera síncrona en `exit`. Default 5000.
+     */
+    shutdownTimeout?: number;
+    /**
+     * En el evento `exit` del proceso, bloquea el main thread hasta que el
+     * worker vacía el ring y hace flush + close de sus transports (o vence
+     * `shutdownTimeout`). Default `true`.
+     */
+    syncFlushOnExit?: boolean;
+    /**
+     * Script del worker. Default: `node-transport-worker.js` junto al
+     * bundle del subpath `./node`.
+     */
+    workerUrl?: string | URL;
+    /** Errores del worker y de sus transports, y records descartados. */
+    onError?: (entry: HookLogEntry) => void | Promise<void>;
+}
+
+const BUFFER_SIZE_DEFAULT = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_DEFAULT = 5000;
+
+type WaitAsync = (typedArray: Int32Array, index: number, value: number, timeout?: number) =>
+    { async: false; value: string } | { async: true; value: Promise<string> };
+
+/**
+ * Ejecuta transports en un worker thread. Cada record se serializa con
+ * `v8.serialize` (structured clone: conserva `Uint8Array`, `Date`,
+ * `bigint`…) y se copia a un `SharedArrayBuffer`; el worker lo consume y lo
+ * entrega a sus transports, cada uno con su `level`.
+ *
+ * Los transports se describen por módulo + export + options porque las
+ * instancias no cruzan de hilo: el worker hace `import()` del módulo y los
+ * construye allí.
+ *
+ * **Shutdown**: `flush()` y `close()` se reenvían al worker por slots de
+ * `Atomics` y esperan su confirmación. En el evento `exit`, donde no cabe
+ * I/O asíncrona en el main thread, el close se pide igual y se espera con
+ * `Atomics.wait`: el worker sigue corriendo en su hilo y termina de
+ * entregar antes de que el proceso salga.
+ *
+ * @implements {ITransport}
+ *
+ * @example
+ * ```ts
+ * import { WorkerTransport } from '@mks2508/better-logger/node';
+ *
+ * logger.addTransport({
+ *   target: new WorkerTransport({
+ *     targets: [
+ *       { module: '@mks2508/better-logger/node', export: 'SyslogTransport', options: { protocol: 'tcp' } },
+ *       { module: './transports/audit.js', level: 'warn' }
+ *     ]
+ *   })
+ * });
+ * ```
+ */
+export class WorkerTransport implements ITransport {
+    /** Identificador del transport dentro del pipeline (`'worker'`). */
+    readonly name = 'worker';
+
+    private readonly options: WorkerTransportOptions;
+    private readonly ring: RingBuffer;
+    private readonly worker: Worker;
+    private readonly shutdownTimeout: number;
+    private closed = false;
+    private exited = false;
+    private readonly onExit = (): void => this.closeSync();
+
+    /**
+     * @param {WorkerTransportOptions} options - Targets y configuración del worker.
+     */
+    constructor(options: WorkerTransportOptions) {
+        this.options = options;
+        this.shutdownTimeout = options.shutdownTimeout ?? SHUTDOWN_TIMEOUT_DEFAULT;
+        const buffer = RingBuffer.allocate(options.bufferSize ?? BUFFER_SIZE_DEFAULT);
+        this.ring = new RingBuffer(buffer);
+
+        const workerData: TransportWorkerData = {
+            buffer,
+            targets: options.targets.map(target => ({ ...target, module: resolveSpecifier(target.module) }))
+        };
+        this.worker = new Worker(options.workerUrl ?? defaultWorkerUrl(), { workerData });
+        this.worker.on('message', (message: TransportWorkerMessage) => {
+            if (message.type === 'error') {
+                const error = new Error(message.message);
+                if (message.stack) error.stack = message.stack;
+                this.emitError(message.message, error);
+            }
+        });
+        this.worker.on('error', (error: Error) => this.emitError(`WorkerTransport worker crashed: ${error.message}`, error));
+        this.worker.on('exit', () => {
+            this.exited = true;
+        });
+        // El worker no mantiene vivo el proceso: el shutdown lo gobierna el main
+        // thread. Va después de los listeners: `on('message')` vuelve a hacer ref.
+        this.worker.unref();
+
+        if (options.syncFlushOnExit ?? true) {
+            process.on('exit', this.onExit);
+        }
+    }
+
+    /**
+     * Indica si el transport acepta escrituras. Devuelve `false` después de
+     * {@link WorkerTransport.close} o si el worker terminó.
+     */
+    isReady(): boolean {
+        return !this.closed && !this.exited;
+    }
+
+    /**
+     * Serializa el record y lo encola para el worker. Si el ring está lleno
+     * el record se descarta y se reporta vía `onError`.
+     *
+     * @param record - Record a entregar.
+     */
+    write(record: TransportRecord): void {
+        if (this.closed) return;
+        let bytes: Uint8Array;
+        try {
+            bytes = serialize(record);
+        } catch (error) {
+            this.emitError(`WorkerTransport could not serialize record: ${(error as Error).message}`, error);
+            return;
+        }
+        if (!this.ring.write(bytes)) {
+            this.emitError('WorkerTransport ring buffer full: dropped record', undefined, { droppedCount: 1 });
+        }
+    }
+
+    /**
+     * Espera a que el worker entregue todo lo encolado y haga `flush()` en
+     * sus transports (como mucho `shutdownTimeout`).
+     */
+    async flush(): Promise<void> {
+        if (this.closed || this.exited) return;
+        await this.waitForAck(this.request(false));
+    }
+
+    /**
+     * Flush + close de los transports del worker y fin del worker.
+     */
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        process.off('exit', this.onExit);
+        if (!this.exited) await this.waitForAck(this.request(true));
+        await this.worker.terminate();
+    }
+
+    /** Publica una request de flush (o close) y devuelve su número. */
+    private request(closing: boolean): number {
+        const control = this.ring.control;
+        if (closing) Atomics.store(control, CONTROL.CLOSING, 1);
+        const request = Atomics.add(control, CONTROL.REQUEST, 1) + 1;
+        this.ring.signal();
+        return request;
+    }
+
+    private async waitForAck(request: number): Promise<void> {
+        const control = this.ring.control;
+        const waitAsync = (Atomics as unknown as { waitAsync: WaitAsync }).waitAsync;
+        const deadline = Date.now() + this.shutdownTimeout;
+        for (;;) {
+            const ack = Atomics.load(control, CONTROL.ACK);
+            if (ack >= request || this.exited) return;
+            const remaining = deadline - Date.now();
+            const wait = remaining > 0 ? waitAsync(control, CONTROL.ACK, ack, remaining) : undefined;
+            const result = wait?.async ? await wait.value : wait?.value ?? 'timed-out';
+            if (result === 'timed-out') {
+                this.emitError(`WorkerTransport worker did not confirm within ${this.shutdownTimeout}ms`, undefined);
+                return;
+            }
+        }
+    }
+
+    /** Handler de `exit`: pide el close y bloquea hasta la confirmación del worker. */
+    private closeSync(): void {
+        if (this.closed || this.exited) return;
+        this.closed = true;
+        const control = this.ring.control;
+        const request = this.request(true);
+        const deadline = Date.now() + this.shutdownTimeout;
+        for (;;) {
+            const ack = Atomics.load(control, CONTROL.ACK);
+            if (ack >= request) return;
+            const remaining = deadline - Date.now();
+            if (remaining <= 0 || Atomics.wait(control, CONTROL.ACK, ack, remaining) === 'timed-out') {
+                const pending = this.ring.used;
+                this.emitError(`WorkerTransport worker did not finish within ${this.shutdownTimeout}ms on exit`, undefined, pending > 0 ? { pendingBytes: pending } : undefined);
+                return;
+            }
+        }
+    }
+
+    private emitError(message: string, cause: unknown, extra?: Record<string, unknown>): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: cause instanceof Error ? cause : new Error(message),
+            ...(extra ? { extra } : {})
+        };
+        void this.options.onError(entry);
+    }
+}
+
+// ===== Internal helpers =====
+
+/** `node-transport-worker.js` junto a este bundle. En el build CJS `import.meta` queda vacío y se usa `__filename`. */
+function defaultWorkerUrl(): URL {
+    const base = (import.meta as { url?: string }).url ?? pathToFileURL(__filename).href;
+    return new URL('./node-transport-worker.js', base);
+}
+
+/** Rutas relativas o absolutas → URL `file:`; los paquetes se dejan tal cual. */
+function resolveSpecifier(specifier: string): string {
+    if (specifier.startsWith('./') || specifier.startsWith('../')) return pathToFileURL(resolve(specifier)).href;
+    if (isAbsolute(specifier)) return pathToFileURL(specifier).href;
+    return specifier;
+}
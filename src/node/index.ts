@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Node subpath barrel.
+ * Exports: request logging middleware for node:http, Express, Fastify and Hono;
+ * SyslogTransport (RFC 5424 over UDP, TCP and Unix stream sockets); GelfTransport
+ * (GELF 1.1 over chunked UDP or TCP); JsonStreamTransport (NDJSON to any
+ * writable stream, pino/bunyan presets); WorkerTransport (transports run in a
+ * worker_threads worker over a SharedArrayBuffer ring); installShutdownHandlers
+ * (flush transports on exit, signals and fatal errors)
+ */
+export {
+    httpRequestLogger,
+    expressRequestLogger,
+    fastifyRequestLogger,
+    honoRequestLogger,
+    levelForStatus,
+    type RequestLoggerOptions,
+    type RequestLogInfo,
+    type HttpRequestHandler,
+    type ExpressRequestLike,
+    type ExpressMiddleware,
+    type FastifyRequestLike,
+    type FastifyReplyLike,
+    type FastifyInstanceLike,
+    type FastifyPlugin,
+    type HonoContextLike,
+    type HonoMiddleware,
+} from './requestLogger.js';
+export {
+    SyslogTransport,
+    LOG_LEVEL_TO_SYSLOG_SEVERITY,
+    type SyslogTransportOptions,
+    type SyslogFacility,
+    type SyslogProtocol,
+} from './SyslogTransport.js';
+export {
+    GelfTransport,
+    type GelfTransportOptions,
+    type GelfMessage,
+} from './GelfTransport.js';
+export {
+    JsonStreamTransport,
+    PINO_LEVELS,
+    type JsonStreamTransportOptions,
+    type JsonStreamPreset,
+    type JsonStreamFieldNames,
+    type JsonWritableStream,
+} from './JsonStreamTransport.js';
+export {
+    WorkerTransport,
+    type WorkerTransportOptions,
+    type WorkerTransportTarget,
+} from './WorkerTransport.js';
+export {
+    installShutdownHandlers,
+    type ShutdownHandlerOptions,
+    type ShutdownEvent,
+} from './shutdown.js';
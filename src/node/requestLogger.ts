@@ -0,0 +1,402 @@
+/**
+ * @fileoverview Middleware de request logging (access log) para `node:http`,
+ * Express, Fastify y Hono.
+ *
+ * Cada adapter abre un scope ALS por request (vía `withContext*`) con
+ * `requestId`, `method`, `route` e `ip`, de modo que cualquier log emitido
+ * mientras se atiende el request lleva esos attributes. Loguea el inicio y
+ * el fin del request; el fin incluye `status` y `durationMs` y su nivel se
+ * deriva del status (5xx → error, 4xx → warn, resto → info).
+ *
+ * Los adapters no dependen de los frameworks: se tipan contra la shape
+ * mínima de request / response que usan.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Logger } from '../Logger.js';
+import type { LogLevel } from '../types/index.js';
+import { extractTraceContext, formatTraceparent, TRACEPARENT_HEADER, TRACESTATE_HEADER, type TraceHeaderSource } from '../context/propagation.js';
+
+/**
+ * Opciones comunes a todos los adapters de request logging.
+ */
+export interface RequestLoggerOptions {
+    /**
+     * Header del que se lee (y en el que se devuelve) el request id.
+     * @default 'x-request-id'
+     */
+    requestIdHeader?: string;
+    /**
+     * Genera el request id cuando el request no trae uno válido.
+     * @default crypto.randomUUID()
+     */
+    genRequestId?: () => string;
+    /**
+     * Devuelve el request id en el header de respuesta.
+     * @default true
+     */
+    setResponseHeader?: boolean;
+    /**
+     * Toma la IP del cliente del primer valor de `x-forwarded-for` en lugar
+     * del socket. Activar solo detrás de un proxy de confianza.
+     * @default false
+     */
+    trustProxy?: boolean;
+    /**
+     * Bindea `traceparent` / `tracestate` del request (o un trace nuevo) en
+     * el scope, para correlacionar los logs con el trace.
+     * @default true
+     */
+    propagateTrace?: boolean;
+    /**
+     * Loguea también el inicio del request (nivel `debug`).
+     * @default true
+     */
+    logStart?: boolean;
+    /**
+     * Mapea el status de la respuesta al nivel del log de fin.
+     * @default 5xx → 'error', 4xx → 'warn', resto → 'info'
+     */
+    statusLevel?: (status: number) => LogLevel;
+    /**
+     * Requests a no loguear (health checks, assets). El scope ALS se abre igual.
+     */
+    ignore?: (info: RequestLogInfo) => boolean;
+}
+
+/**
+ * Datos del request que el middleware bindea en el scope.
+ */
+export interface RequestLogInfo {
+    requestId: string;
+    method: string;
+    /** Ruta matcheada por el router si se conoce; si no, el path sin query string. */
+    route: string;
+    /** IP del cliente, si se conoce. */
+    ip?: string;
+}
+
+/** Request handler de `node:http`; puede devolver un Promise. */
+export type HttpRequestHandler = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+/** Shape mínima de un request de Express (extiende `IncomingMessage`). */
+export interface ExpressRequestLike extends IncomingMessage {
+    originalUrl?: string;
+    baseUrl?: string;
+    route?: { path?: unknown };
+}
+
+/** Middleware de Express. */
+export type ExpressMiddleware = (req: ExpressRequestLike, res: ServerResponse, next: (err?: unknown) => void) => void;
+
+/** Shape mínima de un request de Fastify. */
+export interface FastifyRequestLike {
+    raw: IncomingMessage;
+    method: string;
+    url: string;
+    ip?: string;
+    routeOptions?: { url?: string };
+}
+
+/** Shape mínima de un reply de Fastify. */
+export interface FastifyReplyLike {
+    statusCode: number;
+    header(name: string, value: string): unknown;
+}
+
+/** Shape mínima de una instancia de Fastify: solo se usa `addHook`. */
+export interface FastifyInstanceLike {
+    addHook(
+        name: 'onRequest' | 'onResponse',
+        hook: (request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => void
+    ): unknown;
+}
+
+/** Plugin de Fastify (`fastify.register(plugin)`). */
+export type FastifyPlugin = (instance: FastifyInstanceLike, opts: unknown, done: () => void) => void;
+
+/** Shape mínima del `Context` de Hono. */
+export interface HonoContextLike {
+    req: {
+        method: string;
+        url: string;
+        routePath?: string;
+        raw: Request;
+    };
+    res: Response;
+    env?: unknown;
+    header(name: string, value: string): void;
+}
+
+/** Middleware de Hono (`app.use(middleware)`). */
+export type HonoMiddleware = (c: HonoContextLike, next: () => Promise<void>) => Promise<void>;
+
+const DEFAULT_REQUEST_ID_HEADER = 'x-request-id';
+/** Largo máximo de un request id entrante; más largo se descarta y se genera uno. */
+const MAX_REQUEST_ID_LENGTH = 128;
+const REQUEST_ID_PATTERN = /^[\x21-\x7e]+$/;
+/**
+ * Marca que `fastify-plugin` pone en los plugins para que sus hooks apliquen
+ * a toda la instancia en lugar de quedar encapsulados.
+ */
+const FASTIFY_SKIP_OVERRIDE = Symbol.for('skip-override');
+
+/**
+ * Envuelve un request handler de `node:http` con request logging.
+ *
+ * @param logger - Logger en el que se abre el scope y se emiten los logs.
+ * @param handler - Handler original; si devuelve un Promise rechazado se
+ *   loguea el error y se responde 500 si aún no se enviaron headers.
+ * @param options - Ver {@link RequestLoggerOptions}.
+ * @returns Listener para `http.createServer()`.
+ *
+ * @example
+ * http.createServer(httpRequestLogger(logger, (req, res) => {
+ *   logger.info('handling'); // attributes: requestId, method, route, ip
+ *   res.end('ok');
+ * }));
+ */
+export function httpRequestLogger(
+    logger: Logger,
+    handler: HttpRequestHandler,
+    options: RequestLoggerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+        const tracker = startRequest(logger, options, {
+            method: req.method ?? 'GET',
+            url: req.url ?? '/',
+            headers: req.headers,
+            socketIp: req.socket?.remoteAddress
+        });
+        if (tracker.responseHeader) res.setHeader(...tracker.responseHeader);
+        // 'close' cubre las conexiones abortadas antes de terminar la respuesta
+        res.once('finish', () => tracker.finish(res.statusCode));
+        res.once('close', () => tracker.finish(res.statusCode));
+
+        void logger.withContextAsync(tracker.bindings, async () => {
+            tracker.logStart();
+            try {
+                await handler(req, res);
+            } catch (err) {
+                await logger.error('Unhandled request error', err);
+                if (!res.headersSent) {
+                    res.statusCode = 500;
+                    res.end();
+                }
+            }
+        });
+    };
+}
+
+/**
+ * Middleware de Express. Registrarlo antes de las rutas.
+ *
+ * @param logger - Logger en el que se abre el scope y se emiten los logs.
+ * @param options - Ver {@link RequestLoggerOptions}.
+ * @returns Middleware `(req, res, next)`.
+ *
+ * @example
+ * app.use(expressRequestLogger(logger));
+ */
+export function expressRequestLogger(logger: Logger, options: RequestLoggerOptions = {}): ExpressMiddleware {
+    return (req, res, next) => {
+        const tracker = startRequest(logger, options, {
+            method: req.method ?? 'GET',
+            url: req.originalUrl ?? req.url ?? '/',
+            headers: req.headers,
+            socketIp: req.socket?.remoteAddress
+        });
+        if (tracker.responseHeader) res.setHeader(...tracker.responseHeader);
+        const onDone = (): void => {
+            // La ruta matcheada solo se conoce tras el routing
+            const routePath = req.route?.path;
+            const route = typeof routePath === 'string' ? `${req.baseUrl ?? ''}${routePath}` : undefined;
+            tracker.finish(res.statusCode, route);
+        };
+        res.once('finish', onDone);
+        res.once('close', onDone);
+
+        logger.withContext(tracker.bindings, () => {
+            tracker.logStart();
+            next();
+        });
+    };
+}
+
+/**
+ * Plugin de Fastify. Se marca con `skip-override` (lo mismo que hace
+ * `fastify-plugin`) para que los hooks apliquen a todas las rutas.
+ *
+ * @param logger - Logger en el que se abre el scope y se emiten los logs.
+ * @param options - Ver {@link RequestLoggerOptions}.
+ * @returns Plugin para `fastify.register()`.
+ *
+ * @example
+ * await fastify.register(fastifyRequestLogger(logger));
+ */
+export function fastifyRequestLogger(logger: Logger, options: RequestLoggerOptions = {}): FastifyPlugin {
+    const trackers = new WeakMap<FastifyRequestLike, RequestTracker>();
+
+    const plugin: FastifyPlugin = (instance, _opts, done) => {
+        instance.addHook('onRequest', (request, reply, next) => {
+            const tracker = startRequest(logger, options, {
+                method: request.method,
+                url: request.url,
+                route: request.routeOptions?.url,
+                headers: request.raw.headers,
+                socketIp: request.ip ?? request.raw.socket?.remoteAddress
+            });
+            trackers.set(request, tracker);
+            if (tracker.responseHeader) reply.header(...tracker.responseHeader);
+
+            logger.withContext(tracker.bindings, () => {
+                tracker.logStart();
+                next();
+            });
+        });
+
+        instance.addHook('onResponse', (request, reply, next) => {
+            trackers.get(request)?.finish(reply.statusCode);
+            trackers.delete(request);
+            next();
+        });
+
+        done();
+    };
+    (plugin as unknown as Record<symbol, boolean>)[FASTIFY_SKIP_OVERRIDE] = true;
+    return plugin;
+}
+
+/**
+ * Middleware de Hono. Con `@hono/node-server` la IP del socket se toma de
+ * `c.env.incoming`.
+ *
+ * @param logger - Logger en el que se abre el scope y se emiten los logs.
+ * @param options - Ver {@link RequestLoggerOptions}.
+ * @returns Middleware para `app.use()`.
+ *
+ * @example
+ * app.use('*', honoRequestLogger(logger));
+ */
+export function honoRequestLogger(logger: Logger, options: RequestLoggerOptions = {}): HonoMiddleware {
+    return async (c, next) => {
+        const env = c.env as { incoming?: IncomingMessage } | undefined;
+        const tracker = startRequest(logger, options, {
+            method: c.req.method,
+            url: c.req.url,
+            headers: c.req.raw.headers,
+            socketIp: env?.incoming?.socket?.remoteAddress
+        });
+
+        await logger.withContextAsync(tracker.bindings, async () => {
+            tracker.logStart();
+            await next();
+        });
+
+        if (tracker.responseHeader) c.header(...tracker.responseHeader);
+        const routePath = c.req.routePath;
+        tracker.finish(c.res.status, routePath && !routePath.endsWith('*') ? routePath : undefined);
+    };
+}
+
+/**
+ * Nivel por defecto del log de fin según el status de la respuesta.
+ *
+ * @param status - Status HTTP.
+ * @returns `'error'` para 5xx, `'warn'` para 4xx, `'info'` para el resto.
+ */
+export function levelForStatus(status: number): LogLevel {
+    if (status >= 500) return 'error';
+    if (status >= 400) return 'warn';
+    return 'info';
+}
+
+// ===== Internal helpers =====
+
+/** Datos crudos del request, normalizados por cada adapter. */
+interface RequestSource {
+    method: string;
+    url: string;
+    route?: string;
+    headers: TraceHeaderSource;
+    socketIp?: string;
+}
+
+/** Estado de un request en curso, compartido por los adapters. */
+interface RequestTracker {
+    info: RequestLogInfo;
+    /** Bindings del scope ALS (info + trace context). */
+    bindings: Record<string, unknown>;
+    /** Header de respuesta con el request id, si hay que devolverlo. */
+    responseHeader?: [string, string];
+    logStart(): void;
+    /** Loguea el fin del request; idempotente. */
+    finish(status: number, route?: string): void;
+}
+
+function startRequest(logger: Logger, options: RequestLoggerOptions, source: RequestSource): RequestTracker {
+    const startedAt = performance.now();
+    const requestIdHeader = (options.requestIdHeader ?? DEFAULT_REQUEST_ID_HEADER).toLowerCase();
+    const incomingId = readHeader(source.headers, requestIdHeader);
+    const requestId = incomingId && incomingId.length <= MAX_REQUEST_ID_LENGTH && REQUEST_ID_PATTERN.test(incomingId)
+        ? incomingId
+        : (options.genRequestId ?? defaultRequestId)();
+
+    const info: RequestLogInfo = {
+        requestId,
+        method: source.method.toUpperCase(),
+        route: source.route ?? pathOf(source.url)
+    };
+    const ip = options.trustProxy
+        ? readHeader(source.headers, 'x-forwarded-for')?.split(',')[0]?.trim() || source.socketIp
+        : source.socketIp;
+    if (ip) info.ip = ip;
+
+    const bindings: Record<string, unknown> = { ...info };
+    if (options.propagateTrace !== false) {
+        const trace = extractTraceContext(source.headers);
+        bindings[TRACEPARENT_HEADER] = formatTraceparent(trace);
+        if (trace.tracestate) bindings[TRACESTATE_HEADER] = trace.tracestate;
+    }
+
+    const skip = options.ignore?.(info) ?? false;
+    let finished = false;
+
+    return {
+        info,
+        bindings,
+        responseHeader: options.setResponseHeader === false ? undefined : [requestIdHeader, requestId],
+        logStart() {
+            if (skip || options.logStart === false) return;
+            void logger.debug(`--> ${info.method} ${info.route}`);
+        },
+        finish(status, route) {
+            if (finished) return;
+            finished = true;
+            if (skip) return;
+            const durationMs = Math.round((performance.now() - startedAt) * 100) / 100;
+            const finalRoute = route ?? info.route;
+            const level = (options.statusLevel ?? levelForStatus)(status);
+            // El fin puede llegar fuera del scope (evento 'finish'): se re-abre
+            logger.withContext({ ...bindings, route: finalRoute, status, durationMs }, () => {
+                void logger[level](`<-- ${info.method} ${finalRoute} ${status} ${durationMs}ms`);
+            });
+        }
+    };
+}
+
+function readHeader(headers: TraceHeaderSource, name: string): string | undefined {
+    if (typeof Headers !== 'undefined' && headers instanceof Headers) return headers.get(name) ?? undefined;
+    const value = (headers as Record<string, string | string[] | undefined>)[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function pathOf(url: string): string {
+    const withoutOrigin = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+    const path = withoutOrigin.split(/[?#]/)[0];
+    return path || '/';
+}
+
+function defaultRequestId(): string {
+    return crypto.randomUUID();
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Shutdown ordenado para procesos Node: en señales de
+ * terminación y errores fatales loguea el evento a nivel `critical`, drena
+ * los transports con un deadline y sale con el exit code que corresponde.
+ */
+
+import { constants as osConstants } from 'node:os';
+import type { Logger } from '../Logger.js';
+
+/** Evento que dispara el shutdown. */
+export type ShutdownEvent = 'beforeExit' | 'uncaughtException' | 'unhandledRejection' | NodeJS.Signals;
+
+/** Opciones de {@link installShutdownHandlers}. */
+export interface ShutdownHandlerOptions {
+    /**
+     * Tope en ms para `onShutdown` + flush / close de los transports. Al
+     * vencer, el proceso sale igual.
+     * @default 5000
+     */
+    timeout?: number;
+    /** Señales a capturar. @default ['SIGINT', 'SIGTERM'] */
+    signals?: NodeJS.Signals[];
+    /**
+     * Se ejecuta tras loguear el evento y antes de drenar los transports
+     * (cerrar servidores, colas, conexiones). Cuenta dentro de `timeout`.
+     */
+    onShutdown?: (event: ShutdownEvent, error?: unknown) => void | Promise<void>;
+    /** Termina el proceso. @default process.exit */
+    exit?: (code: number) => void;
+}
+
+const TIMEOUT_DEFAULT = 5000;
+
+/**
+ * Engancha el shutdown del logger al ciclo de vida del proceso. Es opt-in:
+ * nada se instala hasta llamarla.
+ *
+ * - `SIGINT` / `SIGTERM`: `critical` "Received SIGTERM, shutting down",
+ *   drain y exit `128 + número de señal` (130, 143). Una segunda señal
+ *   durante el drain sale en el acto.
+ * - `uncaughtException` / `unhandledRejection`: `critical` con el error,
+ *   drain y exit `1`.
+ * - `beforeExit` (el event loop se vació): drain sin log ni exit explícito;
+ *   el proceso termina con su `process.exitCode`.
+ *
+ * El drain es `logger.closeTransports()`: resúmenes de dedup pendientes,
+ * flush de los transports con buffer (`FileTransport`, `HttpTransport`…) y
+ * close.
+ *
+ * @param logger - Logger cuyos transports se drenan.
+ * @param options - Ver {@link ShutdownHandlerOptions}.
+ * @returns Función que desinstala los handlers.
+ *
+ * @example
+ * import { installShutdownHandlers } from '@mks2508/better-logger/node';
+ *
+ * installShutdownHandlers(logger, {
+ *   timeout: 3000,
+ *   onShutdown: () => new Promise(resolve => server.close(resolve))
+ * });
+ */
+export function installShutdownHandlers(logger: Logger, options: ShutdownHandlerOptions = {}): () => void {
+    const timeout = options.timeout ?? TIMEOUT_DEFAULT;
+    const exit = options.exit ?? ((code: number) => process.exit(code));
+    const signals = options.signals ?? ['SIGINT', 'SIGTERM'];
+    let shuttingDown = false;
+
+    const drain = async (event: ShutdownEvent, error?: unknown): Promise<void> => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        // Timer con ref a propósito: si el drain se cuelga, el exit llega igual.
+        const deadline = new Promise<'timeout'>(resolve => {
+            timer = setTimeout(() => resolve('timeout'), timeout);
+        });
+        const work = (async () => {
+            await settle('onShutdown', () => options.onShutdown?.(event, error));
+            await settle('closeTransports', () => logger.closeTransports());
+        })();
+        try {
+            if (await Promise.race([work, deadline]) === 'timeout') {
+                process.stderr.write(`better-logger: shutdown did not finish within ${timeout}ms, exiting anyway\n`);
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const fatal = async (event: ShutdownEvent, code: number, message: string, error?: unknown): Promise<void> => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        try {
+            await settle('critical log', () => error === undefined ? logger.critical(message) : logger.critical(message, error));
+            await drain(event, error);
+        } finally {
+            exit(code);
+        }
+    };
+
+    const onSignal = (signal: NodeJS.Signals): void => {
+        const code = 128 + (osConstants.signals[signal] ?? 0);
+        if (shuttingDown) {
+            exit(code);
+            return;
+        }
+        void fatal(signal, code, `Received ${signal}, shutting down`);
+    };
+    const onUncaughtException = (error: Error): void => {
+        void fatal('uncaughtException', 1, 'Uncaught exception, shutting down', error);
+    };
+    const onUnhandledRejection = (reason: unknown): void => {
+        void fatal('unhandledRejection', 1, 'Unhandled promise rejection, shutting down', reason);
+    };
+    const onBeforeExit = (): void => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        void drain('beforeExit');
+    };
+
+    for (const signal of signals) process.on(signal, onSignal);
+    process.on('uncaughtException', onUncaughtException);
+    process.on('unhandledRejection', onUnhandledRejection);
+    process.on('beforeExit', onBeforeExit);
+
+    return () => {
+        for (const signal of signals) process.off(signal, onSignal);
+        process.off('uncaughtException', onUncaughtException);
+        process.off('unhandledRejection', onUnhandledRejection);
+        process.off('beforeExit', onBeforeExit);
+    };
+}
+
+// ===== Internal helpers =====
+
+/** Ejecuta un paso del shutdown; sus errores no deben impedir los siguientes. */
+async function settle(step: string, fn: () => unknown): Promise<void> {
+    try {
+        await fn();
+    } catch (error) {
+        process.stderr.write(`better-logger: shutdown step "${step}" failed: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Lado worker de {@link WorkerTransport}: instancia los
+ * transports pedidos, consume los records del ring compartido y atiende
+ * las requests de flush / close del main thread.
+ *
+ * @internal
+ */
+
+import { deserialize } from 'node:v8';
+import { LOG_LEVELS } from '../types/core.js';
+import type { ITransport, LogLevel, TransportRecord } from '../types/index.js';
+import { CONTROL, RingBuffer } from './workerRing.js';
+
+/**
+ * Transport a instanciar dentro del worker. El módulo se importa con
+ * `import()` desde el worker, así que `options` tiene que ser clonable
+ * (structured clone: sin funciones ni instancias de clases propias).
+ */
+export interface WorkerTransportTarget {
+    /**
+     * Specifier del módulo: paquete (`'@mks2508/better-logger/node'`), ruta
+     * absoluta o URL `file:`. {@link WorkerTransport} resuelve las rutas
+     * relativas contra `process.cwd()`.
+     */
+    module: string;
+    /**
+     * Export con el transport. Una clase (con `write` en el prototype) se
+     * construye con `new Export(options)`; una función se llama como
+     * factory `Export(options)` y puede devolver una Promise. @default 'default'
+     */
+    export?: string;
+    /** Argumento del constructor / factory. */
+    options?: unknown;
+    /** Nivel mínimo para este transport, como en `TransportTarget`. */
+    level?: LogLevel;
+}
+
+/** `workerData` del worker. */
+export interface TransportWorkerData {
+    buffer: SharedArrayBuffer;
+    targets: WorkerTransportTarget[];
+}
+
+/** Mensajes del worker al main thread. */
+export type TransportWorkerMessage =
+    | { type: 'ready'; transports: string[] }
+    | { type: 'error'; message: string; stack?: string };
+
+/** Lo que el worker necesita de su `parentPort`. */
+export interface TransportWorkerPort {
+    postMessage(message: TransportWorkerMessage): void;
+}
+
+interface LoadedTarget {
+    transport: ITransport;
+    minLevel: number;
+}
+
+const KEEP_ALIVE_INTERVAL = 2 ** 30;
+
+type WaitAsync = (typedArray: Int32Array, index: number, value: number, timeout?: number) =>
+    { async: false; value: string } | { async: true; value: Promise<string> };
+
+/**
+ * Bucle del worker. Termina tras completar una request de close.
+ *
+ * Un target que no carga se reporta y se omite; el resto sigue
+ * funcionando y las requests se confirman igualmente, para que el main
+ * thread nunca espere a un worker roto.
+ *
+ * @param data - `workerData` (ring y targets).
+ * @param port - Canal de vuelta para `ready` y errores.
+ */
+export async function runTransportWorker(data: TransportWorkerData, port: TransportWorkerPort): Promise<void> {
+    const ring = new RingBuffer(data.buffer);
+    const report = (message: string, error?: unknown): void => {
+        const stack = error instanceof Error ? error.stack : undefined;
+        port.postMessage({ type: 'error', message: error === undefined ? message : `${message}: ${errorMessage(error)}`, ...(stack ? { stack } : {}) });
+    };
+
+    const targets: LoadedTarget[] = [];
+    for (const spec of data.targets) {
+        try {
+            targets.push({ transport: await loadTarget(spec), minLevel: spec.level ? LOG_LEVELS[spec.level] : -Infinity });
+        } catch (error) {
+            report(`WorkerTransport could not load "${spec.export ?? 'default'}" from "${spec.module}"`, error);
+        }
+    }
+    port.postMessage({ type: 'ready', transports: targets.map(target => target.transport.name) });
+
+    const inflight = new Set<Promise<void>>();
+    const dispatch = (record: TransportRecord): void => {
+        for (const { transport, minLevel } of targets) {
+            if (record.levelValue < minLevel) continue;
+            try {
+                const result = transport.write(record);
+                if (result instanceof Promise) {
+                    const tracked: Promise<void> = result
+                        .catch((error: unknown) => report(`WorkerTransport: ${transport.name} write failed`, error))
+                        .finally(() => inflight.delete(tracked));
+                    inflight.add(tracked);
+                }
+            } catch (error) {
+                report(`WorkerTransport: ${transport.name} write failed`, error);
+            }
+        }
+    };
+    const drain = (): void => {
+        for (let message = ring.read(); message; message = ring.read()) {
+            try {
+                dispatch(deserialize(message) as TransportRecord);
+            } catch (error) {
+                report('WorkerTransport could not decode a record', error);
+            }
+        }
+    };
+
+    const waitAsync = (Atomics as unknown as { waitAsync: WaitAsync }).waitAsync;
+    // Un `Atomics.waitAsync` pendiente no mantiene vivo el event loop del worker.
+    const keepAlive = setInterval(() => undefined, KEEP_ALIVE_INTERVAL);
+    try {
+        for (;;) {
+            const seen = Atomics.load(ring.control, CONTROL.SIGNAL);
+            drain();
+
+            const request = Atomics.load(ring.control, CONTROL.REQUEST);
+            if (request !== Atomics.load(ring.control, CONTROL.ACK)) {
+                const closing = Atomics.load(ring.control, CONTROL.CLOSING) === 1;
+                drain();
+                await Promise.all(inflight);
+                for (const { transport } of targets) {
+                    try {
+                        await transport.flush?.();
+                        if (closing) await transport.close?.();
+                    } catch (error) {
+                        report(`WorkerTransport: ${transport.name} ${closing ? 'close' : 'flush'} failed`, error);
+                    }
+                }
+                Atomics.store(ring.control, CONTROL.ACK, request);
+                Atomics.notify(ring.control, CONTROL.ACK);
+                if (closing) return;
+                continue;
+            }
+
+            const wait = waitAsync(ring.control, CONTROL.SIGNAL, seen);
+            if (wait.async) await wait.value;
+        }
+    } finally {
+        clearInterval(keepAlive);
+    }
+}
+
+// ===== Internal helpers =====
+
+async function loadTarget(spec: WorkerTransportTarget): Promise<ITransport> {
+    const name = spec.export ?? 'default';
+    const module = await import(spec.module) as Record<string, unknown>;
+    const exported = module[name];
+    if (typeof exported !== 'function') throw new Error(`export "${name}" is not a class or factory`);
+
+    const prototype = (exported as { prototype?: { write?: unknown } }).prototype;
+    const transport = typeof prototype?.write === 'function'
+        ? new (exported as new (options: unknown) => ITransport)(spec.options)
+        : await (exported as (options: unknown) => ITransport | Promise<ITransport>)(spec.options);
+    if (!transport || typeof transport.write !== 'function') throw new Error(`export "${name}" did not produce an ITransport`);
+    return transport;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Ring buffer sobre `SharedArrayBuffer` entre el hilo principal
+ * y el worker de {@link WorkerTransport}: un productor (main) y un
+ * consumidor (worker), mensajes `[u32 length][bytes]` que pueden partirse
+ * en el borde del buffer, y slots de control con `Atomics` para despertar
+ * al worker y pedir / confirmar flushes.
+ *
+ * @internal
+ */
+
+/** Slots `Int32` de control. */
+export const CONTROL = {
+    /** Se incrementa en cada write / request; el worker espera sobre él. */
+    SIGNAL: 0,
+    /** Última request (flush o close) pedida por el main thread. */
+    REQUEST: 1,
+    /** Última request completada por el worker. */
+    ACK: 2,
+    /** `1` cuando la request pendiente es un close. */
+    CLOSING: 3
+} as const;
+
+const CONTROL_SLOTS = 8;
+const COUNTERS_OFFSET = CONTROL_SLOTS * 4;
+/** `BigInt64` con los bytes totales escritos / leídos (monótonos). */
+const WRITTEN = 0;
+const READ = 1;
+const DATA_OFFSET = COUNTERS_OFFSET + 2 * 8;
+const LENGTH_BYTES = 4;
+
+/**
+ * Vista de un ring buffer compartido. Cada hilo crea la suya sobre el mismo
+ * `SharedArrayBuffer`; solo el main thread llama a {@link RingBuffer.write}
+ * y solo el worker a {@link RingBuffer.read}.
+ *
+ * @internal
+ */
+export class RingBuffer {
+    /** Slots de control (ver {@link CONTROL}). */
+    readonly control: Int32Array;
+    private readonly counters: BigInt64Array;
+    private readonly data: Uint8Array;
+    private readonly capacity: number;
+
+    /**
+     * @param buffer - Memoria compartida creada con {@link RingBuffer.allocate}.
+     */
+    constructor(readonly buffer: SharedArrayBuffer) {
+        this.control = new Int32Array(buffer, 0, CONTROL_SLOTS);
+        this.counters = new BigInt64Array(buffer, COUNTERS_OFFSET, 2);
+        this.data = new Uint8Array(buffer, DATA_OFFSET);
+        this.capacity = this.data.length;
+    }
+
+    /**
+     * Reserva la memoria de un ring con `capacity` bytes de datos.
+     *
+     * @param capacity - Bytes para mensajes (cabeceras incluidas).
+     */
+    static allocate(capacity: number): SharedArrayBuffer {
+        return new SharedArrayBuffer(DATA_OFFSET + capacity);
+    }
+
+    /** Bytes ocupados por mensajes aún no leídos. */
+    get used(): number {
+        return Number(Atomics.load(this.counters, WRITTEN) - Atomics.load(this.counters, READ));
+    }
+
+    /**
+     * Encola un mensaje y despierta al worker.
+     *
+     * @param message - Bytes del mensaje.
+     * @returns `false` si no cabe (el ring está lleno o el mensaje es mayor que él).
+     */
+    write(message: Uint8Array): boolean {
+        const size = LENGTH_BYTES + message.length;
+        if (size > this.capacity - this.used) return false;
+
+        const written = Atomics.load(this.counters, WRITTEN);
+        const header = new Uint8Array(LENGTH_BYTES);
+        new DataView(header.buffer).setUint32(0, message.length);
+        this.copyIn(written, header);
+        this.copyIn(written + BigInt(LENGTH_BYTES), message);
+        // El store publica los bytes: el worker no lee más allá de WRITTEN.
+        Atomics.store(this.counters, WRITTEN, written + BigInt(size));
+        this.signal();
+        return true;
+    }
+
+    /**
+     * Saca el siguiente mensaje.
+     *
+     * @returns Copia de los bytes, o `undefined` si el ring está vacío.
+     */
+    read(): Uint8Array | undefined {
+        const read = Atomics.load(this.counters, READ);
+        if (read === Atomics.load(this.counters, WRITTEN)) return undefined;
+
+        const header = this.copyOut(read, LENGTH_BYTES);
+        const length = new DataView(header.buffer).getUint32(0);
+        const message = this.copyOut(read + BigInt(LENGTH_BYTES), length);
+        Atomics.store(this.counters, READ, read + BigInt(LENGTH_BYTES + length));
+        return message;
+    }
+
+    /** Incrementa {@link CONTROL.SIGNAL} y despierta a quien espere sobre él. */
+    signal(): void {
+        Atomics.add(this.control, CONTROL.SIGNAL, 1);
+        Atomics.notify(this.control, CONTROL.SIGNAL);
+    }
+
+    private copyIn(offset: bigint, bytes: Uint8Array): void {
+        const start = Number(offset % BigInt(this.capacity));
+        const head = Math.min(bytes.length, this.capacity - start);
+        this.data.set(bytes.subarray(0, head), start);
+        if (head < bytes.length) this.data.set(bytes.subarray(head), 0);
+    }
+
+    private copyOut(offset: bigint, length: number): Uint8Array {
+        const start = Number(offset % BigInt(this.capacity));
+        const head = Math.min(length, this.capacity - start);
+        const out = new Uint8Array(length);
+        out.set(this.data.subarray(start, start + head));
+        if (head < length) out.set(this.data.subarray(0, length - head), head);
+        return out;
+    }
+}
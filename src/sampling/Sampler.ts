@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Sampler — decide qué `TransportRecord`s se conservan según un
+ * {@link SamplingConfig} (ratio por nivel, ratio por trace y token bucket
+ * por key) y cuenta lo descartado.
+ */
+
+import type {
+    LogLevel,
+    TransportRecord,
+    SamplingConfig,
+    SamplingDropReason,
+    SamplingStats
+} from '../types/index.js';
+
+const DEFAULT_BYPASS_LEVELS: LogLevel[] = ['error', 'critical'];
+/** Tope de buckets vivos; al superarlo se descarta el más viejo. */
+const MAX_BUCKETS = 10_000;
+/** Hex chars del final del traceId usados como valor aleatorio (W3C level 2). */
+const TRACE_RANDOM_HEX = 8;
+const TRACE_RANDOM_MAX = 0xffffffff;
+
+interface TokenBucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Evalúa una política de sampling record a record.
+ *
+ * Es stateful: guarda los token buckets del rate limit y los contadores
+ * que expone {@link stats}. El Logger tiene uno para `LoggerConfig.sampling`
+ * y el `TransportManager` uno por transport con `options.sampling`.
+ *
+ * @example
+ * ```ts
+ * const sampler = new Sampler({ rates: { debug: 0.1 }, rateLimit: { perSecond: 100 } });
+ * if (sampler.shouldKeep(record)) transport.write(record);
+ * sampler.stats(); // { kept, dropped, levels, reasons }
+ * ```
+ */
+export class Sampler {
+    private readonly bypass: ReadonlySet<LogLevel>;
+    private readonly buckets = new Map<string, TokenBucket>();
+    private counters: SamplingStats = emptyStats();
+
+    /**
+     * @param config - Política de sampling. Ver {@link SamplingConfig}.
+     */
+    constructor(private readonly config: SamplingConfig) {
+        this.bypass = new Set(config.bypassLevels ?? DEFAULT_BYPASS_LEVELS);
+    }
+
+    /**
+     * Decide si `record` se conserva y actualiza los contadores.
+     *
+     * @param record - Record a evaluar.
+     * @returns `true` si el record pasa el sampling.
+     */
+    shouldKeep(record: TransportRecord): boolean {
+        const reason = this.bypass.has(record.level) ? undefined : this.dropReason(record);
+        const level = this.counters.levels[record.level] ?? { kept: 0, dropped: 0 };
+        this.counters.levels[record.level] = level;
+        if (reason) {
+            this.counters.dropped++;
+            this.counters.reasons[reason]++;
+            level.dropped++;
+            return false;
+        }
+        this.counters.kept++;
+        level.kept++;
+        return true;
+    }
+
+    /**
+     * Snapshot de los contadores acumulados.
+     *
+     * @returns Copia de los contadores; mutarla no afecta al sampler.
+     */
+    stats(): SamplingStats {
+        return {
+            kept: this.counters.kept,
+            dropped: this.counters.dropped,
+            levels: Object.fromEntries(
+                Object.entries(this.counters.levels).map(([level, counts]) => [level, { ...counts }])
+            ),
+            reasons: { ...this.counters.reasons }
+        };
+    }
+
+    /** Reinicia los contadores (no los token buckets). */
+    resetStats(): void {
+        this.counters = emptyStats();
+    }
+
+    private dropReason(record: TransportRecord): SamplingDropReason | undefined {
+        if (record.traceId && this.config.traceRatio !== undefined) {
+            if (!traceSampled(record.traceId, this.config.traceRatio)) return 'trace';
+        } else {
+            const rate = this.config.rates?.[record.level];
+            if (rate !== undefined && !(Math.random() < rate)) return 'ratio';
+        }
+        return this.takeToken(record) ? undefined : 'rateLimit';
+    }
+
+    private takeToken(record: TransportRecord): boolean {
+        const policy = this.config.rateLimit;
+        if (!policy) return true;
+        const key = policy.key ? policy.key(record) : record.prefix ?? '';
+        if (key === undefined) return true;
+
+        const capacity = policy.burst ?? policy.perSecond;
+        const now = Date.now();
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            if (this.buckets.size >= MAX_BUCKETS) {
+                const oldest = this.buckets.keys().next().value;
+                if (oldest !== undefined) this.buckets.delete(oldest);
+            }
+            bucket = { tokens: capacity, updatedAt: now };
+            this.buckets.set(key, bucket);
+        } else {
+            const refill = ((now - bucket.updatedAt) / 1000) * policy.perSecond;
+            bucket.tokens = Math.min(capacity, bucket.tokens + refill);
+            bucket.updatedAt = now;
+        }
+
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    }
+}
+
+// ===== Internal helpers =====
+
+function emptyStats(): SamplingStats {
+    return { kept: 0, dropped: 0, levels: {}, reasons: { ratio: 0, trace: 0, rateLimit: 0 } };
+}
+
+/**
+ * Decisión determinista por trace: los últimos bytes del traceId son
+ * aleatorios (W3C Trace Context level 2), así que compararlos contra el
+ * ratio da la misma respuesta para todos los logs del trace.
+ */
+function traceSampled(traceId: string, ratio: number): boolean {
+    if (ratio >= 1) return true;
+    if (ratio <= 0) return false;
+    const value = parseInt(traceId.slice(-TRACE_RANDOM_HEX), 16);
+    if (Number.isNaN(value)) return true;
+    return value / TRACE_RANDOM_MAX < ratio;
+}
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Sampling barrel.
+ * Exports: Sampler
+ */
+export { Sampler } from './Sampler.js';
@@ -1,6 +1,13 @@
 /**
  * @fileoverview Entry point for ./serializers subpath.
- * Serializer registry and bridge.
+ * Serializer registry and bridge, PII redaction engine.
  */
 export { SerializerRegistry, getDefaultSerializerRegistry } from './serializers/index.js';
+export { Redactor } from './serializers/index.js';
 export { createSerializerBridge, type SerializerBridge } from './serializers/index.js';
+export type {
+    RedactionConfig,
+    RedactionStrategy,
+    RedactionDetectorName,
+    RedactionPattern
+} from './types/index.js';
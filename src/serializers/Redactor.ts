@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Motor declarativo de redacción de PII. Aplica paths glob y
+ * detectores regex sobre valores ya serializados (plain data), strings y el
+ * mensaje renderizado. Lo usa {@link SerializerRegistry} tras serializar y el
+ * Logger sobre el mensaje final y los `attributes` de cada record.
+ */
+
+import type {
+    RedactionConfig,
+    RedactionDetectorName,
+    RedactionPattern,
+    RedactionStrategy
+} from '../types/index.js';
+import { sha256Hex } from '../utils/hash.js';
+
+const DEFAULT_CENSOR = '[REDACTED]';
+/** Hex chars del digest que se conservan en el token de la estrategia `hash`. */
+const HASH_TOKEN_LENGTH = 16;
+
+/** Detector compilado. `keepPrefix` conserva el grupo 1 del match (p.ej. `Bearer `). */
+interface CompiledDetector {
+    name: string;
+    pattern: RegExp;
+    keepPrefix?: boolean;
+    validate?: (match: string) => boolean;
+}
+
+/**
+ * Detectores builtin. El de tarjetas valida Luhn para no redactar ids o
+ * timestamps numéricos largos.
+ */
+const BUILTIN_DETECTORS: Record<RedactionDetectorName, CompiledDetector> = {
+    email: {
+        name: 'email',
+        pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+    },
+    creditCard: {
+        name: 'creditCard',
+        pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+        validate: passesLuhn
+    },
+    jwt: {
+        name: 'jwt',
+        pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g
+    },
+    bearer: {
+        name: 'bearer',
+        pattern: /\b(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+        keepPrefix: true
+    }
+};
+
+/** Marca un valor que la estrategia `remove` debe quitar de su contenedor. */
+const REMOVED = Symbol('redacted');
+
+/**
+ * Redactor de PII configurado con un {@link RedactionConfig}.
+ *
+ * Trabaja sobre plain data (el output de `SerializerRegistry.serialize()` o
+ * `TransportRecord.attributes`): nunca muta su input, devuelve copias.
+ *
+ * @example
+ * ```ts
+ * const redactor = new Redactor({ paths: ['user.password'], strategy: 'hash' });
+ * redactor.redact({ user: { name: 'ana', password: 'hunter2' } });
+ * // → { user: { name: 'ana', password: '[hash:…]' } }
+ * redactor.redactString('contact: ana@example.com');
+ * // → 'contact: [hash:…]'
+ * ```
+ */
+export class Redactor {
+    private readonly paths: string[][];
+    private readonly detectors: CompiledDetector[];
+    private readonly strategy: RedactionStrategy;
+    private readonly censor: string;
+    private readonly hashSalt: string;
+
+    /**
+     * @param config - Paths, detectores y estrategia. Ver {@link RedactionConfig}.
+     */
+    constructor(config: RedactionConfig) {
+        this.paths = (config.paths ?? []).map(path => path.toLowerCase().split('.').filter(Boolean));
+        this.detectors = (config.detectors ?? (Object.keys(BUILTIN_DETECTORS) as RedactionDetectorName[]))
+            .map(compileDetector);
+        this.strategy = config.strategy ?? 'mask';
+        this.censor = config.censor ?? DEFAULT_CENSOR;
+        this.hashSalt = config.hashSalt ?? '';
+    }
+
+    /**
+     * Redacta un valor plain (objeto, array o primitivo): los paths que
+     * matchean se reemplazan completos y los detectores se aplican a cada
+     * string restante.
+     *
+     * @param value - Valor serializado; la raíz es el origen de los paths.
+     * @returns Copia redactada. Con `remove` y un path que matchea la raíz
+     *   se devuelve `undefined`.
+     */
+    redact<T>(value: T): T {
+        const result = this.walk(value, []);
+        return (result === REMOVED ? undefined : result) as T;
+    }
+
+    /**
+     * Aplica los detectores a un string (p.ej. el mensaje renderizado).
+     *
+     * @param value - Texto a redactar.
+     * @returns El texto con cada match reemplazado según la estrategia.
+     */
+    redactString(value: string): string {
+        let out = value;
+        for (const detector of this.detectors) {
+            detector.pattern.lastIndex = 0;
+            out = out.replace(detector.pattern, (match: string, prefix: unknown) => {
+                if (detector.validate && !detector.validate(match)) return match;
+                const kept = detector.keepPrefix && typeof prefix === 'string' ? prefix : '';
+                return kept + this.replacement(match.slice(kept.length), '');
+            });
+        }
+        return out;
+    }
+
+    private walk(value: unknown, path: string[]): unknown {
+        if (path.length > 0 && this.matchesPath(path)) {
+            return this.strategy === 'remove' ? REMOVED : this.replacement(stringify(value), this.censor);
+        }
+        if (typeof value === 'string') return this.redactString(value);
+        if (Array.isArray(value)) {
+            return value
+                .map((item, i) => this.walk(item, [...path, String(i)]))
+                .filter(item => item !== REMOVED);
+        }
+        // Bytes opacos: no hay texto donde buscar PII, se copian por referencia
+        if (ArrayBuffer.isView(value)) return value;
+        if (value !== null && typeof value === 'object') {
+            const out: Record<string, unknown> = {};
+            for (const [key, child] of Object.entries(value)) {
+                const redacted = this.walk(child, [...path, key]);
+                if (redacted !== REMOVED) out[key] = redacted;
+            }
+            return out;
+        }
+        return value;
+    }
+
+    private matchesPath(path: string[]): boolean {
+        const lowered = path.map(segment => segment.toLowerCase());
+        return this.paths.some(pattern => globMatch(pattern, 0, lowered, 0));
+    }
+
+    /**
+     * Valor de reemplazo según la estrategia. `removed` es lo que deja
+     * `remove` (la key se quita aparte; dentro de un string, el fragmento
+     * desaparece).
+     */
+    private replacement(original: string, removed: string): string {
+        switch (this.strategy) {
+            case 'hash':
+                return `[hash:${sha256Hex(this.hashSalt + original).slice(0, HASH_TOKEN_LENGTH)}]`;
+            case 'remove':
+                return removed;
+            case 'mask':
+            default:
+                return this.censor;
+        }
+    }
+}
+
+// ===== Internal helpers =====
+
+function compileDetector(detector: RedactionDetectorName | RedactionPattern): CompiledDetector {
+    if (typeof detector === 'string') {
+        const builtin = BUILTIN_DETECTORS[detector];
+        if (!builtin) throw new Error(`Unknown redaction detector: ${detector}`);
+        return builtin;
+    }
+    const flags = detector.pattern.flags.includes('g') ? detector.pattern.flags : `${detector.pattern.flags}g`;
+    return { name: detector.name, pattern: new RegExp(detector.pattern.source, flags) };
+}
+
+/** Match de segmentos con `*` (un segmento) y `**` (cero o más). */
+function globMatch(pattern: string[], pi: number, path: string[], si: number): boolean {
+    if (pi === pattern.length) return si === path.length;
+    const segment = pattern[pi];
+    if (segment === '**') {
+        for (let skip = si; skip <= path.length; skip++) {
+            if (globMatch(pattern, pi + 1, path, skip)) return true;
+        }
+        return false;
+    }
+    if (si === path.length) return false;
+    return (segment === '*' || segment === path[si]) && globMatch(pattern, pi + 1, path, si + 1);
+}
+
+function stringify(value: unknown): string {
+    if (typeof value === 'string') return value;
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+function passesLuhn(match: string): boolean {
+    const digits = match.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) return false;
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
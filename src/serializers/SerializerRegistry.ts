@@ -8,8 +8,10 @@ import type {
     SerializerContext,
     SerializerEntry,
     SerializerConfig,
-    ISerializerRegistry
+    ISerializerRegistry,
+    RedactionConfig
 } from '../types/index.js';
+import { Redactor } from './Redactor.js';
 
 /**
  * Configuración por defecto del registry. Se merguea con la config que reciba
@@ -59,6 +61,7 @@ const DEFAULT_CONFIG: Required<SerializerConfig> = {
 export class SerializerRegistry implements ISerializerRegistry {
     private serializers: Map<Function, SerializerEntry> = new Map();
     private config: Required<SerializerConfig>;
+    private redactor: Redactor | null = null;
 
     /**
      * Crea un registry nuevo con los serializers builtin ya registrados
@@ -246,6 +249,36 @@ export class SerializerRegistry implements ISerializerRegistry {
             .sort((a, b) => (b.priority ?? 50) - (a.priority ?? 50));
     }
 
+    /**
+     * Activa (o desactiva con `null`) la redacción de PII. Con redacción
+     * activa, {@link SerializerRegistry.serialize} pasa cada resultado por el
+     * {@link Redactor}: los paths de `config.paths` se evalúan desde la raíz
+     * del valor serializado y los detectores sobre todos sus strings.
+     *
+     * @param {RedactionConfig | null} config - Configuración, o `null` para desactivar.
+     *
+     * @example
+     * ```ts
+     * registry.setRedaction({ paths: ['*.password'], detectors: ['email'] });
+     * registry.serialize({ user: { password: 'x' } });
+     * // → { user: { password: '[REDACTED]' } }
+     * ```
+     */
+    setRedaction(config: RedactionConfig | null): void {
+        this.redactor = config ? new Redactor(config) : null;
+    }
+
+    /**
+     * Devuelve el {@link Redactor} activo, o `null` si la redacción está
+     * desactivada. El Logger lo usa para el mensaje renderizado y los
+     * `attributes` de cada record.
+     *
+     * @returns {Redactor | null} El redactor configurado.
+     */
+    getRedactor(): Redactor | null {
+        return this.redactor;
+    }
+
     /**
      * Busca el primer serializer cuyo `type` matchee `value instanceof type`,
      * recorriendo las entradas en orden de prioridad descendente.
@@ -344,7 +377,9 @@ export class SerializerRegistry implements ISerializerRegistry {
      * Entry point público del pipeline. Construye un {@link SerializerContext}
      * fresco (depth 0, path vacío, `WeakSet` nuevo para detección de ciclos),
      * merguea overrides de `config` sobre los del constructor y delega a
-     * {@link SerializerRegistry.serializeInternal}.
+     * {@link SerializerRegistry.serializeInternal}. Si hay redacción activa
+     * (ver {@link SerializerRegistry.setRedaction}), el resultado pasa por el
+     * {@link Redactor} antes de devolverse.
      *
      * @param {any} value - Valor a serializar. Cualquier tipo.
      * @param {SerializerConfig} [config] - Overrides puntuales para esta llamada
@@ -379,12 +414,13 @@ export class SerializerRegistry implements ISerializerRegistry {
      */
     serialize(value: any, config?: SerializerConfig): any {
         const mergedConfig = { ...this.config, ...config };
-        return this.serializeInternal(value, {
+        const serialized = this.serializeInternal(value, {
             depth: 0,
             maxDepth: mergedConfig.maxDepth,
             path: [],
             seen: new WeakSet()
         });
+        return this.redactor ? this.redactor.redact(serialized) : serialized;
     }
 }
 
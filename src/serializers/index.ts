@@ -1,6 +1,7 @@
 /**
  * @fileoverview Serializers subpath barrel.
- * Exports: SerializerRegistry, createSerializerBridge, SerializerBridge
+ * Exports: SerializerRegistry, Redactor, createSerializerBridge, SerializerBridge
  */
 export { SerializerRegistry, getDefaultSerializerRegistry } from './SerializerRegistry.js';
+export { Redactor } from './Redactor.js';
 export { createSerializerBridge, type SerializerBridge } from './SerializerBridge.js';
@@ -1,9 +1,14 @@
 /**
  * @fileoverview Entry point for ./transports subpath.
- * Transport classes: FileTransport, HttpTransport, OtlpTransport, ConsoleTransport.
+ * Transport classes: FileTransport, HttpTransport, OtlpTransport, LokiTransport,
+ * ElasticsearchTransport, ConsoleTransport.
  */
-export { TransportManager } from './transports/index.js';
+export { TransportManager, type TransportHealthEntry } from './transports/index.js';
 export { ConsoleTransport } from './transports/index.js';
-export { FileTransport, type FileTransportOptions } from './transports/index.js';
+export { FileTransport, type FileTransportOptions, type FileRotationOptions } from './transports/index.js';
 export { HttpTransport, type HttpTransportOptions } from './transports/index.js';
+export type { SpillQueueOptions, SpillDropReason } from './transports/index.js';
+export type { CircuitBreakerOptions } from './transports/index.js';
 export { OtlpTransport, type OtlpTransportOptions } from './transports/index.js';
+export { LokiTransport, type LokiTransportOptions, type LokiLabelKey, type LokiPushPayload, type LokiEntry } from './transports/index.js';
+export { ElasticsearchTransport, type ElasticsearchTransportOptions, type EcsDocument, type BulkFailure } from './transports/index.js';
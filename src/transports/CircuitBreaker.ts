@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Circuit breaker para transports de red: deja de golpear un
+ * endpoint caído tras N fallos consecutivos y lo sondea con un único
+ * request al terminar el cooldown.
+ */
+
+import type { CircuitState } from '../types/index.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Configuración del circuit breaker de {@link HttpTransport} /
+ * {@link OtlpTransport}.
+ *
+ * @example
+ * new HttpTransport({
+ *   url: 'https://logs.example.com/ingest',
+ *   circuitBreaker: { failureThreshold: 3, cooldownMs: 10_000 }
+ * });
+ */
+export interface CircuitBreakerOptions {
+    /** Fallos consecutivos (red, timeout, `5xx`) que abren el circuito. Default 5. */
+    failureThreshold?: number;
+    /** Tiempo en `open` antes de dejar pasar el batch de prueba. Default 30_000. */
+    cooldownMs?: number;
+}
+
+/**
+ * Máquina de estados `closed → open → half-open → closed | open`.
+ *
+ * - `closed`: todo request pasa; cada fallo suma, cada éxito resetea.
+ * - `open`: {@link tryAcquire} devuelve `false` hasta que pasa `cooldownMs`.
+ * - `half-open`: el primer {@link tryAcquire} tras el cooldown obtiene el
+ *   permiso de prueba; los demás siguen rechazados hasta que la prueba
+ *   reporta {@link recordSuccess} (cierra) o {@link recordFailure} (reabre).
+ *
+ * @example
+ * ```ts
+ * const breaker = new CircuitBreaker({ failureThreshold: 3 });
+ * if (breaker.tryAcquire()) {
+ *     const ok = await send();
+ *     ok ? breaker.recordSuccess() : breaker.recordFailure();
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+    private readonly failureThreshold: number;
+    private readonly cooldownMs: number;
+    private current: CircuitState = 'closed';
+    private failures = 0;
+    private openedAt = 0;
+
+    /**
+     * @param options - Umbral y cooldown. Ver {@link CircuitBreakerOptions}.
+     */
+    constructor(options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold !== undefined && options.failureThreshold > 0
+            ? options.failureThreshold
+            : DEFAULT_FAILURE_THRESHOLD;
+        this.cooldownMs = options.cooldownMs !== undefined && options.cooldownMs >= 0
+            ? options.cooldownMs
+            : DEFAULT_COOLDOWN_MS;
+    }
+
+    /**
+     * Estado actual. Un circuito `open` cuyo cooldown ya terminó se reporta
+     * como `half-open` aunque la prueba todavía no haya salido.
+     */
+    get state(): CircuitState {
+        if (this.current === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+            return 'half-open';
+        }
+        return this.current;
+    }
+
+    /**
+     * Pide permiso para un request.
+     *
+     * @returns `true` si el request puede salir (circuito cerrado, o es el
+     *   batch de prueba tras el cooldown).
+     */
+    tryAcquire(): boolean {
+        if (this.current === 'closed') return true;
+        if (this.current === 'open' && this.state === 'half-open') {
+            this.current = 'half-open';
+            return true;
+        }
+        return false;
+    }
+
+    /** El endpoint respondió: cierra el circuito y resetea los fallos. */
+    recordSuccess(): void {
+        this.current = 'closed';
+        this.failures = 0;
+    }
+
+    /**
+     * Registra un fallo. Reabre el circuito si era la prueba, o lo abre si
+     * se alcanzó `failureThreshold`.
+     *
+     * @returns `true` si este fallo abrió (o reabrió) el circuito.
+     */
+    recordFailure(): boolean {
+        this.failures++;
+        if (this.current === 'half-open' || (this.current === 'closed' && this.failures >= this.failureThreshold)) {
+            this.current = 'open';
+            this.openedAt = Date.now();
+            return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,242 @@
+import type { TransportRecord, HookLogEntry, HookEvent, ILogAttributes } from '../types/index.js';
+import { HttpTransport, type HttpTransportOptions } from './HttpTransport.js';
+
+/**
+ * Opciones de configuración para {@link ElasticsearchTransport}. Hereda
+ * batching, retry/backoff, `compression`, `spill`, `circuitBreaker` y
+ * `onError` de {@link HttpTransportOptions}; la URL se deriva de `node`.
+ */
+export interface ElasticsearchTransportOptions extends Omit<HttpTransportOptions, 'url'> {
+    /** URL del cluster (Elasticsearch u OpenSearch), p.ej. `https://es.example.com:9200`. */
+    node: string;
+    /**
+     * Nombre del índice (o data stream). Admite patrones de fecha
+     * `%{+yyyy.MM.dd}` (tokens `yyyy`, `MM`, `dd`, `HH`), resueltos en UTC
+     * con el `time` de cada record. Default `better-logger-%{+yyyy.MM.dd}`.
+     */
+    index?: string;
+    /**
+     * Acción de bulk. `create` sirve para índices y data streams; `index`
+     * solo para índices. Default `'create'`.
+     */
+    action?: 'create' | 'index';
+    /** API key (`Authorization: ApiKey <apiKey>`). */
+    apiKey?: string;
+    /** Basic auth, alternativa a `apiKey`. */
+    auth?: { username: string; password: string };
+    /** `service.name` para records cuyo `resource` no lo trae. */
+    serviceName?: string;
+}
+
+/**
+ * Documento ECS (Elastic Common Schema) generado por record.
+ * @see https://www.elastic.co/guide/en/ecs/current/ecs-field-reference.html
+ */
+export interface EcsDocument {
+    '@timestamp': string;
+    message: string;
+    log: { level: string; logger?: string };
+    ecs: { version: string };
+    service?: { name?: string; version?: string; environment?: string };
+    trace?: { id: string };
+    span?: { id: string };
+    code?: { filepath: string; lineno: number; column: number; function?: string };
+    error?: { type: string; message: string; stack_trace?: string };
+    tags?: string[];
+    attributes?: ILogAttributes;
+}
+
+/** Documento rechazado por `_bulk`, tal como se reporta en `onError` (`extra.failedDocuments`). */
+export interface BulkFailure {
+    index: string;
+    status: number;
+    error: { type?: string; reason?: string };
+    document: EcsDocument;
+}
+
+interface BulkResponse {
+    errors?: boolean;
+    items?: Array<Record<string, { _index?: string; status: number; error?: { type?: string; reason?: string } }>>;
+}
+
+const DEFAULT_INDEX = 'better-logger-%{+yyyy.MM.dd}';
+const ECS_VERSION = '8.11.0';
+
+/**
+ * Transport `_bulk` para Elasticsearch / OpenSearch.
+ *
+ * Extiende {@link HttpTransport} — hereda buffer, retry/backoff, spill
+ * queue y circuit breaker. Cada batch sale como un request NDJSON a
+ * `<node>/_bulk`, con cada record mapeado a ECS. Un `_bulk` responde `200`
+ * aunque fallen documentos sueltos: el transport parsea los `items` y
+ * reporta los rechazados vía `onError` con `extra.failedDocuments`.
+ *
+ * @example
+ * ```ts
+ * logger.addTransport({
+ *   target: new ElasticsearchTransport({
+ *     node: 'https://es.example.com:9200',
+ *     index: 'logs-checkout-%{+yyyy.MM.dd}',
+ *     apiKey: process.env.ES_API_KEY,
+ *     onError: (entry) => console.error(entry.message, entry.extra?.failedDocuments)
+ *   })
+ * });
+ * ```
+ */
+export class ElasticsearchTransport extends HttpTransport {
+    override readonly name = 'elasticsearch';
+
+    private readonly indexPattern: string;
+    private readonly action: 'create' | 'index';
+    private readonly authorization: string | undefined;
+    private readonly serviceName: string | undefined;
+
+    constructor(options: ElasticsearchTransportOptions) {
+        if (!options.node) {
+            throw new Error('ElasticsearchTransport: `node` is required');
+        }
+
+        const { node, index, action, apiKey, auth, serviceName, ...httpOptions } = options;
+        super({ ...httpOptions, url: `${node.replace(/\/+$/, '')}/_bulk` });
+
+        this.indexPattern = index ?? DEFAULT_INDEX;
+        this.action = action ?? 'create';
+        this.authorization = apiKey
+            ? `ApiKey ${apiKey}`
+            : auth ? `Basic ${btoa(`${auth.username}:${auth.password}`)}` : undefined;
+        this.serviceName = serviceName;
+    }
+
+    /**
+     * Mapea un record a un documento ECS. Expuesto para tests y para
+     * subclasses que añadan campos.
+     *
+     * @param record - Record a mapear.
+     * @returns Documento listo para el `_bulk`.
+     */
+    toDocument(record: TransportRecord): EcsDocument {
+        const doc: EcsDocument = {
+            '@timestamp': new Date(record.time).toISOString(),
+            message: record.msg,
+            log: { level: record.level, ...(record.prefix ? { logger: record.prefix } : {}) },
+            ecs: { version: ECS_VERSION }
+        };
+
+        const service = {
+            name: record.resource?.['service.name'] ?? this.serviceName,
+            version: record.resource?.['service.version'],
+            environment: record.resource?.['deployment.environment']
+        };
+        const definedService = Object.fromEntries(Object.entries(service).filter(([, value]) => value !== undefined));
+        if (Object.keys(definedService).length > 0) doc.service = definedService;
+
+        if (record.traceId) doc.trace = { id: record.traceId };
+        if (record.spanId) doc.span = { id: record.spanId };
+        if (record.location) {
+            doc.code = {
+                filepath: record.location.file,
+                lineno: record.location.line,
+                column: record.location.column,
+                ...(record.location.function ? { function: record.location.function } : {})
+            };
+        }
+        if (record.exception) {
+            doc.error = {
+                type: record.exception.type,
+                message: record.exception.message,
+                ...(record.exception.stacktrace ? { stack_trace: record.exception.stacktrace } : {})
+            };
+        }
+        if (record.tag) doc.tags = [record.tag];
+        if (record.attributes && Object.keys(record.attributes).length > 0) doc.attributes = record.attributes;
+        return doc;
+    }
+
+    /**
+     * Resuelve el nombre de índice de un record (patrones `%{+...}` en UTC).
+     *
+     * @param record - Record cuyo `time` fija la fecha.
+     * @returns Nombre de índice.
+     */
+    indexFor(record: TransportRecord): string {
+        return resolveIndexPattern(this.indexPattern, record.time);
+    }
+
+    /**
+     * Serializa el batch como NDJSON de `_bulk`: una línea de acción y una
+     * de documento por record, con salto de línea final.
+     *
+     * @param records - Records del batch.
+     * @returns Body NDJSON.
+     */
+    protected override serializeBody(records: TransportRecord[]): string {
+        return records.map(record =>
+            `${JSON.stringify({ [this.action]: { _index: this.indexFor(record) } })}\n${JSON.stringify(this.toDocument(record))}\n`
+        ).join('');
+    }
+
+    /**
+     * Headers del `_bulk`: `application/x-ndjson` y `Authorization` si se
+     * configuró `apiKey` o `auth`.
+     *
+     * @returns Record de headers a merguear en el fetch.
+     */
+    protected override buildHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/x-ndjson',
+            ...(this.authorization ? { Authorization: this.authorization } : {}),
+            ...this.options.headers
+        };
+    }
+
+    /**
+     * Parsea la respuesta de `_bulk` y reporta los documentos rechazados
+     * (`items[i].<action>.error`) vía `onError`. Los `items` vienen en el
+     * mismo orden que el batch.
+     */
+    protected override async inspectResponse(response: Response, records: TransportRecord[]): Promise<void> {
+        const body = await response.json() as BulkResponse;
+        if (!body.errors || !body.items) return;
+
+        const failures: BulkFailure[] = [];
+        body.items.forEach((item, i) => {
+            const result = Object.values(item)[0];
+            const record = records[i];
+            if (!result?.error || !record) return;
+            failures.push({
+                index: result._index ?? this.indexFor(record),
+                status: result.status,
+                error: result.error,
+                document: this.toDocument(record)
+            });
+        });
+        if (failures.length === 0 || !this.options.onError) return;
+
+        const first = failures[0]!;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message: `ElasticsearchTransport: ${failures.length} of ${records.length} documents rejected by _bulk (${first.error.type ?? first.status}: ${first.error.reason ?? 'unknown'})`,
+            args: failures.map(failure => failure.document),
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: new Error(`Elasticsearch bulk item errors: ${failures.length}`),
+            extra: { failedDocuments: failures }
+        };
+        void this.options.onError(entry);
+    }
+}
+
+// ===== Internal helpers =====
+
+/** `logs-%{+yyyy.MM.dd}` → `logs-2026.10.18` (UTC). */
+function resolveIndexPattern(pattern: string, time: number): string {
+    const date = new Date(time);
+    const tokens: Record<string, string> = {
+        yyyy: String(date.getUTCFullYear()),
+        MM: String(date.getUTCMonth() + 1).padStart(2, '0'),
+        dd: String(date.getUTCDate()).padStart(2, '0'),
+        HH: String(date.getUTCHours()).padStart(2, '0')
+    };
+    return pattern.replace(/%\{\+([^}]+)\}/g, (_, format: string) =>
+        format.replace(/yyyy|MM|dd|HH/g, token => tokens[token] ?? token));
+}
@@ -6,11 +6,47 @@ import type {
     HookLogEntry,
     HookEvent
 } from '../types/index.js';
+import { isNodeLike, sanitiseNodePath, loadNodeFsPromises } from './nodeFs.js';
 
 const MAX_BUFFER_DEFAULT = 10_000;
 const BATCH_SIZE_DEFAULT = 100;
-const FS_PROMISES_LOAD_TIMEOUT_MS = 50;
 const LOCAL_STORAGE_KEY_PREFIX = 'better-logger:';
+const ROTATION_INTERVAL_KEY_LENGTH = { daily: 10, hourly: 13 } as const;
+
+/**
+ * Sufijo de un fichero rotado tras `<basename>`: `.<stamp>[.<n>][.gz]`, con
+ * `stamp` = `YYYY-MM-DD`, `YYYY-MM-DDTHH` o el instante de una rotación por
+ * tamaño (`YYYY-MM-DDTHH-MM-SS-mmmZ`). Lo comparte `better-logger query`.
+ *
+ * @internal
+ */
+export const ROTATED_FILE_SUFFIX = /^\.\d{4}-\d{2}-\d{2}(?:T\d{2}(?:-\d{2}-\d{2}-\d{3}Z)?)?(?:\.\d+)?(?:\.gz)?$/;
+
+/**
+ * Política de rotación de {@link FileTransport} (solo Node). Los criterios se
+ * combinan: el fichero activo rota en cuanto se cumple cualquiera de ellos.
+ *
+ * Los ficheros rotados se nombran `<destination>.<stamp>[.<n>][.gz]`, donde
+ * `stamp` es el periodo UTC que cubre el fichero (`2026-10-18` / `2026-10-18T14`)
+ * en rotación por tiempo, o el instante UTC de la rotación en rotación por
+ * tamaño.
+ *
+ * @example
+ * new FileTransport({
+ *   destination: 'logs/app.log',
+ *   rotation: { maxSize: 10 * 1024 * 1024, interval: 'daily', maxFiles: 7, compress: true }
+ * });
+ */
+export interface FileRotationOptions {
+    /** Tamaño máximo en bytes del fichero activo antes de rotar. */
+    maxSize?: number;
+    /** Rollover por periodo UTC: `'daily'` o `'hourly'`. */
+    interval?: 'daily' | 'hourly';
+    /** Número de ficheros rotados a conservar (los más viejos se borran). Sin límite si se omite. */
+    maxFiles?: number;
+    /** Comprime con gzip cada fichero rotado (`.gz`). @default false */
+    compress?: boolean;
+}
 
 /**
  * Opciones para {@link FileTransport}. El campo `destination` se interpreta
@@ -37,6 +73,11 @@ export interface FileTransportOptions extends TransportOptions {
      * @default 'app.log' (Node) | 'better-logger:default' (browser)
      */
     destination?: string;
+    /**
+     * Rotación del fichero destino por tamaño y/o periodo, con retención y
+     * gzip opcionales. Solo aplica en Node; se ignora en el browser.
+     */
+    rotation?: FileRotationOptions;
     /**
      * Hook opcional que se dispara cuando el transport no puede escribir
      * (error de FS, quota agotada, tab del browser en modo privado, ...).
@@ -62,6 +103,12 @@ export interface FileTransportOptions extends TransportOptions {
  * - Node: se rechazan rutas con segmentos `..`, `~` o absolutas (path traversal).
  * - Browser: se colapsa a `[a-zA-Z0-9_-]` recortado a 64 caracteres.
  *
+ * Con `rotation`, el fichero activo rota antes de un append que lo haría
+ * superar `maxSize` o que cae en un periodo nuevo. Los flushes se serializan
+ * en una cadena de I/O, así que la rotación nunca se intercala con un append
+ * y los registros que llegan mientras tanto siguen entrando al buffer (con
+ * drop-oldest si se llena): ningún batch se pierde en el rollover.
+ *
  * @implements {IBufferedTransport}
  *
  * @example
@@ -92,6 +139,12 @@ export class FileTransport implements IBufferedTransport {
     private flushTimer?: ReturnType<typeof setInterval>;
     private options: FileTransportOptions;
     private closed = false;
+    /** Cadena de I/O en Node: serializa appends y rotaciones. */
+    private writeChain: Promise<void> = Promise.resolve();
+    /** Bytes del fichero activo; `undefined` hasta el primer `stat`. */
+    private currentSize?: number;
+    /** Periodo UTC (`YYYY-MM-DD[THH]`) al que pertenece el fichero activo. */
+    private currentPeriod?: string;
 
     /**
      * Construye el transport. Si se pasa `flushInterval`, arranca un timer
@@ -186,13 +239,22 @@ export class FileTransport implements IBufferedTransport {
      * @returns {Promise<void>} Resuelve cuando el I/O terminó o falló.
      */
     async flush(): Promise<void> {
-        if (this.closed || this.buffer.length === 0) return;
+        if (this.closed) return;
+        await this.drain();
+    }
+
+    private async drain(): Promise<void> {
+        if (this.buffer.length === 0) return;
 
         const payload = this.buffer.join('');
         this.buffer = [];
 
         if (isNodeLike()) {
-            await this.flushNode(payload);
+            // Encadenado: un flush concurrente espera a que termine el
+            // append (y la rotación) anterior, preservando el orden.
+            const pending = this.writeChain.then(() => this.flushNode(payload));
+            this.writeChain = pending;
+            await pending;
         } else {
             await this.flushBrowser(payload);
         }
@@ -205,12 +267,109 @@ export class FileTransport implements IBufferedTransport {
             // browser y para que los consumidores ESM no lidien con un
             // `require` undefined.
             const fsPromises = await loadNodeFsPromises();
+            const bytes = byteLength(payload);
+            if (this.options.rotation) {
+                await this.rotateIfNeeded(fsPromises, destination, bytes);
+            }
             await fsPromises.appendFile(destination, payload, 'utf8');
+            if (this.currentSize !== undefined) this.currentSize += bytes;
         } catch (error) {
             this.emitError('FileTransport failed to write to disk', error);
         }
     }
 
+    /**
+     * Rota el fichero activo si el próximo append lo haría superar
+     * `rotation.maxSize` o si el periodo UTC cambió. Un fallo al rotar se
+     * reporta vía `onError` y el append continúa sobre el fichero activo, de
+     * modo que el batch no se pierde.
+     */
+    private async rotateIfNeeded(
+        fsPromises: typeof import('node:fs/promises'),
+        destination: string,
+        incomingBytes: number
+    ): Promise<void> {
+        const rotation = this.options.rotation ?? {};
+        const now = Date.now();
+
+        if (this.currentSize === undefined) {
+            try {
+                const stats = await fsPromises.stat(destination);
+                this.currentSize = stats.size;
+                if (rotation.interval) {
+                    this.currentPeriod = periodKey(stats.mtimeMs, rotation.interval);
+                }
+            } catch {
+                this.currentSize = 0;
+            }
+        }
+
+        const period = rotation.interval ? periodKey(now, rotation.interval) : undefined;
+        this.currentPeriod ??= period;
+
+        const periodElapsed = period !== undefined && this.currentPeriod !== period;
+        const sizeExceeded = rotation.maxSize !== undefined
+            && this.currentSize > 0
+            && this.currentSize + incomingBytes > rotation.maxSize;
+
+        if (this.currentSize === 0 || (!periodElapsed && !sizeExceeded)) {
+            this.currentPeriod = period;
+            return;
+        }
+
+        const stamp = periodElapsed && this.currentPeriod
+            ? this.currentPeriod
+            : new Date(now).toISOString().replace(/[:.]/g, '-');
+
+        try {
+            const rotated = await uniqueRotatedPath(fsPromises, `${destination}.${stamp}`);
+            await fsPromises.rename(destination, rotated);
+            this.currentSize = 0;
+            this.currentPeriod = period;
+            if (rotation.compress) {
+                await gzipFile(fsPromises, rotated);
+            }
+        } catch (error) {
+            this.emitError(`FileTransport failed to rotate ${destination}`, error);
+            return;
+        }
+
+        if (rotation.maxFiles !== undefined) {
+            await this.pruneRotated(fsPromises, destination, rotation.maxFiles);
+        }
+    }
+
+    /**
+     * Borra los ficheros rotados más viejos (por `mtime`) hasta dejar
+     * `maxFiles`. Solo considera hermanos `<basename>` + {@link ROTATED_FILE_SUFFIX}
+     * del destino: `app.log.bak` o `app.log.lock` no se tocan.
+     */
+    private async pruneRotated(
+        fsPromises: typeof import('node:fs/promises'),
+        destination: string,
+        maxFiles: number
+    ): Promise<void> {
+        const slash = destination.lastIndexOf('/');
+        const dir = slash === -1 ? '.' : destination.slice(0, slash);
+        const base = slash === -1 ? destination : destination.slice(slash + 1);
+
+        try {
+            const names = (await fsPromises.readdir(dir))
+                .filter(name => name.startsWith(base) && ROTATED_FILE_SUFFIX.test(name.slice(base.length)));
+            const entries = await Promise.all(names.map(async name => {
+                const path = `${dir}/${name}`;
+                const stats = await fsPromises.stat(path);
+                return { path, mtimeMs: stats.mtimeMs };
+            }));
+            entries.sort((a, b) => b.mtimeMs - a.mtimeMs || b.path.localeCompare(a.path));
+            for (const stale of entries.slice(Math.max(0, maxFiles))) {
+                await fsPromises.unlink(stale.path);
+            }
+        } catch (error) {
+            this.emitError(`FileTransport failed to prune rotated files of ${destination}`, error);
+        }
+    }
+
     private async flushBrowser(payload: string): Promise<void> {
         if (typeof localStorage === 'undefined') {
             this.emitError('FileTransport: localStorage is not available in this environment', null);
@@ -238,7 +397,8 @@ export class FileTransport implements IBufferedTransport {
             clearInterval(this.flushTimer);
             this.flushTimer = undefined;
         }
-        await this.flush();
+        await this.drain();
+        await this.writeChain;
     }
 
     private resolveNodeDestination(): string {
@@ -273,39 +433,70 @@ export class FileTransport implements IBufferedTransport {
 // ===== Helpers de entorno =====
 
 /**
- * Detecta si el runtime es Node comprobando `process.versions.node`.
+ * Longitud en bytes UTF-8 de un payload, sin depender de `Buffer`.
  *
- * @internal Dispatch Node/browser dentro del transport.
- * @returns {boolean} `true` si corre sobre Node.
+ * @internal
  */
-function isNodeLike(): boolean {
-    return typeof process !== 'undefined'
-        && process.versions != null
-        && process.versions.node != null;
+function byteLength(payload: string): number {
+    return new TextEncoder().encode(payload).length;
 }
 
-// ===== Saneadores =====
+// ===== Helpers de rotación =====
+
+/**
+ * Clave del periodo UTC de `timestamp` (`YYYY-MM-DD` o `YYYY-MM-DDTHH`).
+ *
+ * @internal
+ */
+function periodKey(timestamp: number, interval: 'daily' | 'hourly'): string {
+    return new Date(timestamp).toISOString().slice(0, ROTATION_INTERVAL_KEY_LENGTH[interval]);
+}
 
 /**
- * Rechaza rutas que escapan del working directory. Permite rutas relativas
- * bajo `cwd/`. Las rutas absolutas se rechazan a propósito — si un caller
- * necesita una ubicación absoluta, debe usar un escape hatch documentado
- * (no expuesto aquí).
+ * Devuelve `base` si ni él ni su `.gz` existen; si no, `base.1`, `base.2`, ...
  *
  * @internal
- * @param {string} input - Ruta cruda pedida por el caller.
- * @returns {string | null} Ruta saneada, o `null` si se rechaza por traversal.
  */
-function sanitiseNodePath(input: string): string | null {
-    if (!input) return null;
-    const normalised = input.replace(/\\/g, '/').trim();
-    if (normalised.length === 0) return null;
-    if (normalised.startsWith('/') || /^[a-zA-Z]:\//.test(normalised)) return null;
-    const segments = normalised.split('/').filter(s => s.length > 0 && s !== '.');
-    if (segments.some(s => s === '..' || s === '~')) return null;
-    return segments.join('/');
+async function uniqueRotatedPath(
+    fsPromises: typeof import('node:fs/promises'),
+    base: string
+): Promise<string> {
+    const exists = async (path: string): Promise<boolean> => {
+        try {
+            await fsPromises.access(path);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+    let candidate = base;
+    for (let n = 1; await exists(candidate) || await exists(`${candidate}.gz`); n++) {
+        candidate = `${base}.${n}`;
+    }
+    return candidate;
 }
 
+/**
+ * Comprime `path` a `path.gz` en streaming y borra el original. El módulo
+ * `zlib` se carga con dynamic import, igual que `fs/promises`.
+ *
+ * @internal
+ */
+async function gzipFile(
+    fsPromises: typeof import('node:fs/promises'),
+    path: string
+): Promise<void> {
+    const [{ createReadStream, createWriteStream }, { createGzip }, { pipeline }] = await Promise.all([
+        import('node:fs'),
+        import('node:zlib'),
+        import('node:stream/promises')
+    ]);
+    await pipeline(createReadStream(path), createGzip(), createWriteStream(`${path}.gz`));
+    await fsPromises.unlink(path);
+}
+
+// ===== Saneadores =====
+
 /**
  * Convierte cualquier string en una clave válida para `localStorage`:
  * colapsa todo carácter fuera de `[a-zA-Z0-9_-]` a `_` y recorta a 64
@@ -318,35 +509,3 @@ function sanitiseNodePath(input: string): string | null {
 function sanitiseBrowserKey(input: string): string {
     return input.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'default';
 }
-
-// ===== Loader de fs de Node =====
-
-/**
- * Dynamic import cacheado de `node:fs/promises`. La caché es intencionadamente
- * module-scoped para que los flushes posteriores no paguen el coste del import.
- * Además corre el import contra un timeout corto (`FS_PROMISES_LOAD_TIMEOUT_MS`)
- * para que un entorno Node roto (bindings nativos corruptos) no bloquee el
- * transport indefinidamente.
- *
- * @internal
- * @returns {Promise<typeof import('node:fs/promises')>} Módulo `fs/promises` resuelto.
- * @throws {Error} Si el import excede el timeout o el módulo no está disponible.
- */
-let _fsPromisesPromise: Promise<typeof import('node:fs/promises')> | null = null;
-
-async function loadNodeFsPromises(): Promise<typeof import('node:fs/promises')> {
-    if (_fsPromisesPromise) return _fsPromisesPromise;
-
-    // Pone el dynamic import a competir contra un timeout corto para que
-    // un entorno Node colgado (bindings nativos corruptos, etc.) no
-    // bloquee el transport indefinidamente.
-    const importPromise = import('node:fs/promises');
-    const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`fs/promises import timed out after ${FS_PROMISES_LOAD_TIMEOUT_MS}ms`)), FS_PROMISES_LOAD_TIMEOUT_MS);
-    });
-    _fsPromisesPromise = Promise.race([importPromise, timeoutPromise]).catch(err => {
-        _fsPromisesPromise = null;
-        throw err;
-    }) as Promise<typeof import('node:fs/promises')>;
-    return _fsPromisesPromise;
-}
\ No newline at end of file
@@ -4,8 +4,12 @@ import type {
     ITransport,
     IBufferedTransport,
     HookEvent,
-    HookLogEntry
+    HookLogEntry,
+    TransportHealth
 } from '../types/index.js';
+import { gzip } from '../utils/compression.js';
+import { SpillQueue, type SpillQueueOptions, type SpillDropReason } from './SpillQueue.js';
+import { CircuitBreaker, type CircuitBreakerOptions } from './CircuitBreaker.js';
 
 /**
  * Configuración para {@link HttpTransport}. Extiende {@link TransportOptions}
@@ -45,6 +49,37 @@ export interface HttpTransportOptions extends TransportOptions {
     maxBackoffMs?: number;
     /** Timeout del fetch en ms (por intento). Default 10_000. */
     fetchTimeoutMs?: number;
+    /**
+     * Compresión del body. Con `'gzip'` se envía `Content-Encoding: gzip`;
+     * si el runtime no tiene `CompressionStream`, el body sale sin comprimir.
+     * Default `'none'`.
+     */
+    compression?: 'gzip' | 'none';
+    /**
+     * Spill queue durable: los batches que agotan los reintentos se
+     * persisten (segment files en Node, IndexedDB en browser) en vez de
+     * re-bufferizarse en memoria, y se re-envían en orden antes que los
+     * records nuevos cuando el endpoint vuelve. Sin almacenamiento durable
+     * disponible, el transport cae al buffer en memoria.
+     */
+    spill?: SpillQueueOptions;
+    /**
+     * Circuit breaker: tras `failureThreshold` fallos consecutivos deja de
+     * enviar (los batches van al buffer / spill sin tocar la red) y, pasado
+     * `cooldownMs`, prueba con un único batch sin reintentos. Opt-in:
+     * `{}` lo activa con los defaults; sin la opción no hay breaker.
+     */
+    circuitBreaker?: CircuitBreakerOptions;
+    /**
+     * Browser: al ocultarse la página (`visibilitychange` → `hidden`) o en
+     * `pagehide`, vacía el buffer con `navigator.sendBeacon` en un único
+     * body de hasta 64 KB sin comprimir (los records más nuevos); el resto
+     * va a la spill queue o se reporta vía `onError`. Si no hay
+     * `sendBeacon`, o hay headers custom (el beacon solo puede fijar
+     * `Content-Type`), usa `fetch(..., { keepalive: true })`. Default
+     * `false`; no-op fuera del browser.
+     */
+    flushOnUnload?: boolean;
     /**
      * Hook opcional que se dispara cuando el buffer hace overflow o un batch
      * se dropea tras `maxRetries`. Recibe una entrada {@link HookLogEntry}
@@ -59,6 +94,10 @@ const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_INITIAL_BACKOFF = 250;
 const DEFAULT_MAX_BACKOFF = 5_000;
 const DEFAULT_FETCH_TIMEOUT = 10_000;
+/** Cuota de `sendBeacon` / `keepalive` en los browsers (bytes en vuelo). */
+const BEACON_MAX_BYTES = 64 * 1024;
+
+type SendOutcome = 'sent' | 'rejected' | 'failed';
 
 /**
  * Transport basado en HTTP. Bufferea records, los batcha por tamaño o
@@ -75,7 +114,15 @@ const DEFAULT_FETCH_TIMEOUT = 10_000;
  *     backoff exponencial: arranca en `initialBackoffMs`, duplica por intento,
  *     techo `maxBackoffMs`, hasta `maxRetries` intentos. Tras el agotamiento
  *     el batch se re-bufferiza (o se trimea contra `maxBufferSize`) y se
- *     dispara `onError` con `droppedCount`.
+ *     dispara `onError` con `droppedCount`. Con `spill`, el batch va a la
+ *     spill queue durable en su lugar.
+ *  5. Con `circuitBreaker`, el breaker cuenta los fallos de red / `5xx` consecutivos; al
+ *     llegar a `failureThreshold` se abre y los batches no salen a la red
+ *     hasta que, pasado `cooldownMs`, un batch de prueba (sin reintentos)
+ *     lo cierra o lo reabre. Ver {@link getHealth}.
+ *
+ * En browser, con `flushOnUnload`, el buffer se vacía con `sendBeacon` /
+ * `keepalive` al ocultarse la página (ver {@link HttpTransportOptions.flushOnUnload}).
  *
  * El body por defecto es el envelope JSON `{ logs: TransportRecord[] }`.
  * Para cambiar el wire format, sobrescribe los hooks `protected`
@@ -109,6 +156,15 @@ export class HttpTransport implements IBufferedTransport {
     private buffer: TransportRecord[] = [];
     private flushTimer?: ReturnType<typeof setInterval>;
     private closed = false;
+    /** `undefined` hasta el primer flush; `null` si el runtime no tiene almacenamiento durable. */
+    private spillQueue?: SpillQueue | null;
+    private flushChain: Promise<void> = Promise.resolve();
+    private readonly breaker?: CircuitBreaker;
+    private successCount = 0;
+    private failureCount = 0;
+    private consecutiveFailures = 0;
+    private lastError?: { message: string; time: number };
+    private removeUnloadListeners?: () => void;
 
     /** Bag de options — `protected` para que subclasses (ej. {@link OtlpTransport}) puedan leerlo o extenderlo. */
     protected options: HttpTransportOptions;
@@ -141,6 +197,14 @@ export class HttpTransport implements IBufferedTransport {
             ...(options ?? {})
         };
 
+        if (this.options.circuitBreaker) {
+            this.breaker = new CircuitBreaker(this.options.circuitBreaker);
+        }
+
+        if (this.options.flushOnUnload) {
+            this.removeUnloadListeners = onPageHidden(() => this.drainOnUnload()) ?? undefined;
+        }
+
         if (this.options.flushInterval) {
             this.flushTimer = setInterval(() => {
                 void this.flush();
@@ -160,12 +224,36 @@ export class HttpTransport implements IBufferedTransport {
 
     /**
      * Indica si el transport está listo para aceptar y entregar records.
-     * Devuelve `false` tras {@link close} o si no se configuró `url`.
+     * Devuelve `false` tras {@link close}, si no se configuró `url` o
+     * mientras el circuit breaker (si está activo) está `open` (los `write` siguen
+     * bufferizando).
      *
      * @returns {boolean} `true` si el transport puede enviar.
      */
     isReady(): boolean {
-        return !this.closed && Boolean(this.options.url);
+        return !this.closed && Boolean(this.options.url) && this.breaker?.state !== 'open';
+    }
+
+    /**
+     * Snapshot de salud: estado del circuit breaker, contadores de requests
+     * (cada reintento cuenta), último error y records pendientes (buffer +
+     * spill queue, esta última solo tras el primer flush).
+     *
+     * @returns {TransportHealth} Estado actual del transport.
+     *
+     * @example
+     * const { state, queuedRecords } = transport.getHealth();
+     * if (state === 'open') alerts.warn(`log collector down, ${queuedRecords} queued`);
+     */
+    getHealth(): TransportHealth {
+        return {
+            state: this.breaker?.state ?? 'closed',
+            successCount: this.successCount,
+            failureCount: this.failureCount,
+            consecutiveFailures: this.consecutiveFailures,
+            queuedRecords: this.buffer.length + (this.spillQueue?.pendingRecords ?? 0),
+            ...(this.lastError ? { lastError: { ...this.lastError } } : {})
+        };
     }
 
     /**
@@ -195,10 +283,12 @@ export class HttpTransport implements IBufferedTransport {
     /**
      * Serializa un batch al body de la request. Las subclasses sobrescriben
      * para cambiar la codificación (ej. {@link OtlpTransport} produce OTLP/HTTP
-     * JSON en vez del envelope default `{ logs: [...] }`).
+     * JSON o protobuf en vez del envelope default `{ logs: [...] }`). La
+     * compresión (`options.compression`) se aplica después, sobre el
+     * resultado.
      *
      */
-    protected serializeBody(records: TransportRecord[]): string {
+    protected serializeBody(records: TransportRecord[]): string | Uint8Array<ArrayBuffer> {
         return JSON.stringify({ logs: records });
     }
 
@@ -214,6 +304,18 @@ export class HttpTransport implements IBufferedTransport {
         };
     }
 
+    /**
+     * Inspecciona una respuesta `2xx`. Las subclasses sobrescriben para
+     * detectar fallos parciales que el status no refleja (ej. los errores
+     * por item de `_bulk` en {@link ElasticsearchTransport}). El batch ya
+     * cuenta como entregado: no se reintenta. Si el hook lanza, el error se
+     * reporta vía `onError`.
+     *
+     */
+    protected async inspectResponse(_response: Response, _records: TransportRecord[]): Promise<void> {
+        // Default: un 2xx es entrega completa.
+    }
+
     private applyOverflowPolicy(): void {
         const dropped = this.buffer.shift();
         if (dropped && this.options.onError) {
@@ -235,63 +337,162 @@ export class HttpTransport implements IBufferedTransport {
      * los envía con retry/backoff vía `sendWithRetry`, y ante fallo los
      * re-bufferiza preservando el orden. Si la re-bufferización excede
      * `maxBufferSize`, trimea los más viejos y dispara `onError` con
-     * `droppedCount`.
+     * `droppedCount`. Con `spill` configurado, antes re-envía los batches
+     * persistidos y los fallidos van a la spill queue en vez de a memoria.
      *
-     * No-op si el transport está cerrado, el buffer está vacío o no hay
-     * `url` configurada.
+     * No-op si el transport está cerrado, el buffer está vacío (y no hay
+     * spill) o no hay `url` configurada.
      *
      * @returns {Promise<void>} Resuelve cuando el intento de entrega del batch actual terminó (success, drop definitivo o no-op).
      *
      * @see {@link HttpTransportOptions.onError}
      */
     async flush(): Promise<void> {
-        if (this.closed || this.buffer.length === 0 || !this.options.url) return;
+        if (this.closed || !this.options.url) return;
+
+        if (this.options.spill) {
+            // Serializado: dos replays concurrentes re-enviarían el mismo segmento.
+            const pending = this.flushChain.then(() => this.flushWithSpill());
+            this.flushChain = pending.catch(() => {});
+            return pending;
+        }
+
+        return this.flushInMemory();
+    }
+
+    private async flushInMemory(): Promise<void> {
+        if (this.buffer.length === 0) return;
 
         const records = [...this.buffer];
         this.buffer = [];
 
-        const success = await this.sendWithRetry(records);
-        if (!success) {
-            // Re-bufferiza al frente para preservar orden; si volviera a hacer
-            // overflow, applyOverflowPolicy trimea el más viejo y lo reporta.
-            const combined = records.concat(this.buffer);
-            if (combined.length > this.maxBufferSize) {
-                const trimmed = combined.slice(combined.length - this.maxBufferSize);
-                const droppedCount = combined.length - trimmed.length;
-                if (droppedCount > 0 && this.options.onError) {
-                    const entry: HookLogEntry = {
-                        level: 'error',
-                        message: `HttpTransport dropped ${droppedCount} records after retry exhaustion`,
-                        args: [],
-                        timestamp: new Date().toISOString(),
-                        hookEvent: 'onError' as HookEvent,
-                        error: new Error('HttpTransport retry exhaustion'),
-                        extra: { droppedCount }
-                    };
-                    void this.options.onError(entry);
-                }
-                this.buffer = trimmed;
-            } else {
-                this.buffer = combined;
+        // Un 4xx ya se reportó y reenviarlo daría el mismo rechazo: solo se re-bufferizan los fallos.
+        if (await this.sendWithRetry(records) === 'failed') this.rebuffer(records);
+    }
+
+    /**
+     * Flush con spill queue: primero re-envía los segmentos persistidos; si
+     * la queue quedó vacía envía el buffer, y si no (endpoint todavía caído)
+     * lo persiste directamente detrás de ellos para preservar el orden. Un
+     * fallo del almacenamiento cae al re-buffer en memoria.
+     */
+    private async flushWithSpill(): Promise<void> {
+        const spill = this.getSpillQueue();
+        if (!spill) return this.flushInMemory();
+
+        let drained = false;
+        try {
+            drained = await spill.replay(async records => await this.sendWithRetry(records) !== 'failed');
+        } catch (error) {
+            this.reportError('HttpTransport spill queue replay failed', error);
+        }
+
+        if (this.buffer.length === 0) return;
+        const records = this.buffer;
+        this.buffer = [];
+
+        if (drained && await this.sendWithRetry(records) !== 'failed') return;
+        try {
+            await spill.push(records);
+        } catch (error) {
+            this.reportError('HttpTransport failed to persist batch to spill queue', error);
+            this.rebuffer(records);
+        }
+    }
+
+    private getSpillQueue(): SpillQueue | null {
+        if (this.spillQueue === undefined) {
+            this.spillQueue = this.options.spill
+                ? SpillQueue.create(this.options.spill, this.name, (count, reason) => this.reportSpillDrop(count, reason))
+                : null;
+        }
+        return this.spillQueue;
+    }
+
+    private reportSpillDrop(droppedCount: number, reason: SpillDropReason): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message: `HttpTransport spill queue dropped ${droppedCount} records (${reason})`,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: new Error(`HttpTransport spill queue ${reason}`),
+            extra: { droppedCount, reason }
+        };
+        void this.options.onError(entry);
+    }
+
+    private reportError(message: string, error: unknown): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: error instanceof Error ? error : new Error(String(error))
+        };
+        void this.options.onError(entry);
+    }
+
+    /**
+     * Re-bufferiza al frente para preservar orden; si excede
+     * `maxBufferSize`, trimea los más viejos y dispara `onError` con
+     * `droppedCount`.
+     */
+    private rebuffer(records: TransportRecord[]): void {
+        const combined = records.concat(this.buffer);
+        if (combined.length > this.maxBufferSize) {
+            const trimmed = combined.slice(combined.length - this.maxBufferSize);
+            const droppedCount = combined.length - trimmed.length;
+            if (droppedCount > 0 && this.options.onError) {
+                const entry: HookLogEntry = {
+                    level: 'error',
+                    message: `HttpTransport dropped ${droppedCount} records after retry exhaustion`,
+                    args: [],
+                    timestamp: new Date().toISOString(),
+                    hookEvent: 'onError' as HookEvent,
+                    error: new Error('HttpTransport retry exhaustion'),
+                    extra: { droppedCount }
+                };
+                void this.options.onError(entry);
             }
+            this.buffer = trimmed;
+        } else {
+            this.buffer = combined;
         }
     }
 
-    private async sendWithRetry(records: TransportRecord[]): Promise<boolean> {
+    /**
+     * Envía un batch con retry/backoff. `'rejected'` es un 4xx (ya reportado
+     * vía `onError`, no tiene sentido reintentarlo); `'failed'` es red caída,
+     * timeout o 5xx tras agotar `maxRetries`.
+     */
+    private async sendWithRetry(records: TransportRecord[]): Promise<SendOutcome> {
         const url = this.options.url;
-        if (!url) return false;
+        if (!url) return 'failed';
 
         const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
         const initialBackoff = this.options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF;
         const maxBackoff = this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF;
         const fetchTimeout = this.options.fetchTimeoutMs ?? DEFAULT_FETCH_TIMEOUT;
-        const body = this.serializeBody(records);
-        const headers = this.buildHeaders();
+        const serialized = this.serializeBody(records);
+        const compressed = this.options.compression === 'gzip' ? await gzip(serialized) : null;
+        const body = compressed ?? serialized;
+        const headers = compressed
+            ? { ...this.buildHeaders(), 'Content-Encoding': 'gzip' }
+            : this.buildHeaders();
 
         let attempt = 0;
         let backoff = initialBackoff;
 
         while (attempt <= maxRetries) {
+            // Circuito abierto: el batch vuelve al buffer / spill sin tocar la red.
+            if (this.breaker && !this.breaker.tryAcquire()) return 'failed';
+
+            let failure: Error;
+            let thrown = false;
             try {
                 const controller = new AbortController();
                 const timeoutId = setTimeout(() => controller.abort(), fetchTimeout);
@@ -305,12 +506,20 @@ export class HttpTransport implements IBufferedTransport {
                 clearTimeout(timeoutId);
 
                 if (response.ok) {
-                    return true;
+                    this.recordResponse();
+                    this.successCount++;
+                    await this.inspectResponse(response, records).catch(error => {
+                        this.reportError('HttpTransport response inspection failed', error);
+                    });
+                    return 'sent';
                 }
 
                 // Non-2xx es fallo lógico — NO se reintenta en 4xx (errores
                 // de cliente no son transitorios). 5xx sí se reintenta.
                 if (response.status >= 400 && response.status < 500) {
+                    // El endpoint responde: para el breaker cuenta como vivo.
+                    this.recordResponse();
+                    this.noteError(new Error(`HTTP ${response.status}`));
                     if (this.options.onError) {
                         const entry: HookLogEntry = {
                             level: 'error',
@@ -323,40 +532,153 @@ export class HttpTransport implements IBufferedTransport {
                         };
                         void this.options.onError(entry);
                     }
-                    return false;
+                    return 'rejected';
                 }
 
-                // 5xx → retry con backoff
-                if (attempt === maxRetries) break;
-                await sleep(backoff);
-                backoff = Math.min(backoff * 2, maxBackoff);
+                failure = new Error(`HTTP ${response.status}`);
             } catch (error) {
-                if (attempt === maxRetries) {
-                    if (this.options.onError) {
-                        const entry: HookLogEntry = {
-                            level: 'error',
-                            message: `HttpTransport fetch failed after ${maxRetries + 1} attempts`,
-                            args: [],
-                            timestamp: new Date().toISOString(),
-                            hookEvent: 'onError' as HookEvent,
-                            error: error instanceof Error ? error : new Error(String(error))
-                        };
-                        void this.options.onError(entry);
-                    }
-                    return false;
+                failure = error instanceof Error ? error : new Error(String(error));
+                thrown = true;
+            }
+
+            // 5xx o fallo de red → retry con backoff, salvo que el circuito
+            // se haya abierto con este fallo.
+            const opened = this.recordFailure(failure);
+            if (attempt === maxRetries || opened) {
+                if (thrown && this.options.onError) {
+                    const entry: HookLogEntry = {
+                        level: 'error',
+                        message: `HttpTransport fetch failed after ${attempt + 1} attempts`,
+                        args: [],
+                        timestamp: new Date().toISOString(),
+                        hookEvent: 'onError' as HookEvent,
+                        error: failure
+                    };
+                    void this.options.onError(entry);
                 }
-                await sleep(backoff);
-                backoff = Math.min(backoff * 2, maxBackoff);
+                return 'failed';
             }
+            await sleep(backoff);
+            backoff = Math.min(backoff * 2, maxBackoff);
             attempt++;
         }
-        return false;
+        return 'failed';
+    }
+
+    private recordResponse(): void {
+        this.consecutiveFailures = 0;
+        this.breaker?.recordSuccess();
+    }
+
+    private noteError(error: Error): void {
+        this.failureCount++;
+        this.lastError = { message: error.message, time: Date.now() };
+    }
+
+    /** @returns `true` si el fallo abrió el circuito. */
+    private recordFailure(error: Error): boolean {
+        this.noteError(error);
+        this.consecutiveFailures++;
+        if (!this.breaker?.recordFailure()) return false;
+        if (this.options.onError) {
+            const entry: HookLogEntry = {
+                level: 'error',
+                message: `HttpTransport circuit opened after ${this.consecutiveFailures} consecutive failures`,
+                args: [],
+                timestamp: new Date().toISOString(),
+                hookEvent: 'onError' as HookEvent,
+                error,
+                extra: { consecutiveFailures: this.consecutiveFailures }
+            };
+            void this.options.onError(entry);
+        }
+        return true;
     }
 
     /**
-     * Cierra el transport: marca el flag `closed`, detiene el timer de
-     * `flushInterval` si estaba corriendo, y ejecuta un flush final para
-     * entregar lo pendiente.
+     * Vacía el buffer de forma síncrona al ocultarse la página: la pestaña
+     * puede congelarse antes de que un `flush()` async llegue a salir, así
+     * que no hay retry, compresión ni spill. Los records que no se pudieron
+     * encolar (record > 64 KB, cuota de keepalive agotada, respuesta no-2xx)
+     * se reportan vía `onError`.
+     */
+    private drainOnUnload(): void {
+        const url = this.options.url;
+        if (this.closed || !url || this.buffer.length === 0) return;
+
+        const records = this.buffer;
+        this.buffer = [];
+        const headers = this.buildHeaders();
+        const useBeacon = typeof navigator !== 'undefined'
+            && typeof navigator.sendBeacon === 'function'
+            && Object.keys(headers).every(name => name.toLowerCase() === 'content-type');
+
+        // La cuota de beacon / keepalive es de 64 KB en vuelo por página: un
+        // segundo envío sería rechazado. Va un único body con los records más
+        // nuevos que quepan; el resto se persiste en la spill queue.
+        let pending = records;
+        let fit = fitNewest(pending, batch => this.serializeBody(batch), BEACON_MAX_BYTES);
+        while (fit.body === null && pending.length > 0) {
+            this.reportUnloadDrop(1, 'record larger than 64KB');
+            pending = pending.slice(0, -1);
+            fit = fitNewest(pending, batch => this.serializeBody(batch), BEACON_MAX_BYTES);
+        }
+        const overflow = pending.slice(0, fit.start);
+        if (overflow.length > 0) this.keepUnloadOverflow(overflow);
+        if (fit.body === null) return;
+
+        const sent = pending.length - fit.start;
+        if (useBeacon) {
+            const blob = new Blob([fit.body], { type: headers['Content-Type'] ?? 'application/json' });
+            if (!navigator.sendBeacon(url, blob)) this.reportUnloadDrop(sent, 'sendBeacon refused');
+        } else if (typeof fetch === 'function') {
+            fetch(url, { method: 'POST', headers, body: fit.body, keepalive: true })
+                .then(response => {
+                    if (!response.ok) this.reportUnloadDrop(sent, `HTTP ${response.status}`);
+                })
+                .catch(() => this.reportUnloadDrop(sent, 'keepalive fetch failed'));
+        } else {
+            this.reportUnloadDrop(sent, 'no sendBeacon or fetch');
+        }
+    }
+
+    /**
+     * Records que no cupieron en el envío de unload: van a la spill queue
+     * (se re-envían en la próxima sesión) o, sin ella, se reportan como drop.
+     */
+    private keepUnloadOverflow(records: TransportRecord[]): void {
+        const spill = this.getSpillQueue();
+        if (!spill) {
+            this.reportUnloadDrop(records.length, 'over the 64KB unload quota');
+            return;
+        }
+        this.flushChain = this.flushChain
+            .then(() => spill.push(records))
+            .catch(error => {
+                this.reportError('HttpTransport failed to persist batch to spill queue', error);
+                this.reportUnloadDrop(records.length, 'over the 64KB unload quota');
+            });
+    }
+
+    private reportUnloadDrop(droppedCount: number, reason: string): void {
+        if (!this.options.onError) return;
+        const entry: HookLogEntry = {
+            level: 'error',
+            message: `HttpTransport dropped ${droppedCount} records on page unload (${reason})`,
+            args: [],
+            timestamp: new Date().toISOString(),
+            hookEvent: 'onError' as HookEvent,
+            error: new Error(`HttpTransport unload delivery: ${reason}`),
+            extra: { droppedCount }
+        };
+        void this.options.onError(entry);
+    }
+
+    /**
+     * Cierra el transport: detiene el timer de `flushInterval` si estaba
+     * corriendo, quita los listeners de unload, ejecuta un flush final
+     * (spill queue incluida) para entregar lo pendiente y marca el flag
+     * `closed`.
      *
      * Tras `close()`, todo {@link write} posterior es no-op y
      * {@link isReady} devuelve `false`.
@@ -366,15 +688,66 @@ export class HttpTransport implements IBufferedTransport {
      * @see {@link flush}
      */
     async close(): Promise<void> {
-        this.closed = true;
         if (this.flushTimer) {
             clearInterval(this.flushTimer);
             this.flushTimer = undefined;
         }
+        this.removeUnloadListeners?.();
+        this.removeUnloadListeners = undefined;
+        // `flush()` es no-op con el transport cerrado: se marca después de vaciar buffer y spill queue.
         await this.flush();
+        this.closed = true;
     }
 }
 
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Registra `callback` para cuando la página se oculta o se descarta
+ * (`visibilitychange` → `hidden`, `pagehide`). `pagehide` cubre los
+ * browsers que no emiten `visibilitychange` al cerrar la pestaña.
+ *
+ * @returns Función que quita los listeners, o `null` fuera del browser.
+ */
+function onPageHidden(callback: () => void): (() => void) | null {
+    if (typeof window === 'undefined' || typeof document === 'undefined') return null;
+
+    const onVisibilityChange = (): void => {
+        if (document.visibilityState === 'hidden') callback();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', callback);
+    return () => {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        window.removeEventListener('pagehide', callback);
+    };
+}
+
+/**
+ * Sufijo más largo de `records` cuyo body serializado cabe en `maxBytes`
+ * (búsqueda binaria: el tamaño crece con el número de records). `start` es
+ * el índice donde empieza; `body` es `null` si no cabe ni el último record.
+ */
+function fitNewest(
+    records: TransportRecord[],
+    serialize: (records: TransportRecord[]) => string | Uint8Array<ArrayBuffer>,
+    maxBytes: number
+): { start: number; body: string | Uint8Array<ArrayBuffer> | null } {
+    let low = 0;
+    let high = records.length;
+    let body: string | Uint8Array<ArrayBuffer> | null = null;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const candidate = serialize(records.slice(middle));
+        const size = typeof candidate === 'string' ? new TextEncoder().encode(candidate).length : candidate.length;
+        if (size <= maxBytes) {
+            high = middle;
+            body = candidate;
+        } else {
+            low = middle + 1;
+        }
+    }
+    return { start: low, body };
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+import type { TransportRecord, LogAttributeValue } from '../types/index.js';
+import { HttpTransport, type HttpTransportOptions } from './HttpTransport.js';
+
+/** Campos del record que pueden usarse como label de stream en Loki. */
+export type LokiLabelKey = 'level' | 'prefix' | 'service_name';
+
+/**
+ * Opciones de configuración para {@link LokiTransport}. Hereda batching,
+ * retry/backoff, `compression`, `spill`, `circuitBreaker` y `onError` de
+ * {@link HttpTransportOptions}; la URL se deriva de `endpoint`.
+ */
+export interface LokiTransportOptions extends Omit<HttpTransportOptions, 'url'> {
+    /**
+     * URL base de Loki, p.ej. `http://loki:3100`. El transport hace POST a
+     * `<endpoint>/loki/api/v1/push`.
+     */
+    endpoint: string;
+    /**
+     * Campos del record que forman los labels del stream. Mantén la
+     * cardinalidad baja: cada combinación distinta es un stream en Loki.
+     * Los campos que no son label viajan como structured metadata.
+     * Default `['level', 'service_name']`.
+     */
+    labels?: LokiLabelKey[];
+    /** Labels fijos que se añaden a todos los streams (`env`, `cluster`, ...). */
+    staticLabels?: Record<string, string>;
+    /** `service_name` para records cuyo `resource` no trae `service.name`. */
+    serviceName?: string;
+    /**
+     * Envía `attributes`, trace ids, excepción y los campos que no son label
+     * como structured metadata (tercer elemento de cada entry; requiere
+     * Loki ≥ 3.0 con schema v13). Con `false` solo se envía el mensaje.
+     * Default `true`.
+     */
+    structuredMetadata?: boolean;
+    /** Tenant para Loki multi-tenant (header `X-Scope-OrgID`). */
+    tenantId?: string;
+}
+
+/** Entry de un stream: `[timestamp ns, línea, structured metadata?]`. */
+export type LokiEntry = [string, string] | [string, string, Record<string, string>];
+
+/**
+ * Body de `POST /loki/api/v1/push` (formato JSON).
+ * @see https://grafana.com/docs/loki/latest/reference/loki-http-api/#ingest-logs
+ */
+export interface LokiPushPayload {
+    streams: Array<{
+        stream: Record<string, string>;
+        values: LokiEntry[];
+    }>;
+}
+
+const DEFAULT_LABELS: LokiLabelKey[] = ['level', 'service_name'];
+
+/**
+ * Transport de push para Grafana Loki.
+ *
+ * Extiende {@link HttpTransport} — hereda buffer, retry, spill queue,
+ * circuit breaker y gzip (`compression: 'gzip'`). Overridea el body para
+ * agrupar cada batch en streams por los `labels` configurados, con
+ * timestamps en nanosegundos y `attributes` como structured metadata.
+ *
+ * @example
+ * ```ts
+ * logger.addTransport({
+ *   target: new LokiTransport({
+ *     endpoint: 'http://loki:3100',
+ *     labels: ['level', 'service_name'],
+ *     staticLabels: { env: 'production' },
+ *     serviceName: 'checkout',
+ *     tenantId: 'team-a',
+ *     compression: 'gzip'
+ *   })
+ * });
+ * ```
+ */
+export class LokiTransport extends HttpTransport {
+    override readonly name = 'loki';
+
+    private readonly labelKeys: LokiLabelKey[];
+    private readonly staticLabels: Record<string, string>;
+    private readonly serviceName: string | undefined;
+    private readonly structuredMetadata: boolean;
+    private readonly tenantId: string | undefined;
+
+    constructor(options: LokiTransportOptions) {
+        if (!options.endpoint) {
+            throw new Error('LokiTransport: `endpoint` is required');
+        }
+
+        const { endpoint, labels, staticLabels, serviceName, structuredMetadata, tenantId, ...httpOptions } = options;
+        super({ ...httpOptions, url: `${endpoint.replace(/\/+$/, '')}/loki/api/v1/push` });
+
+        this.labelKeys = labels ?? DEFAULT_LABELS;
+        this.staticLabels = Object.fromEntries(
+            Object.entries(staticLabels ?? {}).map(([key, value]) => [sanitizeName(key), value])
+        );
+        this.serviceName = serviceName;
+        this.structuredMetadata = structuredMetadata ?? true;
+        this.tenantId = tenantId;
+    }
+
+    /**
+     * Agrupa los records en streams: un stream por combinación distinta de
+     * labels, conservando el orden de los records dentro de cada uno.
+     * Expuesto para tests y para subclasses custom de transport.
+     *
+     * @param records - Records del batch.
+     * @returns Payload listo para `JSON.stringify`.
+     */
+    buildPayload(records: TransportRecord[]): LokiPushPayload {
+        const streams = new Map<string, LokiPushPayload['streams'][number]>();
+        for (const record of records) {
+            const labels = this.labelsFor(record);
+            const key = JSON.stringify(labels);
+            let stream = streams.get(key);
+            if (!stream) {
+                stream = { stream: labels, values: [] };
+                streams.set(key, stream);
+            }
+            stream.values.push(this.toEntry(record));
+        }
+        return { streams: [...streams.values()] };
+    }
+
+    /**
+     * Serializa el batch como push JSON de Loki. La compresión la aplica el
+     * transport base.
+     *
+     * @param records - Records del batch.
+     * @returns Body JSON.
+     */
+    protected override serializeBody(records: TransportRecord[]): string {
+        return JSON.stringify(this.buildPayload(records));
+    }
+
+    /**
+     * Headers del push. Agrega `X-Scope-OrgID` si se configuró `tenantId`.
+     *
+     * @returns Record de headers a merguear en el fetch.
+     */
+    protected override buildHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.tenantId ? { 'X-Scope-OrgID': this.tenantId } : {}),
+            ...this.options.headers
+        };
+    }
+
+    private labelsFor(record: TransportRecord): Record<string, string> {
+        const labels: Record<string, string> = { ...this.staticLabels };
+        for (const key of this.labelKeys) {
+            const value = this.fieldValue(record, key);
+            if (value) labels[key] = value;
+        }
+        return labels;
+    }
+
+    private fieldValue(record: TransportRecord, key: LokiLabelKey): string | undefined {
+        switch (key) {
+            case 'level': return record.level;
+            case 'prefix': return record.prefix;
+            case 'service_name': return record.resource?.['service.name'] ?? this.serviceName;
+        }
+    }
+
+    private toEntry(record: TransportRecord): LokiEntry {
+        const timestamp = String(BigInt(record.time) * 1_000_000n);
+        if (!this.structuredMetadata) return [timestamp, record.msg];
+
+        const metadata: Record<string, string> = {};
+        for (const key of ['level', 'prefix', 'service_name'] as const) {
+            if (this.labelKeys.includes(key)) continue;
+            const value = this.fieldValue(record, key);
+            if (value) metadata[key] = value;
+        }
+        if (record.tag) metadata['tag'] = record.tag;
+        if (record.traceId) metadata['trace_id'] = record.traceId;
+        if (record.spanId) metadata['span_id'] = record.spanId;
+        if (record.exception) {
+            metadata['exception_type'] = record.exception.type;
+            metadata['exception_message'] = record.exception.message;
+            if (record.exception.stacktrace) metadata['exception_stacktrace'] = record.exception.stacktrace;
+        }
+        for (const [key, value] of Object.entries(record.attributes ?? {})) {
+            flattenAttribute(metadata, sanitizeName(key), value);
+        }
+
+        return Object.keys(metadata).length > 0 ? [timestamp, record.msg, metadata] : [timestamp, record.msg];
+    }
+}
+
+// ===== Internal helpers =====
+
+/** Loki solo acepta nombres `[a-zA-Z_][a-zA-Z0-9_]*` (`service.name` → `service_name`). */
+function sanitizeName(name: string): string {
+    const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+    return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Structured metadata es un mapa plano de strings: los structs se aplanan
+ * con `_` (`user.id` → `user_id`), arrays y bytes se serializan a JSON /
+ * hex y `null` se omite.
+ */
+function flattenAttribute(out: Record<string, string>, key: string, value: LogAttributeValue): void {
+    if (value === null) return;
+    if (value instanceof Uint8Array) {
+        out[key] = Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('');
+    } else if (Array.isArray(value)) {
+        out[key] = JSON.stringify(value);
+    } else if (typeof value === 'object') {
+        for (const [child, childValue] of Object.entries(value)) {
+            flattenAttribute(out, `${key}_${sanitizeName(child)}`, childValue);
+        }
+    } else {
+        out[key] = String(value);
+    }
+}
@@ -5,7 +5,11 @@ import type {
     ILogResource
 } from '../types/index.js';
 import { LOG_LEVEL_TO_SEVERITY_NUMBER } from '../types/index.js';
+import { PACKAGE_VERSION } from '../constants.js';
 import { HttpTransport, type HttpTransportOptions } from './HttpTransport.js';
+import type { SpillQueueOptions } from './SpillQueue.js';
+import type { CircuitBreakerOptions } from './CircuitBreaker.js';
+import { encodeExportLogsRequest } from './otlpProtobuf.js';
 
 /**
  * Opciones de configuración para {@link OtlpTransport}.
@@ -48,6 +52,19 @@ export interface OtlpTransportOptions {
     maxBackoffMs?: number;
     /** Timeout por fetch en ms. Default 10_000. */
     fetchTimeoutMs?: number;
+    /**
+     * Wire format del body: OTLP/JSON (`application/json`) o protobuf
+     * (`application/x-protobuf`, varias veces más chico). Default `'json'`.
+     */
+    encoding?: 'json' | 'protobuf';
+    /** Compresión del body (`Content-Encoding: gzip`). Default `'none'`. */
+    compression?: 'gzip' | 'none';
+    /** Spill queue durable para outages del collector. Ver {@link HttpTransportOptions.spill}. */
+    spill?: SpillQueueOptions;
+    /** Circuit breaker ante collector caído. Ver {@link HttpTransportOptions.circuitBreaker}. */
+    circuitBreaker?: CircuitBreakerOptions;
+    /** Entrega con `sendBeacon` / keepalive al ocultarse la página. Ver {@link HttpTransportOptions.flushOnUnload}. */
+    flushOnUnload?: boolean;
     /** Hook que se dispara ante falla del transport (drop, agotamiento de reintentos, ...). */
     onError?: (entry: HookLogEntry) => void | Promise<void>;
 }
@@ -57,7 +74,7 @@ export interface OtlpTransportOptions {
  * del proto `LogsData` para `/v1/logs`. Ver
  * https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
  */
-interface OtlpLogsPayload {
+export interface OtlpLogsPayload {
     resourceLogs: Array<{
         resource: {
             attributes: Array<{ key: string; value: { stringValue: string } }>;
@@ -78,29 +95,37 @@ interface OtlpLogsPayload {
  * formato `LogRecord` definido por la spec OTel Logs.
  * @see https://opentelemetry.io/docs/specs/otel/logs/data-model/
  */
-interface OtlpLogRecord {
+export interface OtlpLogRecord {
     timeUnixNano: string;
     observedTimeUnixNano: string;
     severityNumber: number;
     severityText: string;
     body: { stringValue: string };
-    attributes?: Array<{ key: string; value: OtlpAttributeValue }>;
+    attributes?: OtlpKeyValue[];
     traceId?: string;
     spanId?: string;
 }
 
 /**
  * Unión discriminada que representa un `AnyValue` de OTel para atributos de
- * log. Soporta string, int, double, bool y arrays anidados (homogéneos o
- * mixtos).
+ * log. Soporta string, int, double, bool, bytes (base64 en el JSON mapping),
+ * arrays anidados (homogéneos o mixtos) y structs (`kvlistValue`).
  * @see https://opentelemetry.io/docs/specs/otel/common/
  */
-type OtlpAttributeValue =
+export type OtlpAttributeValue =
     | { stringValue: string }
     | { intValue: number }
     | { doubleValue: number }
     | { boolValue: boolean }
-    | { arrayValue: { values: OtlpAttributeValue[] } };
+    | { bytesValue: string }
+    | { arrayValue: { values: OtlpAttributeValue[] } }
+    | { kvlistValue: { values: OtlpKeyValue[] } };
+
+/** Par `KeyValue` de OTel (atributos de resource y de log record). */
+export interface OtlpKeyValue {
+    key: string;
+    value: OtlpAttributeValue;
+}
 
 /**
  * Transport OTLP/HTTP para SigNoz (o cualquier backend compatible con OTLP).
@@ -126,6 +151,7 @@ export class OtlpTransport extends HttpTransport {
     override readonly name = 'otlp';
 
     private readonly resource: ILogResource;
+    private readonly encoding: 'json' | 'protobuf';
     /** Resuelto al construir. Nunca se loguea, nunca se escribe a source. */
     private readonly ingestKeyValue: string | undefined;
 
@@ -152,6 +178,10 @@ export class OtlpTransport extends HttpTransport {
             initialBackoffMs: options.initialBackoffMs,
             maxBackoffMs: options.maxBackoffMs,
             fetchTimeoutMs: options.fetchTimeoutMs,
+            compression: options.compression,
+            spill: options.spill,
+            circuitBreaker: options.circuitBreaker,
+            flushOnUnload: options.flushOnUnload,
             onError: options.onError
         };
 
@@ -164,6 +194,7 @@ export class OtlpTransport extends HttpTransport {
             ...(options.resourceAttributes ?? {})
         };
         this.ingestKeyValue = ingestKey;
+        this.encoding = options.encoding ?? 'json';
     }
 
     /**
@@ -188,7 +219,7 @@ export class OtlpTransport extends HttpTransport {
                         {
                             scope: {
                                 name: 'better-logger',
-                                version: '5.1.0'
+                                version: PACKAGE_VERSION
                             },
                             logRecords: records.map(r => this.toLogRecord(r))
                         }
@@ -199,14 +230,17 @@ export class OtlpTransport extends HttpTransport {
     }
 
     /**
-     * Serializa un batch al body JSON del request OTLP/HTTP. Override de
-     * {@link HttpTransport.serializeBody}.
+     * Serializa un batch al body del request OTLP/HTTP según `encoding`:
+     * JSON o `ExportLogsServiceRequest` protobuf. Override de
+     * {@link HttpTransport.serializeBody}; la compresión la aplica el
+     * transport base.
      *
      * @param records - Records del batch a serializar.
-     * @returns String JSON listo para usar como `body` del fetch POST.
+     * @returns String JSON o bytes protobuf para el `body` del fetch POST.
      */
-    protected override serializeBody(records: TransportRecord[]): string {
-        return JSON.stringify(this.buildPayload(records));
+    protected override serializeBody(records: TransportRecord[]): string | Uint8Array<ArrayBuffer> {
+        const payload = this.buildPayload(records);
+        return this.encoding === 'protobuf' ? encodeExportLogsRequest(payload) : JSON.stringify(payload);
     }
 
     /**
@@ -217,7 +251,7 @@ export class OtlpTransport extends HttpTransport {
      */
     protected override buildHeaders(): Record<string, string> {
         return {
-            'Content-Type': 'application/json',
+            'Content-Type': this.encoding === 'protobuf' ? 'application/x-protobuf' : 'application/json',
             ...(this.ingestKeyValue ? { 'signoz-ingestion-key': this.ingestKeyValue } : {}),
             ...(this.options.headers ?? {})
         };
@@ -273,8 +307,8 @@ function readIngestKey(envVarName: string | undefined): string | undefined {
     return value;
 }
 
-function collectAttributes(record: TransportRecord): Array<{ key: string; value: OtlpAttributeValue }> {
-    const out: Array<{ key: string; value: OtlpAttributeValue }> = [];
+function collectAttributes(record: TransportRecord): OtlpKeyValue[] {
+    const out: OtlpKeyValue[] = [];
 
     if (record.prefix) {
         out.push({ key: 'logger.prefix', value: { stringValue: record.prefix } });
@@ -290,6 +324,15 @@ function collectAttributes(record: TransportRecord): Array<{ key: string; value:
         }
     }
 
+    if (record.exception) {
+        // Semantic conventions de OTel para excepciones en logs
+        out.push({ key: 'exception.type', value: { stringValue: record.exception.type } });
+        out.push({ key: 'exception.message', value: { stringValue: record.exception.message } });
+        if (record.exception.stacktrace) {
+            out.push({ key: 'exception.stacktrace', value: { stringValue: record.exception.stacktrace } });
+        }
+    }
+
     if (record.attributes) {
         for (const [key, value] of Object.entries(record.attributes)) {
             const mapped = toOtlpAttribute(value);
@@ -308,6 +351,7 @@ function toOtlpAttribute(value: unknown): OtlpAttributeValue | null {
         return { doubleValue: value };
     }
     if (typeof value === 'boolean') return { boolValue: value };
+    if (value instanceof Uint8Array) return { bytesValue: toBase64(value) };
     if (Array.isArray(value)) {
         return {
             arrayValue: {
@@ -317,5 +361,25 @@ function toOtlpAttribute(value: unknown): OtlpAttributeValue | null {
             }
         };
     }
+    if (typeof value === 'object' && isPlainObject(value)) {
+        const values: OtlpKeyValue[] = [];
+        for (const [key, child] of Object.entries(value)) {
+            const mapped = toOtlpAttribute(child);
+            if (mapped) values.push({ key, value: mapped });
+        }
+        return { kvlistValue: { values } };
+    }
     return { stringValue: JSON.stringify(value) };
+}
+
+function isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value) as unknown;
+    return proto === Object.prototype || proto === null;
+}
+
+/** Bytes → base64, como exige el JSON mapping de OTLP para `bytesValue`. */
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]!);
+    return btoa(binary);
 }
\ No newline at end of file
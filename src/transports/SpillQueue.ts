@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Spill queue durable para {@link HttpTransport}: los batches
+ * que agotan los reintentos se persisten (segment files en Node, IndexedDB
+ * en browser) y se re-envían en orden cuando el endpoint vuelve.
+ */
+
+import type { TransportRecord } from '../types/index.js';
+import { isNodeLike, sanitiseNodePath, loadNodeFsPromises } from './nodeFs.js';
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DIRECTORY = '.better-logger-spill';
+const DEFAULT_DB_NAME = 'better-logger-spill';
+const IDB_STORE = 'segments';
+const SEGMENT_NAME = /^(\d+)-(\d+)-(\d+)\.json$/;
+
+/**
+ * Configuración de la spill queue de {@link HttpTransport} /
+ * {@link OtlpTransport}.
+ *
+ * Cada transport necesita su propio `directory` / `dbName`: dos transports
+ * sobre el mismo almacenamiento se re-enviarían los batches mutuamente.
+ *
+ * @example
+ * new HttpTransport({
+ *   url: 'https://logs.example.com/ingest',
+ *   spill: { directory: 'var/log-spill', maxBytes: 100 * 1024 * 1024, maxAgeMs: 6 * 60 * 60 * 1000 }
+ * });
+ */
+export interface SpillQueueOptions {
+    /**
+     * Node: directorio (relativo al cwd) donde se escriben los segmentos.
+     * Las rutas absolutas o con `..` se rechazan, igual que en
+     * {@link FileTransport}. Default `.better-logger-spill/<transport.name>`.
+     */
+    directory?: string;
+    /** Browser: nombre de la base IndexedDB. Default `better-logger-spill:<transport.name>`. */
+    dbName?: string;
+    /** Tope de bytes persistidos. Al superarlo se descartan los segmentos más viejos. Default 50 MiB. */
+    maxBytes?: number;
+    /** Edad máxima de un segmento en ms; los más viejos se descartan sin enviar. Default 24 h. */
+    maxAgeMs?: number;
+}
+
+/** Motivo por el que la spill queue descartó records. */
+export type SpillDropReason = 'maxBytes' | 'maxAge' | 'unreadable';
+
+/** Metadatos de un segmento (un batch fallido). */
+interface SpillSegment {
+    /** Secuencia monotónica: define el orden de replay. */
+    id: number;
+    createdAt: number;
+    count: number;
+    bytes: number;
+}
+
+/** Backend de almacenamiento de segmentos. */
+interface SpillStore {
+    list(): Promise<SpillSegment[]>;
+    read(segment: SpillSegment): Promise<TransportRecord[]>;
+    write(segment: SpillSegment, payload: string): Promise<void>;
+    remove(segment: SpillSegment): Promise<void>;
+}
+
+/**
+ * Cola FIFO de batches persistidos. Un segmento por batch; el índice vive en
+ * memoria y se reconstruye desde el almacenamiento la primera vez que se usa,
+ * así que los segmentos que dejó un proceso anterior también se re-envían.
+ *
+ * Las operaciones no son reentrantes: el caller ({@link HttpTransport})
+ * las serializa.
+ */
+export class SpillQueue {
+    private readonly maxBytes: number;
+    private readonly maxAgeMs: number;
+    private segments: SpillSegment[] | null = null;
+    private nextId = 1;
+
+    /**
+     * @param store - Backend de segmentos.
+     * @param options - Topes de bytes y edad.
+     * @param onDrop - Se invoca cuando un tope (o un segmento ilegible) descarta records.
+     */
+    constructor(
+        private readonly store: SpillStore,
+        options: SpillQueueOptions,
+        private readonly onDrop: (count: number, reason: SpillDropReason) => void
+    ) {
+        this.maxBytes = options.maxBytes !== undefined && options.maxBytes > 0 ? options.maxBytes : DEFAULT_MAX_BYTES;
+        this.maxAgeMs = options.maxAgeMs !== undefined && options.maxAgeMs > 0 ? options.maxAgeMs : DEFAULT_MAX_AGE_MS;
+    }
+
+    /**
+     * Crea la queue con el backend del runtime: segment files en Node,
+     * IndexedDB en browser.
+     *
+     * @param options - Configuración de la queue.
+     * @param name - Nombre del transport; separa el almacenamiento por defecto.
+     * @param onDrop - Ver constructor.
+     * @returns La queue, o `null` si el runtime no tiene almacenamiento
+     *   durable (o `directory` fue rechazado por el saneador).
+     */
+    static create(
+        options: SpillQueueOptions,
+        name: string,
+        onDrop: (count: number, reason: SpillDropReason) => void
+    ): SpillQueue | null {
+        if (isNodeLike()) {
+            const directory = sanitiseNodePath(options.directory ?? `${DEFAULT_DIRECTORY}/${name}`);
+            return directory ? new SpillQueue(new NodeSegmentStore(directory), options, onDrop) : null;
+        }
+        if (typeof indexedDB !== 'undefined') {
+            const store = new IndexedDbSegmentStore(options.dbName ?? `${DEFAULT_DB_NAME}:${name}`);
+            return new SpillQueue(store, options, onDrop);
+        }
+        return null;
+    }
+
+    /** Records persistidos pendientes de replay (0 hasta el primer uso). */
+    get pendingRecords(): number {
+        return (this.segments ?? []).reduce((total, segment) => total + segment.count, 0);
+    }
+
+    /**
+     * Persiste un batch al final de la queue y aplica los topes.
+     *
+     * @param records - Batch que agotó los reintentos.
+     * @throws Si el almacenamiento falla; el caller decide el fallback.
+     */
+    async push(records: TransportRecord[]): Promise<void> {
+        const segments = await this.load();
+        const payload = JSON.stringify(records);
+        const segment: SpillSegment = {
+            id: this.nextId++,
+            createdAt: Date.now(),
+            count: records.length,
+            bytes: new TextEncoder().encode(payload).length
+        };
+        if (segment.bytes > this.maxBytes) {
+            this.onDrop(segment.count, 'maxBytes');
+            return;
+        }
+        await this.store.write(segment, payload);
+        segments.push(segment);
+        await this.enforceCaps(segments);
+    }
+
+    /**
+     * Re-envía los segmentos en orden, del más viejo al más nuevo. Cada
+     * segmento se borra solo después de que `send` lo da por terminado; al
+     * primer fallo se detiene y el resto queda para el próximo replay.
+     *
+     * @param send - Entrega un batch; `true` si el segmento puede borrarse
+     *   (entregado o rechazado definitivamente).
+     * @returns `true` si la queue quedó vacía.
+     */
+    async replay(send: (records: TransportRecord[]) => Promise<boolean>): Promise<boolean> {
+        const segments = await this.load();
+        await this.enforceCaps(segments);
+
+        while (segments.length > 0) {
+            const segment = segments[0]!;
+            let records: TransportRecord[] | null;
+            try {
+                records = await this.store.read(segment);
+            } catch {
+                records = null;
+            }
+            if (records === null) {
+                this.onDrop(segment.count, 'unreadable');
+            } else if (!(await send(records))) {
+                return false;
+            }
+            await this.store.remove(segment);
+            segments.shift();
+        }
+        return true;
+    }
+
+    private async load(): Promise<SpillSegment[]> {
+        if (this.segments) return this.segments;
+        const segments = await this.store.list();
+        segments.sort((a, b) => a.id - b.id);
+        this.nextId = (segments.at(-1)?.id ?? 0) + 1;
+        this.segments = segments;
+        return segments;
+    }
+
+    private async enforceCaps(segments: SpillSegment[]): Promise<void> {
+        const cutoff = Date.now() - this.maxAgeMs;
+        while (segments.length > 0 && segments[0]!.createdAt < cutoff) {
+            await this.discard(segments, 'maxAge');
+        }
+        let total = segments.reduce((sum, segment) => sum + segment.bytes, 0);
+        while (segments.length > 0 && total > this.maxBytes) {
+            total -= segments[0]!.bytes;
+            await this.discard(segments, 'maxBytes');
+        }
+    }
+
+    private async discard(segments: SpillSegment[], reason: SpillDropReason): Promise<void> {
+        const segment = segments.shift()!;
+        await this.store.remove(segment);
+        this.onDrop(segment.count, reason);
+    }
+}
+
+// ===== Backends =====
+
+/**
+ * Un fichero por segmento: `<id>-<createdAt>-<count>.json`, con el id
+ * zero-padded para que el listado ordene igual que la secuencia. La
+ * escritura pasa por un `.tmp` + `rename` para que un crash a mitad no deje
+ * un segmento truncado.
+ *
+ * @internal
+ */
+class NodeSegmentStore implements SpillStore {
+    constructor(private readonly directory: string) {}
+
+    async list(): Promise<SpillSegment[]> {
+        const fsPromises = await loadNodeFsPromises();
+        await fsPromises.mkdir(this.directory, { recursive: true });
+        const segments: SpillSegment[] = [];
+        for (const name of await fsPromises.readdir(this.directory)) {
+            const match = SEGMENT_NAME.exec(name);
+            if (!match) continue;
+            const { size } = await fsPromises.stat(`${this.directory}/${name}`);
+            segments.push({ id: Number(match[1]), createdAt: Number(match[2]), count: Number(match[3]), bytes: size });
+        }
+        return segments;
+    }
+
+    async read(segment: SpillSegment): Promise<TransportRecord[]> {
+        const fsPromises = await loadNodeFsPromises();
+        return JSON.parse(await fsPromises.readFile(this.path(segment), 'utf8')) as TransportRecord[];
+    }
+
+    async write(segment: SpillSegment, payload: string): Promise<void> {
+        const fsPromises = await loadNodeFsPromises();
+        const path = this.path(segment);
+        await fsPromises.mkdir(this.directory, { recursive: true });
+        await fsPromises.writeFile(`${path}.tmp`, payload, 'utf8');
+        await fsPromises.rename(`${path}.tmp`, path);
+    }
+
+    async remove(segment: SpillSegment): Promise<void> {
+        const fsPromises = await loadNodeFsPromises();
+        await fsPromises.rm(this.path(segment), { force: true });
+    }
+
+    private path(segment: SpillSegment): string {
+        return `${this.directory}/${String(segment.id).padStart(12, '0')}-${segment.createdAt}-${segment.count}.json`;
+    }
+}
+
+interface IdbSegmentRow extends SpillSegment {
+    payload: string;
+}
+
+/**
+ * Un object store `segments` con keyPath `id`. Cada operación corre en su
+ * propia transacción y resuelve en `oncomplete`, cuando ya es durable.
+ *
+ * @internal
+ */
+class IndexedDbSegmentStore implements SpillStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly dbName: string) {}
+
+    async list(): Promise<SpillSegment[]> {
+        const rows = await this.run('readonly', store => store.getAll() as IDBRequest<IdbSegmentRow[]>);
+        return rows.map(({ id, createdAt, count, bytes }) => ({ id, createdAt, count, bytes }));
+    }
+
+    async read(segment: SpillSegment): Promise<TransportRecord[]> {
+        const row = await this.run('readonly', store => store.get(segment.id) as IDBRequest<IdbSegmentRow | undefined>);
+        if (!row) throw new Error(`Spill segment ${segment.id} not found`);
+        return JSON.parse(row.payload) as TransportRecord[];
+    }
+
+    async write(segment: SpillSegment, payload: string): Promise<void> {
+        const row: IdbSegmentRow = { ...segment, payload };
+        await this.run('readwrite', store => store.put(row));
+    }
+
+    async remove(segment: SpillSegment): Promise<void> {
+        await this.run('readwrite', store => store.delete(segment.id));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(this.dbName, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(IDB_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error(`Cannot open IndexedDB "${this.dbName}"`));
+        }).catch(error => {
+            this.db = null;
+            throw error;
+        });
+        return this.db;
+    }
+
+    private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(IDB_STORE, mode);
+            const request = operation(transaction.objectStore(IDB_STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+            transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+        });
+    }
+}
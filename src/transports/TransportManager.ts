@@ -4,13 +4,18 @@ import type {
     TransportOptions,
     ITransport,
     ITransportManager,
-    LogLevel
+    LogLevel,
+    SamplingStats,
+    TransportHealth
 } from '../types/index.js';
 import { LOG_LEVELS } from '../types/index.js';
+import { Sampler } from '../sampling/index.js';
 import { ConsoleTransport } from './ConsoleTransport.js';
 import { FileTransport } from './FileTransport.js';
 import { HttpTransport } from './HttpTransport.js';
 import { OtlpTransport } from './OtlpTransport.js';
+import { LokiTransport } from './LokiTransport.js';
+import { ElasticsearchTransport } from './ElasticsearchTransport.js';
 
 /**
  * Genera un id opaco y estable en el tiempo para cada transport añadido al
@@ -24,6 +29,18 @@ function generateTransportId(): string {
     return `transport-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/**
+ * Salud de un transport del set activo, tal como la devuelve
+ * {@link TransportManager.getHealth}.
+ */
+export interface TransportHealthEntry {
+    /** Id devuelto por {@link TransportManager.add}. */
+    id: string;
+    /** `ITransport.name` (`'http'`, `'otlp'`, ...). */
+    name: string;
+    health: TransportHealth;
+}
+
 /**
  * Firma del constructor de los transports registrados en el registry
  * built-in. Acepta el tipo propio de options del transport; el pass-through
@@ -37,11 +54,13 @@ export type TransportConstructor = new (options?: TransportOptions) => ITranspor
  * se añaden al registry por-instancia vía {@link TransportManager.register}
  * (no a este Map módulo-nivel).
  *
- * Los cuatro built-ins registrados automáticamente:
+ * Los built-ins registrados automáticamente:
  *   - `'console'` → {@link ConsoleTransport}
  *   - `'file'`    → {@link FileTransport}
  *   - `'http'`    → {@link HttpTransport}
  *   - `'otlp'`    → {@link OtlpTransport}
+ *   - `'loki'`    → {@link LokiTransport}
+ *   - `'elasticsearch'` → {@link ElasticsearchTransport}
  *
  * @internal No exportado — los callers externos usan
  *   {@link TransportManager.register} / {@link TransportManager.listRegistered}.
@@ -50,7 +69,9 @@ const BUILTIN_REGISTRY: Map<string, TransportConstructor> = new Map([
     ['console', ConsoleTransport as unknown as TransportConstructor],
     ['file', FileTransport as unknown as TransportConstructor],
     ['http', HttpTransport as unknown as TransportConstructor],
-    ['otlp', OtlpTransport as unknown as TransportConstructor]
+    ['otlp', OtlpTransport as unknown as TransportConstructor],
+    ['loki', LokiTransport as unknown as TransportConstructor],
+    ['elasticsearch', ElasticsearchTransport as unknown as TransportConstructor]
 ]);
 
 /**
@@ -66,6 +87,8 @@ interface TransportEntry {
     options: TransportOptions;
     level: LogLevel;
     levelValue: number;
+    /** Sampler de `options.sampling`, si el transport lo configura. */
+    sampler?: Sampler;
 }
 
 /**
@@ -76,8 +99,8 @@ interface TransportEntry {
  *
  * Cada transport added se identifica por un `id` opaco (generado por la
  * propia instancia) que devuelven {@link add} y {@link list}, y que acepta
- * {@link remove}. El registry arranca con los cuatro built-ins
- * (`console` / `file` / `http` / `otlp`) ya cargados; {@link register}
+ * {@link remove}. El registry arranca con los built-ins
+ * (`console` / `file` / `http` / `otlp` / `loki` / `elasticsearch`) ya cargados; {@link register}
  * añade customs sin poder sobreescribir los built-ins (lanza).
  *
  * El dispatch ({@link write}) aplica el filtro de `level` por transport y
@@ -142,7 +165,7 @@ export class TransportManager implements ITransportManager {
      * las options pasadas.
      *
      * No se puede sobreescribir un built-in (`console` / `file` / `http` /
-     * `otlp`): lanza para evitar silenciar un transport crítico por un
+     * `otlp` / `loki` / `elasticsearch`): lanza para evitar silenciar un transport crítico por un
      * accidente de naming. El registro es por-instancia (no comparte entre
      * managers).
      *
@@ -169,12 +192,12 @@ export class TransportManager implements ITransportManager {
      * Lista los nombres de transports registrados en esta instancia
      * (built-ins + customs añadidos vía {@link register}).
      *
-     * @returns {string[]} Nombres registrados. Incluye siempre los cuatro
+     * @returns {string[]} Nombres registrados. Incluye siempre los
      *   built-ins.
      *
      * @example
-     * tm.register('loki', LokiTransport);
-     * tm.listRegistered(); // ['console', 'file', 'http', 'otlp', 'loki']
+     * tm.register('datadog', DatadogTransport);
+     * tm.listRegistered(); // ['console', 'file', 'http', 'otlp', 'loki', 'elasticsearch', 'datadog']
      */
     listRegistered(): string[] {
         return [...this.registry.keys()];
@@ -241,7 +264,8 @@ export class TransportManager implements ITransportManager {
             transport,
             options: target.options || {},
             level,
-            levelValue: LOG_LEVELS[level]
+            levelValue: LOG_LEVELS[level],
+            sampler: target.options?.sampling ? new Sampler(target.options.sampling) : undefined
         };
 
         this.transports.set(id, entry);
@@ -284,10 +308,13 @@ export class TransportManager implements ITransportManager {
      * Por cada transport, en orden:
      *   1. **Filtro de nivel**: si `record.levelValue < entry.levelValue`,
      *      se skipa (ese transport no recibe este record).
-     *   2. **Transform**: si `entry.options.transform` está seteado, se
+     *   2. **Sampling**: si el transport tiene `options.sampling`, su
+     *      sampler decide si el record se conserva (y lo cuenta; ver
+     *      {@link getSamplingStats}).
+     *   3. **Transform**: si `entry.options.transform` está seteado, se
      *      aplica al record. Si devuelve `null`, el record se droppea para
      *      este transport (no para los demás).
-     *   3. **Write**: se llama a `transport.write(transformedRecord)`. Si
+     *   4. **Write**: se llama a `transport.write(transformedRecord)`. Si
      *      devuelve una Promise, se añade al batch await. Toda excepción
      *      sincrónica o rechazo de Promise se captura y se loguea por
      *      consola — el log call original del caller nunca rompe por un
@@ -317,6 +344,10 @@ export class TransportManager implements ITransportManager {
                 continue;
             }
 
+            if (entry.sampler && !entry.sampler.shouldKeep(record)) {
+                continue;
+            }
+
             let transformedRecord: TransportRecord = record;
             if (entry.options.transform) {
                 const result = entry.options.transform(record);
@@ -429,6 +460,46 @@ export class TransportManager implements ITransportManager {
         this.transports.clear();
     }
 
+    /**
+     * Contadores de sampling de un transport con `options.sampling`, para
+     * extrapolar el volumen real en dashboards.
+     *
+     * @param {string} id - Id devuelto por {@link add}.
+     * @returns {SamplingStats | undefined} Contadores, o `undefined` si el
+     *   transport no existe o no samplea.
+     *
+     * @example
+     * const { kept, dropped } = tm.getSamplingStats(otlpId) ?? { kept: 0, dropped: 0 };
+     */
+    getSamplingStats(id: string): SamplingStats | undefined {
+        return this.transports.get(id)?.sampler?.stats();
+    }
+
+    /**
+     * Salud de los transports activos que implementan `getHealth()`
+     * (los de red: {@link HttpTransport}, {@link OtlpTransport}). Un
+     * `getHealth()` que lanza se omite en vez de romper al caller.
+     *
+     * @returns {TransportHealthEntry[]} Una entrada por transport, en orden de alta.
+     *
+     * @example
+     * for (const { name, health } of tm.getHealth()) {
+     *     if (health.state !== 'closed') console.warn(`${name}: circuit ${health.state}`);
+     * }
+     */
+    getHealth(): TransportHealthEntry[] {
+        const entries: TransportHealthEntry[] = [];
+        for (const { id, transport } of this.transports.values()) {
+            if (!transport.getHealth) continue;
+            try {
+                entries.push({ id, name: transport.name, health: transport.getHealth() });
+            } catch {
+                // Best-effort: un transport roto no debe tumbar `/status`.
+            }
+        }
+        return entries;
+    }
+
     /**
      * Número de transports actualmente en el set activo.
      *
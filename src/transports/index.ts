@@ -1,5 +1,9 @@
-export { TransportManager } from './TransportManager.js';
+export { TransportManager, type TransportHealthEntry } from './TransportManager.js';
 export { ConsoleTransport } from './ConsoleTransport.js';
-export { FileTransport, type FileTransportOptions } from './FileTransport.js';
+export { FileTransport, type FileTransportOptions, type FileRotationOptions } from './FileTransport.js';
 export { HttpTransport, type HttpTransportOptions } from './HttpTransport.js';
 export { OtlpTransport, type OtlpTransportOptions } from './OtlpTransport.js';
+export { LokiTransport, type LokiTransportOptions, type LokiLabelKey, type LokiPushPayload, type LokiEntry } from './LokiTransport.js';
+export { ElasticsearchTransport, type ElasticsearchTransportOptions, type EcsDocument, type BulkFailure } from './ElasticsearchTransport.js';
+export type { SpillQueueOptions, SpillDropReason } from './SpillQueue.js';
+export type { CircuitBreakerOptions } from './CircuitBreaker.js';
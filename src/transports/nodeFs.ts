@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Helpers Node-only compartidos por los transports que tocan
+ * disco ({@link FileTransport} y la spill queue de {@link HttpTransport}):
+ * detección de runtime, saneado de rutas y el dynamic import cacheado de
+ * `node:fs/promises`.
+ */
+
+const FS_PROMISES_LOAD_TIMEOUT_MS = 50;
+
+/**
+ * Detecta si el runtime es Node comprobando `process.versions.node`.
+ *
+ * @internal Dispatch Node/browser dentro de los transports.
+ * @returns {boolean} `true` si corre sobre Node.
+ */
+export function isNodeLike(): boolean {
+    return typeof process !== 'undefined'
+        && process.versions != null
+        && process.versions.node != null;
+}
+
+/**
+ * Rechaza rutas que escapan del working directory. Permite rutas relativas
+ * bajo `cwd/`. Las rutas absolutas se rechazan a propósito — si un caller
+ * necesita una ubicación absoluta, debe usar un escape hatch documentado
+ * (no expuesto aquí).
+ *
+ * @internal
+ * @param {string} input - Ruta cruda pedida por el caller.
+ * @returns {string | null} Ruta saneada, o `null` si se rechaza por traversal.
+ */
+export function sanitiseNodePath(input: string): string | null {
+    if (!input) return null;
+    const normalised = input.replace(/\\/g, '/').trim();
+    if (normalised.length === 0) return null;
+    if (normalised.startsWith('/') || /^[a-zA-Z]:\//.test(normalised)) return null;
+    const segments = normalised.split('/').filter(s => s.length > 0 && s !== '.');
+    if (segments.some(s => s === '..' || s === '~')) return null;
+    return segments.join('/');
+}
+
+/**
+ * Dynamic import cacheado de `node:fs/promises`. La caché es intencionadamente
+ * module-scoped para que los flushes posteriores no paguen el coste del import.
+ * Además corre el import contra un timeout corto (`FS_PROMISES_LOAD_TIMEOUT_MS`)
+ * para que un entorno Node roto (bindings nativos corruptos) no bloquee el
+ * transport indefinidamente.
+ *
+ * @internal
+ * @returns {Promise<typeof import('node:fs/promises')>} Módulo `fs/promises` resuelto.
+ * @throws {Error} Si el import excede el timeout o el módulo no está disponible.
+ */
+let _fsPromisesPromise: Promise<typeof import('node:fs/promises')> | null = null;
+
+export async function loadNodeFsPromises(): Promise<typeof import('node:fs/promises')> {
+    if (_fsPromisesPromise) return _fsPromisesPromise;
+
+    // Pone el dynamic import a competir contra un timeout corto para que
+    // un entorno Node colgado (bindings nativos corruptos, etc.) no
+    // bloquee el transport indefinidamente.
+    const importPromise = import('node:fs/promises');
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error(`fs/promises import timed out after ${FS_PROMISES_LOAD_TIMEOUT_MS}ms`)), FS_PROMISES_LOAD_TIMEOUT_MS);
+    });
+    _fsPromisesPromise = Promise.race([importPromise, timeoutPromise]).catch(err => {
+        _fsPromisesPromise = null;
+        throw err;
+    }) as Promise<typeof import('node:fs/promises')>;
+    return _fsPromisesPromise;
+}
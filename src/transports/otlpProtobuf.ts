@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Encoder protobuf mínimo para `ExportLogsServiceRequest`
+ * (OTLP/HTTP con `Content-Type: application/x-protobuf`), escrito a mano
+ * para no arrastrar `protobufjs` ni el SDK de OTel.
+ *
+ * Parte del mismo payload que {@link OtlpTransport.buildPayload} (el JSON
+ * mapping de OTLP) y lo traduce al wire format, así que ambos encodings
+ * comparten el mapeo de records.
+ *
+ * Field numbers según `opentelemetry/proto/collector/logs/v1/logs_service.proto`,
+ * `logs/v1/logs.proto`, `common/v1/common.proto` y `resource/v1/resource.proto`.
+ */
+
+import type {
+    OtlpLogsPayload,
+    OtlpLogRecord,
+    OtlpAttributeValue,
+    OtlpKeyValue
+} from './OtlpTransport.js';
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LEN = 2;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Writer de wire format protobuf sobre un `Uint8Array` que crece por
+ * duplicación. Solo cubre los tipos que usa OTLP logs.
+ */
+class ProtoWriter {
+    private buf = new Uint8Array(256);
+    private pos = 0;
+
+    /** Varint; los negativos se escriben en complemento a dos (int64). */
+    varint(value: number | bigint): this {
+        let v = BigInt.asUintN(64, BigInt(value));
+        this.ensure(10);
+        while (v > 0x7fn) {
+            this.buf[this.pos++] = Number(v & 0x7fn) | 0x80;
+            v >>= 7n;
+        }
+        this.buf[this.pos++] = Number(v);
+        return this;
+    }
+
+    tag(field: number, wireType: number): this {
+        return this.varint((field << 3) | wireType);
+    }
+
+    bytes(field: number, value: Uint8Array): this {
+        this.tag(field, WIRE_LEN).varint(value.length);
+        this.ensure(value.length);
+        this.buf.set(value, this.pos);
+        this.pos += value.length;
+        return this;
+    }
+
+    string(field: number, value: string): this {
+        return this.bytes(field, textEncoder.encode(value));
+    }
+
+    fixed64(field: number, value: bigint): this {
+        this.tag(field, WIRE_FIXED64);
+        this.ensure(8);
+        new DataView(this.buf.buffer).setBigUint64(this.pos, BigInt.asUintN(64, value), true);
+        this.pos += 8;
+        return this;
+    }
+
+    double(field: number, value: number): this {
+        this.tag(field, WIRE_FIXED64);
+        this.ensure(8);
+        new DataView(this.buf.buffer).setFloat64(this.pos, value, true);
+        this.pos += 8;
+        return this;
+    }
+
+    /** Sub-mensaje length-delimited. */
+    message(field: number, write: (writer: ProtoWriter) => void): this {
+        const nested = new ProtoWriter();
+        write(nested);
+        return this.bytes(field, nested.finish());
+    }
+
+    finish(): Uint8Array<ArrayBuffer> {
+        return this.buf.slice(0, this.pos);
+    }
+
+    private ensure(extra: number): void {
+        if (this.pos + extra <= this.buf.length) return;
+        let size = this.buf.length * 2;
+        while (size < this.pos + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.buf.subarray(0, this.pos));
+        this.buf = next;
+    }
+}
+
+/**
+ * Codifica un payload OTLP logs (JSON mapping) como
+ * `ExportLogsServiceRequest` protobuf.
+ *
+ * @param payload - Resultado de `OtlpTransport.buildPayload()`.
+ * @returns Bytes listos para el body del POST a `/v1/logs`.
+ */
+export function encodeExportLogsRequest(payload: OtlpLogsPayload): Uint8Array<ArrayBuffer> {
+    const writer = new ProtoWriter();
+    for (const resourceLogs of payload.resourceLogs) {
+        // ExportLogsServiceRequest.resource_logs = 1
+        writer.message(1, rl => {
+            // ResourceLogs.resource = 1 → Resource.attributes = 1
+            rl.message(1, resource => {
+                resourceLogs.resource.attributes.forEach(kv => resource.message(1, w => writeKeyValue(w, kv)));
+            });
+            for (const scopeLogs of resourceLogs.scopeLogs) {
+                // ResourceLogs.scope_logs = 2
+                rl.message(2, sl => {
+                    // ScopeLogs.scope = 1 → InstrumentationScope { name = 1, version = 2 }
+                    sl.message(1, scope => {
+                        scope.string(1, scopeLogs.scope.name);
+                        if (scopeLogs.scope.version) scope.string(2, scopeLogs.scope.version);
+                    });
+                    // ScopeLogs.log_records = 2
+                    scopeLogs.logRecords.forEach(record => sl.message(2, w => writeLogRecord(w, record)));
+                });
+            }
+        });
+    }
+    return writer.finish();
+}
+
+// ===== Internal helpers =====
+
+function writeLogRecord(writer: ProtoWriter, record: OtlpLogRecord): void {
+    writer.fixed64(1, BigInt(record.timeUnixNano));
+    if (record.severityNumber) writer.tag(2, WIRE_VARINT).varint(record.severityNumber);
+    if (record.severityText) writer.string(3, record.severityText);
+    writer.message(5, w => writeAnyValue(w, record.body));
+    record.attributes?.forEach(kv => writer.message(6, w => writeKeyValue(w, kv)));
+    const traceId = hexToBytes(record.traceId, 16);
+    if (traceId) writer.bytes(9, traceId);
+    const spanId = hexToBytes(record.spanId, 8);
+    if (spanId) writer.bytes(10, spanId);
+    writer.fixed64(11, BigInt(record.observedTimeUnixNano));
+}
+
+function writeKeyValue(writer: ProtoWriter, kv: OtlpKeyValue): void {
+    writer.string(1, kv.key);
+    writer.message(2, w => writeAnyValue(w, kv.value));
+}
+
+/**
+ * `AnyValue` oneof: string = 1, bool = 2, int = 3, double = 4, array = 5,
+ * kvlist = 6, bytes = 7.
+ */
+function writeAnyValue(writer: ProtoWriter, value: OtlpAttributeValue): void {
+    if ('stringValue' in value) {
+        writer.string(1, value.stringValue);
+    } else if ('boolValue' in value) {
+        writer.tag(2, WIRE_VARINT).varint(value.boolValue ? 1 : 0);
+    } else if ('intValue' in value) {
+        writer.tag(3, WIRE_VARINT).varint(value.intValue);
+    } else if ('doubleValue' in value) {
+        writer.double(4, value.doubleValue);
+    } else if ('arrayValue' in value) {
+        // ArrayValue.values = 1
+        writer.message(5, array => {
+            value.arrayValue.values.forEach(item => array.message(1, w => writeAnyValue(w, item)));
+        });
+    } else if ('kvlistValue' in value) {
+        // KeyValueList.values = 1
+        writer.message(6, list => {
+            value.kvlistValue.values.forEach(kv => list.message(1, w => writeKeyValue(w, kv)));
+        });
+    } else {
+        writer.bytes(7, fromBase64(value.bytesValue));
+    }
+}
+
+function fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const out = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+    return out;
+}
+
+function hexToBytes(hex: string | undefined, length: number): Uint8Array | undefined {
+    if (!hex || hex.length !== length * 2 || !/^[0-9a-f]+$/i.test(hex)) return undefined;
+    const out = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return out;
+}
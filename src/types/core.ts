@@ -1,3 +1,7 @@
+import type { RedactionConfig } from './serializers.js';
+import type { SamplingConfig } from './sampling.js';
+import type { DedupConfig } from './dedup.js';
+
 /**
  * Niveles de log soportados en orden jerárquico
  * (trace < debug < info < warn < error < critical)
@@ -152,6 +156,26 @@ export interface OutputWriter {
     flush?(): void;
 }
 
+/**
+ * Trace context W3C / OTel con el que se correlaciona un record
+ * (`TransportRecord.traceId` / `spanId`).
+ */
+export interface TraceContext {
+    /** Trace id hex de 32 chars. */
+    traceId: string;
+    /** Span id hex de 16 chars. */
+    spanId: string;
+    /** Trace flags W3C (bit 0 = sampled). */
+    traceFlags?: number;
+}
+
+/**
+ * Provider pluggable del trace context activo. Se invoca en cada record
+ * despachado a los transports; devolver `undefined` cede a las demás fuentes
+ * (contexto bound, span activo de `@opentelemetry/api`).
+ */
+export type TraceContextProvider = () => TraceContext | undefined;
+
 /**
  * Shape mínima de recurso OTel — duplicada aquí para evitar un import
  * circular con `./transports.js`. El `ILogResource` canónico vive en
@@ -194,6 +218,10 @@ export interface LoggerConfig {
     enableStackTrace: boolean;
     theme?: ThemeVariant;
     bannerType?: BannerType;
+    /**
+     * Capacidad del historial en memoria (`logger.getHistory()`): últimos N
+     * records emitidos. `0` lo desactiva.
+     */
     bufferSize?: number;
     autoDetectTheme?: boolean;
     outputFormat?: OutputFormat;
@@ -208,6 +236,28 @@ export interface LoggerConfig {
      * Se setea una vez por proceso (service.name, service.version, deployment.environment).
      */
     resource?: Partial<ILogResourceRef>;
+    /**
+     * Fuente custom de `traceId` / `spanId` para cada record. Tiene prioridad
+     * sobre el `traceparent` bound en el contexto y sobre el span activo de
+     * `@opentelemetry/api`.
+     */
+    traceContextProvider?: TraceContextProvider;
+    /**
+     * Redacción declarativa de PII (paths glob + detectores regex). Se aplica
+     * a `HookLogEntry.args`, al mensaje renderizado y a
+     * `TransportRecord.attributes`. Ver {@link RedactionConfig}.
+     */
+    redact?: RedactionConfig;
+    /**
+     * Sampling de los records que llegan a los transports (el historial en
+     * memoria y la consola no se samplean). Ver {@link SamplingConfig}.
+     */
+    sampling?: SamplingConfig;
+    /**
+     * Colapsa mensajes idénticos repetidos dentro de una ventana en un
+     * resumen con `attributes.repeatCount`. Opt-in. Ver {@link DedupConfig}.
+     */
+    dedup?: DedupConfig;
 }
 
 /**
@@ -0,0 +1,25 @@
+import type { LogLevel } from './core.js';
+
+/**
+ * Supresión de mensajes duplicados (`LoggerConfig.dedup`).
+ *
+ * Los records con el mismo nivel, prefijo, tag y mensaje (el primer
+ * argumento del log, sin los args extra) dentro de la ventana se colapsan:
+ * el primero se emite normal, los siguientes se cuentan y al cerrar la
+ * ventana se emite un único resumen
+ * (`"… repeated 1,284 times in 30s"`) con `attributes.repeatCount`.
+ *
+ * @example
+ * new Logger({ dedup: { windowMs: 10_000, levels: ['warn', 'error'] } });
+ */
+export interface DedupConfig {
+    /** Duración de la ventana, contada desde el primer record. @default 30000 */
+    windowMs?: number;
+    /** Niveles a deduplicar. @default todos */
+    levels?: LogLevel[];
+    /**
+     * Máximo de keys con ventana abierta; al superarlo se cierra la más
+     * vieja (emitiendo su resumen si tuvo repeticiones). @default 1000
+     */
+    maxKeys?: number;
+}
@@ -0,0 +1,42 @@
+import type { LogLevel } from './core.js';
+import type { LogAttributeValue } from './transports.js';
+
+/**
+ * Filtro para consultar el historial en memoria del logger
+ * (`logger.getHistory(query)`). Todos los criterios son opcionales y se
+ * combinan con AND; sin criterios se devuelve el historial completo.
+ *
+ * @example
+ * // Los últimos 50 warn+ del scope DB en los últimos 5 minutos
+ * logger.getHistory({
+ *   minLevel: 'warn',
+ *   prefix: 'DB',
+ *   since: Date.now() - 5 * 60_000,
+ *   limit: 50
+ * });
+ */
+export interface LogHistoryQuery {
+    /** Nivel mínimo (inclusive). */
+    minLevel?: LogLevel;
+    /** Nivel máximo (inclusive). */
+    maxLevel?: LogLevel;
+    /** Conjunto exacto de niveles admitidos (se combina con el rango). */
+    levels?: LogLevel[];
+    /**
+     * Prefijo o scope. Un string matchea (case-insensitive) el prefijo
+     * completo, cualquiera de sus segmentos `a:b:c`, o el badge de scope
+     * (`[DB]`) con el que arranca el mensaje de un scoped logger. Un RegExp
+     * se prueba contra el prefijo y contra cada scope.
+     */
+    prefix?: string | RegExp;
+    /** Inicio de la ventana temporal (epoch ms o `Date`, inclusive). */
+    since?: number | Date;
+    /** Fin de la ventana temporal (epoch ms o `Date`, inclusive). */
+    until?: number | Date;
+    /** Atributos de contexto que deben coincidir por valor. */
+    attributes?: Record<string, LogAttributeValue>;
+    /** Texto (substring case-insensitive) o RegExp a buscar en el mensaje. */
+    search?: string | RegExp;
+    /** Devuelve solo los N registros más recientes que pasen el filtro. */
+    limit?: number;
+}
@@ -143,5 +143,5 @@ export interface IHookManager {
     off(event: HookEvent, callback: HookCallback): boolean;
     use(middleware: MiddlewareFn, priority?: number): () => void;
     emit(event: HookEvent, entry: HookLogEntry): Promise<HookLogEntry>;
-    process(entry: HookLogEntry): Promise<HookLogEntry>;
+    process(entry: HookLogEntry, dispatch?: (entry: HookLogEntry) => void | Promise<void>): Promise<HookLogEntry>;
 }
@@ -11,6 +11,7 @@ export type {
     DevToolsTheme,
     BannerType,
     OutputFormat,
+    ExportFormat,
     LoggerConfig,
     StackInfo,
     TimerEntry,
@@ -35,6 +36,8 @@ export type {
     IBoxOptions,
     ITableOptions,
     ILogResourceRef,
+    TraceContext,
+    TraceContextProvider,
 } from './core.js';
 
 export { LOG_LEVELS, SUCCESS_LEVEL } from './core.js';
@@ -52,6 +55,10 @@ export type {
     SerializerEntry,
     SerializerConfig,
     ISerializerRegistry,
+    RedactionConfig,
+    RedactionStrategy,
+    RedactionDetectorName,
+    RedactionPattern,
 } from './serializers.js';
 
 // Hook types
@@ -76,8 +83,29 @@ export type {
     ILogResource,
     ILogAttributes,
     LogAttributeValue,
+    ILogException,
+    CircuitState,
+    TransportHealth,
 } from './transports.js';
 
+// History types
+export type {
+    LogHistoryQuery,
+} from './history.js';
+
+// Sampling types
+export type {
+    SamplingConfig,
+    RateLimitPolicy,
+    SamplingDropReason,
+    SamplingStats,
+} from './sampling.js';
+
+// Dedup types
+export type {
+    DedupConfig,
+} from './dedup.js';
+
 export {
     LOG_LEVEL_TO_SEVERITY_NUMBER,
     LOG_LEVEL_TO_SEVERITY_TEXT,
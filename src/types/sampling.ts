@@ -0,0 +1,66 @@
+import type { LogLevel } from './core.js';
+import type { TransportRecord } from './transports.js';
+
+/**
+ * Token bucket por key: cada key (por defecto el prefijo del record) puede
+ * emitir `burst` records de golpe y recupera `perSecond` tokens por segundo.
+ */
+export interface RateLimitPolicy {
+    /** Records por segundo sostenidos por key. */
+    perSecond: number;
+    /** Capacidad del bucket. @default perSecond */
+    burst?: number;
+    /**
+     * Key del bucket. @default el prefijo del record (`''` sin prefijo).
+     * Devolver `undefined` exime al record del rate limit.
+     */
+    key?: (record: TransportRecord) => string | undefined;
+}
+
+/**
+ * Política de sampling (`LoggerConfig.sampling` o
+ * `TransportOptions.sampling`). Las reglas se evalúan en orden:
+ *
+ * 1. Niveles de `bypassLevels` → siempre se conservan.
+ * 2. Records con `traceId` y `traceRatio` definido → decisión determinista
+ *    por trace: o se conservan todos los logs del trace o ninguno.
+ * 3. Resto → `rates[level]` (probabilístico).
+ * 4. Lo que sobrevive pasa por `rateLimit`.
+ *
+ * @example
+ * {
+ *   rates: { trace: 0, debug: 0.1, info: 0.5 },
+ *   traceRatio: 0.25,
+ *   rateLimit: { perSecond: 50, burst: 100 }
+ * }
+ */
+export interface SamplingConfig {
+    /** Ratio (0-1) de records conservados por nivel. Niveles ausentes: 1. */
+    rates?: Partial<Record<LogLevel, number>>;
+    /**
+     * Ratio (0-1) de traces conservados. La decisión se deriva del propio
+     * `traceId`, así que es la misma para todos los logs del trace (y en
+     * todos los procesos que usen el mismo ratio).
+     */
+    traceRatio?: number;
+    /** Rate limit por key (token bucket). */
+    rateLimit?: RateLimitPolicy;
+    /** Niveles que nunca se samplean. @default ['error', 'critical'] */
+    bypassLevels?: LogLevel[];
+}
+
+/** Motivo por el que un record quedó fuera. */
+export type SamplingDropReason = 'ratio' | 'trace' | 'rateLimit';
+
+/**
+ * Contadores de un sampler, para extrapolar volúmenes reales en dashboards
+ * (`kept + dropped` = records evaluados).
+ */
+export interface SamplingStats {
+    kept: number;
+    dropped: number;
+    /** Conservados y descartados por nivel. */
+    levels: Partial<Record<LogLevel, { kept: number; dropped: number }>>;
+    /** Descartados por motivo. */
+    reasons: Record<SamplingDropReason, number>;
+}
@@ -100,3 +100,59 @@ export interface ISerializerRegistry {
     serialize(value: any, config?: SerializerConfig): any;
     getAll(): SerializerEntry[];
 }
+
+/**
+ * Estrategia con la que se redacta un valor sensible:
+ * - `'mask'` — reemplaza el valor por el censor (`'[REDACTED]'` por defecto).
+ * - `'hash'` — reemplaza el valor por un SHA-256 truncado (`'[hash:…]'`), de
+ *   modo que el mismo valor siempre produce el mismo token y se puede
+ *   correlacionar sin exponerlo.
+ * - `'remove'` — elimina la key (paths) o el fragmento detectado (strings).
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'remove';
+
+/** Detectores builtin de PII que se buscan dentro de los strings. */
+export type RedactionDetectorName = 'email' | 'creditCard' | 'jwt' | 'bearer';
+
+/**
+ * Detector custom: cada match de `pattern` dentro de un string se redacta.
+ * El flag `g` se añade si falta.
+ */
+export interface RedactionPattern {
+    name: string;
+    pattern: RegExp;
+}
+
+/**
+ * Configuración del motor de redacción de PII
+ * (`LoggerConfig.redact` o `SerializerRegistry.setRedaction()`).
+ *
+ * @example
+ * const logger = new Logger({
+ *   redact: {
+ *     paths: ['user.password', '*.token', 'headers.authorization'],
+ *     detectors: ['email', 'creditCard', 'jwt', 'bearer'],
+ *     strategy: 'mask'
+ *   }
+ * });
+ */
+export interface RedactionConfig {
+    /**
+     * Paths (case-insensitive) cuyos valores se redactan completos. Segmentos
+     * separados por `.`; `*` matchea exactamente un segmento (key o índice de
+     * array) y `**` cero o más. Se evalúan desde la raíz de cada argumento
+     * del log y desde la raíz de `TransportRecord.attributes`.
+     */
+    paths?: string[];
+    /**
+     * Detectores aplicados a todos los strings (argumentos, attributes y
+     * mensaje renderizado). Default: todos los builtin. `[]` los desactiva.
+     */
+    detectors?: Array<RedactionDetectorName | RedactionPattern>;
+    /** @default 'mask' */
+    strategy?: RedactionStrategy;
+    /** Texto de reemplazo de la estrategia `mask`. @default '[REDACTED]' */
+    censor?: string;
+    /** Salt que se antepone al valor antes de hashearlo (estrategia `hash`). */
+    hashSalt?: string;
+}
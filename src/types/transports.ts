@@ -1,4 +1,5 @@
 import type { LogLevel, LogTag, StackInfo } from './core.js';
+import type { SamplingConfig } from './sampling.js';
 
 /**
  * Mapea un `LogLevel` a la severidad numérica de OpenTelemetry (1-24) usada
@@ -42,10 +43,18 @@ export interface ILogResource {
 
 /**
  * Valor admitido en un {@link ILogAttributes}: unión recursiva de primitivos
- * serializables (string, number, boolean, null), arrays y structs anidados.
- * Compatible con el modelo de attribute value de OpenTelemetry.
+ * serializables (string, number, boolean, null), bytes, arrays y structs
+ * anidados. Compatible con el modelo `AnyValue` de OpenTelemetry (los
+ * structs viajan como `kvlistValue` y los bytes como `bytesValue`).
  */
-export type LogAttributeValue = string | number | boolean | null | LogAttributeValue[] | { [k: string]: LogAttributeValue };
+export type LogAttributeValue =
+    | string
+    | number
+    | boolean
+    | null
+    | Uint8Array
+    | LogAttributeValue[]
+    | { [k: string]: LogAttributeValue };
 
 /**
  * Bag estructurado de atributos (compatible con OpenTelemetry). Cada clave
@@ -55,6 +64,20 @@ export interface ILogAttributes {
     [key: string]: LogAttributeValue;
 }
 
+/**
+ * Error asociado a un record, con la forma de las semantic conventions
+ * `exception.*` de OpenTelemetry. Lo completa el Logger cuando uno de los
+ * argumentos del log es un `Error` (p.ej. `logger.error(err)`).
+ */
+export interface ILogException {
+    /** `exception.type` — nombre de la clase del error (`TypeError`, ...). */
+    type: string;
+    /** `exception.message`. */
+    message: string;
+    /** `exception.stacktrace` — `error.stack` completo, si existe. */
+    stacktrace?: string;
+}
+
 /**
  * Payload enviado a cada transport en cada llamada a `log()`. Los campos son
  * deliberadamente explícitos (sin escape hatch `[key: string]: any`) para que
@@ -92,6 +115,8 @@ export interface TransportRecord {
     resource?: Partial<ILogResource>;
     /** Tag especial "success" — lo setea `Logger.success()`. */
     tag?: LogTag;
+    /** Primer `Error` de los argumentos del log, si lo hay. */
+    exception?: ILogException;
 }
 
 /**
@@ -107,13 +132,15 @@ export interface TransportOptions {
     flushInterval?: number;
     /** Tope duro de records en buffer. Los más antiguos se descartan al desbordar. */
     maxBufferSize?: number;
+    /** Sampling propio de este transport, aplicado tras el del Logger. */
+    sampling?: SamplingConfig;
 }
 
 /**
  * Registro de un transport. `target` puede ser:
  *   - Una instancia de `ITransport` (legacy / inline).
  *   - Un string registrado en el registry built-in de `TransportManager`
- *     (`'console' | 'file' | 'http' | 'otlp'`).
+ *     (`'console' | 'file' | 'http' | 'otlp' | 'loki' | 'elasticsearch'`).
  */
 export interface TransportTarget {
     target: string | ITransport;
@@ -121,6 +148,32 @@ export interface TransportTarget {
     level?: LogLevel;
 }
 
+/**
+ * Estado del circuit breaker de un transport de red: `closed` envía normal,
+ * `open` corta los envíos tras N fallos consecutivos y `half-open` deja
+ * pasar un batch de prueba cuando termina el cooldown.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Snapshot de salud de un transport (`ITransport.getHealth()`), pensado
+ * para `/status` y health checks.
+ */
+export interface TransportHealth {
+    /** Estado del circuit breaker (`closed` si el transport no tiene). */
+    state: CircuitState;
+    /** Requests entregadas (`2xx`). */
+    successCount: number;
+    /** Requests fallidas (red, timeout, `4xx`, `5xx`), contando cada reintento. */
+    failureCount: number;
+    /** Fallos de red / `5xx` seguidos; se resetea con cualquier respuesta `2xx` / `4xx`. */
+    consecutiveFailures: number;
+    /** Records pendientes de entrega (buffer en memoria + spill queue). */
+    queuedRecords: number;
+    /** Último error observado, con su epoch en ms. */
+    lastError?: { message: string; time: number };
+}
+
 /**
  * Contrato mínimo que todo transport debe satisfacer.
  */
@@ -130,6 +183,7 @@ export interface ITransport {
     flush?(): void | Promise<void>;
     close?(): void | Promise<void>;
     isReady?(): boolean;
+    getHealth?(): TransportHealth;
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview gzip vía `CompressionStream` (Web Streams), disponible en
+ * browsers modernos, Node ≥ 18, Bun y Deno sin dependencias ni imports de
+ * `node:zlib`.
+ */
+
+/**
+ * Indica si el runtime expone `CompressionStream`.
+ *
+ * @returns `true` si {@link gzip} puede comprimir.
+ */
+export function canGzip(): boolean {
+    return typeof CompressionStream !== 'undefined' && typeof Blob !== 'undefined' && typeof Response !== 'undefined';
+}
+
+/**
+ * Comprime `data` con gzip.
+ *
+ * @param data - Body a comprimir (los strings se codifican en UTF-8).
+ * @returns Bytes comprimidos, o `null` si el runtime no soporta
+ *   `CompressionStream` (el caller envía el body sin comprimir).
+ *
+ * @example
+ * const compressed = await gzip(JSON.stringify(payload));
+ * if (compressed) headers['Content-Encoding'] = 'gzip';
+ */
+export async function gzip(data: string | Uint8Array): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!canGzip()) return null;
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
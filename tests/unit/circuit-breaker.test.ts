@@ -0,0 +1,117 @@
+/**
+ * Circuit breaker tests — CircuitBreaker state machine (closed → open →
+ * half-open probe → closed/open) and HttpTransport integration: the circuit
+ * stops retries and network calls after N consecutive failures, isReady()
+ * and getHealth() expose it, and a probe batch closes it after the cooldown.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/transports/CircuitBreaker.js';
+import { HttpTransport } from '../../src/transports/HttpTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const record: TransportRecord = {
+    level: 'error', levelValue: 3, severityNumber: 17, severityText: 'ERROR', time: Date.now(), msg: 'boom'
+};
+
+describe('CircuitBreaker', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('opens after failureThreshold consecutive failures and probes once after the cooldown', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+        expect(breaker.recordFailure()).toBe(false);
+        breaker.recordSuccess();
+        expect(breaker.recordFailure()).toBe(false);
+        expect(breaker.recordFailure()).toBe(true);
+        expect(breaker.state).toBe('open');
+        expect(breaker.tryAcquire()).toBe(false);
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.tryAcquire()).toBe(false);
+
+        expect(breaker.recordFailure()).toBe(true);
+        expect(breaker.state).toBe('open');
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.tryAcquire()).toBe(true);
+        breaker.recordSuccess();
+        expect(breaker.state).toBe('closed');
+    });
+});
+
+describe('HttpTransport circuit breaker', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        delete (global as Record<string, unknown>).fetch;
+        cleanup();
+    });
+
+    it('stops hitting a dead endpoint and reports health', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        let status = 503;
+        const fetchMock = vi.fn(async () => ({ ok: status === 200, status, statusText: '' }) as Response);
+        global.fetch = fetchMock as typeof fetch;
+        const errors: HookLogEntry[] = [];
+        const transport = new HttpTransport({
+            url: 'https://logs.example.com/ingest',
+            maxRetries: 5,
+            initialBackoffMs: 1,
+            circuitBreaker: { failureThreshold: 3, cooldownMs: 10_000 },
+            onError: e => errors.push(e)
+        });
+
+        transport.write(record);
+        await transport.flush();
+        // Opens on the third attempt instead of burning all six.
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(transport.isReady()).toBe(false);
+        expect(errors.map(e => e.message)).toContain('HttpTransport circuit opened after 3 consecutive failures');
+        expect(transport.getHealth()).toEqual({
+            state: 'open',
+            successCount: 0,
+            failureCount: 3,
+            consecutiveFailures: 3,
+            queuedRecords: 1,
+            lastError: { message: 'HTTP 503', time: Date.now() }
+        });
+
+        // Open: the batch stays buffered without touching the network.
+        await transport.flush();
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+
+        // Half-open: a single probe, no retries; failure re-opens.
+        vi.advanceTimersByTime(10_000);
+        expect(transport.getHealth().state).toBe('half-open');
+        expect(transport.isReady()).toBe(true);
+        await transport.flush();
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+        expect(transport.getHealth().state).toBe('open');
+
+        vi.advanceTimersByTime(10_000);
+        status = 200;
+        await transport.flush();
+        expect(transport.getHealth()).toMatchObject({
+            state: 'closed', successCount: 1, consecutiveFailures: 0, queuedRecords: 0
+        });
+    });
+
+    it('is off unless configured', async () => {
+        const fetchMock = vi.fn(async () => { throw new Error('ECONNREFUSED'); });
+        global.fetch = fetchMock as typeof fetch;
+        const transport = new HttpTransport({
+            url: 'https://logs.example.com/ingest',
+            maxRetries: 6,
+            initialBackoffMs: 1
+        });
+        transport.write(record);
+        await transport.flush();
+        expect(fetchMock).toHaveBeenCalledTimes(7);
+        expect(transport.getHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 7 });
+    });
+});
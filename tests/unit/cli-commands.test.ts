@@ -1,14 +1,16 @@
 /**
- * CLI commands unit tests — StatusCommand, ResetCommand, DemoCommand.
- * Verifies: safe execution with no transports, reset clears config,
- * demo runs without throwing.
+ * CLI commands unit tests — StatusCommand, ResetCommand, DemoCommand, ExportCommand.
+ * Verifies: safe execution with no transports, transport health in /status, reset clears config,
+ * demo runs without throwing, export writes filtered history to a file.
  *
  *
  */
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFile, rm } from 'node:fs/promises';
 import { Logger } from '../../src/Logger.js';
 import { cleanup } from '../setup.js';
-import { StatusCommand, ResetCommand, DemoCommand } from '../../src/cli/commands/ExportCommand.js';
+import { StatusCommand, ResetCommand, DemoCommand, ExportCommand } from '../../src/cli/commands/ExportCommand.js';
+import { createDefaultCLI } from '../../src/cli/index.js';
 
 describe('CLI Commands', () => {
     let logger: Logger;
@@ -44,6 +46,16 @@ describe('CLI Commands', () => {
             expect(() => cmd.execute('', logger)).not.toThrow();
         });
 
+        it('execute lists network transport health', () => {
+            logger.addTransport({ target: 'http', options: { url: 'https://logs.example.com/ingest' } });
+            const table = vi.spyOn(logger, 'table');
+            new StatusCommand().execute('', logger);
+            // `queued` includes the /status output itself, which also reaches the transport.
+            expect(table).toHaveBeenLastCalledWith([
+                { transport: 'http', circuit: 'closed', ok: 0, failed: 0, queued: expect.any(Number), lastError: '—' }
+            ]);
+        });
+
         it('execute returns void', () => {
             const cmd = new StatusCommand();
             const result = cmd.execute('', logger);
@@ -124,4 +136,78 @@ describe('CLI Commands', () => {
             expect(new DemoCommand().description.length).toBeGreaterThan(0);
         });
     });
+
+    describe('ExportCommand', () => {
+        const FIXED_NOW = new Date('2026-10-18T12:00:00.000Z');
+        const fileFor = (ext: string): string => `better-logger-2026-10-18T12-00-00-000Z${ext}`;
+        let exportLogger: Logger;
+
+        beforeEach(() => {
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(FIXED_NOW);
+            exportLogger = new Logger({ verbosity: 'debug', outputMode: 'silent' });
+        });
+
+        afterEach(async () => {
+            vi.useRealTimers();
+            for (const ext of ['.json', '.csv', '.md', '.txt', '.html']) {
+                await rm(fileFor(ext), { force: true });
+            }
+        });
+
+        it('name is "export" and it is registered in the default CLI', () => {
+            expect(new ExportCommand().name).toBe('export');
+            expect(createDefaultCLI().getCommand('export')).toBeInstanceOf(ExportCommand);
+        });
+
+        it('writes the history to a file in Node, filtered by --level', async () => {
+            await exportLogger.info('routine');
+            await exportLogger.error('boom, "quoted"');
+            await exportLogger.warn('careful');
+
+            await new ExportCommand().execute('csv --level error,warn', exportLogger);
+
+            const csv = await readFile(fileFor('.csv'), 'utf8');
+            expect(csv).toContain('"boom, ""quoted"""');
+            expect(csv).toContain('careful');
+            expect(csv).not.toContain('routine');
+        });
+
+        it('filters by --since with a relative duration', async () => {
+            vi.setSystemTime(new Date(FIXED_NOW.getTime() - 2 * 60 * 60 * 1000));
+            await exportLogger.info('two hours ago');
+            vi.setSystemTime(FIXED_NOW);
+            await exportLogger.info('just now');
+
+            await new ExportCommand().execute('md --since=1h', exportLogger);
+
+            const md = await readFile(fileFor('.md'), 'utf8');
+            expect(md).toContain('just now');
+            expect(md).not.toContain('two hours ago');
+        });
+
+        it('does not include its own confirmation message in the export', async () => {
+            await exportLogger.info('only entry');
+            await new ExportCommand().execute('json', exportLogger);
+
+            const records = JSON.parse(await readFile(fileFor('.json'), 'utf8')) as Array<{ msg: string }>;
+            expect(records.map(r => r.msg)).toEqual(['only entry']);
+        });
+
+        it('reports an invalid format or flag without writing a file', async () => {
+            const errorSpy = vi.spyOn(exportLogger, 'error');
+
+            await new ExportCommand().execute('xml', exportLogger);
+            await new ExportCommand().execute('csv --level loud', exportLogger);
+            await new ExportCommand().execute('csv --since yesterday-ish', exportLogger);
+            // Object.prototype keys are neither formats nor levels.
+            await new ExportCommand().execute('constructor', exportLogger);
+            await new ExportCommand().execute('csv --level __proto__,constructor', exportLogger);
+
+            expect(errorSpy).toHaveBeenCalledTimes(5);
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid export format: "constructor"'));
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid level(s): __proto__, constructor'));
+            await expect(readFile(fileFor('.csv'), 'utf8')).rejects.toThrow();
+        });
+    });
 });
@@ -0,0 +1,113 @@
+/**
+ * Dedup unit tests — Deduplicator windows per level+prefix+message, summary
+ * formatting, level filter and maxKeys eviction; plus LoggerConfig.dedup
+ * collapsing console output and transport records into one record followed
+ * by a "repeated N times" summary carrying attributes.repeatCount.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Deduplicator, formatRepeatSummary, type DedupSummary } from '../../src/dedup/index.js';
+import { Logger } from '../../src/Logger.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import type { OutputWriter } from '../../src/types/core.js';
+import { cleanup } from '../setup.js';
+
+describe('Deduplicator', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        cleanup();
+    });
+
+    it('admits the first record and counts duplicates until the window closes', () => {
+        vi.useFakeTimers();
+        const summaries: DedupSummary<string>[] = [];
+        const dedup = new Deduplicator<string>({ windowMs: 1000 }, s => summaries.push(s));
+        const warn = { level: 'warn' as const, prefix: 'DB', msg: 'connection reset' };
+
+        expect(dedup.admit(warn, 'first')).toBe(true);
+        expect(dedup.admit(warn, 'second')).toBe(false);
+        expect(dedup.admit(warn, 'third')).toBe(false);
+        expect(dedup.admit({ ...warn, prefix: 'API' }, 'other prefix')).toBe(true);
+        expect(dedup.admit({ ...warn, level: 'error' }, 'other level')).toBe(true);
+
+        vi.advanceTimersByTime(1000);
+        expect(summaries).toEqual([{ payload: 'first', count: 2, durationMs: 1000 }]);
+        expect(dedup.size).toBe(0);
+        expect(dedup.admit(warn, 'next window')).toBe(true);
+    });
+
+    it('only dedups the configured levels', () => {
+        const dedup = new Deduplicator<string>({ levels: ['warn'] }, () => {});
+        const info = { level: 'info' as const, msg: 'tick' };
+        expect([dedup.admit(info, ''), dedup.admit(info, '')]).toEqual([true, true]);
+        dedup.dispose();
+    });
+
+    it('flush() emits pending summaries; maxKeys closes the oldest window', () => {
+        const summaries: DedupSummary<string>[] = [];
+        const dedup = new Deduplicator<string>({ maxKeys: 1 }, s => summaries.push(s));
+        dedup.admit({ level: 'warn', msg: 'a' }, 'a');
+        dedup.admit({ level: 'warn', msg: 'a' }, 'a');
+        dedup.admit({ level: 'warn', msg: 'b' }, 'b');
+        expect(summaries.map(s => s.payload)).toEqual(['a']);
+
+        dedup.admit({ level: 'warn', msg: 'b' }, 'b');
+        dedup.flush();
+        expect(summaries.map(s => [s.payload, s.count])).toEqual([['a', 1], ['b', 1]]);
+    });
+
+    it('formats the summary message', () => {
+        expect(formatRepeatSummary('retrying', 1284, 30_000)).toBe('retrying … repeated 1,284 times in 30s');
+        expect(formatRepeatSummary('retrying', 1, 250)).toBe('retrying … repeated 1 time in 250ms');
+    });
+});
+
+describe('Logger dedup', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        cleanup();
+    });
+
+    it('collapses console output and transport records, then emits a summary', async () => {
+        vi.useFakeTimers();
+        const output: string[] = [];
+        const writer: OutputWriter = { write(message: string) { output.push(message); } };
+        const written: TransportRecord[] = [];
+        const logger = new Logger({ outputMode: 'custom', outputWriter: writer, dedup: { windowMs: 30_000 } });
+        logger.addTransport({ target: { name: 'capture', write: r => { written.push(r); } } });
+
+        await logger.withContextAsync({ requestId: 'r-1' }, async () => {
+            for (let i = 0; i < 5; i++) await logger.warn('upstream flapping', { attempt: i });
+        });
+        await logger.info('unrelated');
+
+        expect(written.map(r => r.msg)).toEqual(['upstream flapping', 'unrelated']);
+        expect(output.filter(line => line.includes('upstream flapping'))).toHaveLength(1);
+
+        vi.advanceTimersByTime(30_000);
+
+        const summary = written.at(-1);
+        expect(summary).toMatchObject({
+            level: 'warn',
+            msg: 'upstream flapping … repeated 4 times in 30s',
+            attributes: { requestId: 'r-1', repeatCount: 4 }
+        });
+        expect(output.at(-1)).toContain('repeated 4 times in 30s');
+        expect(logger.getHistory().at(-1)?.attributes?.repeatCount).toBe(4);
+    });
+
+    it('flushTransports() emits pending summaries; disabling dedup stops collapsing', async () => {
+        const written: TransportRecord[] = [];
+        const logger = new Logger({ outputMode: 'silent', dedup: {} });
+        logger.addTransport({ target: { name: 'capture', write: r => { written.push(r); } } });
+
+        await logger.error('disk full');
+        await logger.error('disk full');
+        await logger.flushTransports();
+        expect(written.map(r => r.attributes?.repeatCount)).toEqual([undefined, 1]);
+
+        logger.updateConfig({ dedup: undefined });
+        await logger.error('disk full');
+        await logger.error('disk full');
+        expect(written).toHaveLength(4);
+    });
+});
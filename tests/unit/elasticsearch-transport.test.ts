@@ -0,0 +1,153 @@
+/**
+ * ElasticsearchTransport tests — batches POSTed to a local mock cluster as
+ * `_bulk` NDJSON with date-pattern index names and ECS documents
+ * (@timestamp, log.level, message, service.name, trace.id, code.*, error.*);
+ * per-item bulk errors are reported via onError with the failing documents,
+ * and 5xx responses go through the inherited retry/backoff.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ElasticsearchTransport, type BulkFailure } from '../../src/transports/ElasticsearchTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T23:59:59.500Z');
+
+function record(overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: TIME, msg: 'hello', ...overrides
+    };
+}
+
+describe('ElasticsearchTransport', () => {
+    let server: Server;
+    let node: string;
+    const received: Array<{ url?: string; headers: IncomingHttpHeaders; lines: unknown[] }> = [];
+    let respond: (lines: unknown[]) => { status: number; body: unknown } = () => ({ status: 200, body: { errors: false, items: [] } });
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk as Buffer));
+            req.on('end', () => {
+                const text = Buffer.concat(chunks).toString('utf8');
+                const lines = text.split('\n').filter(Boolean).map(line => JSON.parse(line) as unknown);
+                received.push({ url: req.url, headers: req.headers, lines });
+                const { status, body } = respond(lines);
+                res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        node = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    afterEach(() => {
+        received.length = 0;
+        respond = () => ({ status: 200, body: { errors: false, items: [] } });
+        cleanup();
+    });
+
+    it('sends NDJSON _bulk requests with ECS documents and date-pattern indices', async () => {
+        const transport = new ElasticsearchTransport({
+            node,
+            index: 'logs-%{+yyyy.MM.dd}',
+            apiKey: 'abc123',
+            serviceName: 'checkout'
+        });
+        transport.write(record({
+            level: 'error',
+            msg: 'payment failed',
+            prefix: 'Billing',
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: '00f067aa0ba902b7',
+            location: { file: 'src/pay.ts', line: 42, column: 7, function: 'charge' },
+            exception: { type: 'TypeError', message: 'card is undefined', stacktrace: 'TypeError: card…' },
+            attributes: { orderId: 'o-1' },
+            resource: { 'service.name': 'payments', 'service.version': '1.4.0' }
+        }));
+        transport.write(record({ time: TIME + 1000, tag: 'success' }));
+        await transport.flush();
+
+        const { url, headers, lines } = received[0]!;
+        expect(url).toBe('/_bulk');
+        expect(headers['content-type']).toBe('application/x-ndjson');
+        expect(headers['authorization']).toBe('ApiKey abc123');
+        expect(lines).toEqual([
+            { create: { _index: 'logs-2026.10.18' } },
+            {
+                '@timestamp': '2026-10-18T23:59:59.500Z',
+                message: 'payment failed',
+                log: { level: 'error', logger: 'Billing' },
+                ecs: { version: '8.11.0' },
+                service: { name: 'payments', version: '1.4.0' },
+                trace: { id: '4bf92f3577b34da6a3ce929d0e0e4736' },
+                span: { id: '00f067aa0ba902b7' },
+                code: { filepath: 'src/pay.ts', lineno: 42, column: 7, function: 'charge' },
+                error: { type: 'TypeError', message: 'card is undefined', stack_trace: 'TypeError: card…' },
+                attributes: { orderId: 'o-1' }
+            },
+            { create: { _index: 'logs-2026.10.19' } },
+            {
+                '@timestamp': '2026-10-19T00:00:00.500Z',
+                message: 'hello',
+                log: { level: 'info' },
+                ecs: { version: '8.11.0' },
+                service: { name: 'checkout' },
+                tags: ['success']
+            }
+        ]);
+    });
+
+    it('reports per-item bulk errors with the failing documents', async () => {
+        respond = () => ({
+            status: 200,
+            body: {
+                errors: true,
+                items: [
+                    { index: { _index: 'app', status: 201 } },
+                    { index: { _index: 'app', status: 400, error: { type: 'mapper_parsing_exception', reason: 'failed to parse [attributes.n]' } } }
+                ]
+            }
+        });
+        const errors: HookLogEntry[] = [];
+        const transport = new ElasticsearchTransport({
+            node,
+            index: 'app',
+            action: 'index',
+            auth: { username: 'elastic', password: 'changeme' },
+            onError: e => errors.push(e)
+        });
+        transport.write(record({ msg: 'ok' }));
+        transport.write(record({ msg: 'bad', attributes: { n: 'not-a-number' } }));
+        await transport.flush();
+
+        expect(received[0]?.headers['authorization']).toBe(`Basic ${Buffer.from('elastic:changeme').toString('base64')}`);
+        expect(received[0]?.lines[0]).toEqual({ index: { _index: 'app' } });
+        expect(errors).toHaveLength(1);
+        expect(errors[0]?.message).toBe(
+            'ElasticsearchTransport: 1 of 2 documents rejected by _bulk (mapper_parsing_exception: failed to parse [attributes.n])'
+        );
+        const failed = errors[0]?.extra?.failedDocuments as BulkFailure[];
+        expect(failed).toHaveLength(1);
+        expect(failed[0]).toMatchObject({ index: 'app', status: 400, document: { message: 'bad' } });
+        expect(transport.bufferSize).toBe(0);
+    });
+
+    it('retries 5xx responses with the inherited backoff', async () => {
+        let calls = 0;
+        respond = () => (++calls === 1
+            ? { status: 503, body: { error: 'unavailable' } }
+            : { status: 200, body: { errors: false, items: [] } });
+        const transport = new ElasticsearchTransport({ node, maxRetries: 2, initialBackoffMs: 1 });
+        transport.write(record());
+        await transport.flush();
+
+        expect(received).toHaveLength(2);
+        expect(transport.getHealth()).toMatchObject({ successCount: 1, failureCount: 1, queuedRecords: 0 });
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Exporters unit tests — exportRecords() for json, csv, markdown, plain and
+ * html. Verifies: RFC 4180 CSV escaping, Markdown cell escaping, ANSI
+ * stripping, headerless CSV / Markdown rows, HTML escaping and theme colors
+ * in the standalone document.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { exportRecords } from '../../src/history/index.js';
+import { Logger } from '../../src/Logger.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+const records: TransportRecord[] = [
+    {
+        level: 'error',
+        levelValue: 3,
+        severityNumber: 17,
+        severityText: 'ERROR',
+        time: TIME,
+        msg: 'failed, "retrying"\nsecond line',
+        prefix: 'API',
+        location: { file: 'api.ts', line: 42 },
+        attributes: { requestId: 'r1' }
+    },
+    {
+        level: 'info',
+        levelValue: 1,
+        severityNumber: 9,
+        severityText: 'INFO',
+        time: TIME + 1000,
+        msg: '\x1b[32m<b>ok</b> | done\x1b[0m',
+        tag: 'success'
+    }
+];
+
+describe('exportRecords', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('json: array of records with ANSI stripped', () => {
+        const parsed = JSON.parse(exportRecords(records, 'json')) as TransportRecord[];
+        expect(parsed).toHaveLength(2);
+        expect(parsed[1]?.msg).toBe('<b>ok</b> | done');
+        expect(parsed[0]?.attributes).toEqual({ requestId: 'r1' });
+    });
+
+    it('csv: header row plus RFC 4180 escaped columns', () => {
+        const csv = exportRecords(records, 'csv');
+        const [header] = csv.split('\r\n');
+        expect(header).toBe('time,level,prefix,tag,message,location,traceId,spanId,attributes');
+        expect(csv).toContain('2026-10-18T12:00:00.000Z,error,API,,"failed, ""retrying""\nsecond line",api.ts:42,,,"{""requestId"":""r1""}"');
+        expect(csv.endsWith('\r\n')).toBe(true);
+    });
+
+    it('markdown: table with escaped pipes and newlines', () => {
+        const md = exportRecords(records, 'markdown', { title: 'Incident' });
+        expect(md.startsWith('# Incident\n')).toBe(true);
+        expect(md).toContain('| Time | Level | Prefix | Message | Location |');
+        expect(md).toContain('failed, "retrying"<br>second line');
+        expect(md).toContain('| SUCCESS |');
+        expect(md).toContain('<b>ok</b> \\| done');
+    });
+
+    it('csv / markdown: header: false emits only the rows', () => {
+        const csv = exportRecords(records, 'csv', { header: false });
+        expect(csv.split('\r\n')[0]).toMatch(/^2026-10-18T12:00:00.000Z,error,API,/);
+        expect(exportRecords([], 'csv', { header: false })).toBe('');
+
+        const md = exportRecords(records, 'markdown', { header: false });
+        expect(md.startsWith('| 2026-10-18T12:00:00.000Z | ERROR |')).toBe(true);
+        expect(md.trimEnd().split('\n')).toHaveLength(2);
+    });
+
+    it('plain: one line per record', () => {
+        const plain = exportRecords(records, 'plain');
+        expect(plain.split('\n')[0]).toBe('2026-10-18T12:00:00.000Z [ERROR] [API] failed, "retrying"');
+        expect(plain).toContain('[INFO] <b>ok</b> | done');
+    });
+
+    it('html: standalone document, escaped content and per-level theme colors', () => {
+        const html = exportRecords(records, 'html', {
+            styles: {
+                error: { emoji: '❌', label: 'ERROR', background: '#ff0000', color: '#ffffff', border: '1px solid #aa0000', shadow: '' },
+                success: { emoji: '✅', label: 'SUCCESS', background: '#00ff00', color: '#000000', border: 'none', shadow: '' }
+            }
+        });
+        expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+        expect(html).toContain('.level-error .badge { background: #ff0000; color: #ffffff; border: 1px solid #aa0000; }');
+        expect(html).toContain('<tr class="level-success">');
+        expect(html).toContain('&lt;b&gt;ok&lt;/b&gt; | done');
+        expect(html).not.toContain('<b>ok</b>');
+    });
+
+    it('html: defaults to the logger theme via exportHistory()', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.warn('heads up');
+        const html = logger.exportHistory('html');
+        expect(html).toContain('.level-warn .badge');
+        expect(html).toContain('heads up');
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * FileTransport rotation tests — size-based and daily rollover, keep-N
+ * retention (which only ever deletes rotated files, never unrelated
+ * siblings), gzip of rotated files, and no record loss across a rollover.
+ * Uses a scratch directory relative to cwd (absolute destinations are
+ * rejected by the path sanitiser).
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { gunzipSync } from 'node:zlib';
+import { FileTransport } from '../../src/transports/FileTransport.js';
+import { cleanup } from '../setup.js';
+import type { TransportRecord } from '../../src/types/index.js';
+
+const DIR = `.tmp-rotation-${process.pid}`;
+
+function record(msg: string): TransportRecord {
+    return {
+        level: 'info',
+        levelValue: 1,
+        severityNumber: 9,
+        severityText: 'INFO',
+        time: Date.now(),
+        msg
+    };
+}
+
+async function readAllMessages(): Promise<string[]> {
+    const names = await readdir(DIR);
+    const messages: string[] = [];
+    for (const name of names) {
+        const raw = await readFile(`${DIR}/${name}`);
+        const text = name.endsWith('.gz') ? gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+        for (const line of text.split('\n').filter(Boolean)) {
+            messages.push((JSON.parse(line) as TransportRecord).msg);
+        }
+    }
+    return messages.sort();
+}
+
+describe('FileTransport rotation', () => {
+    beforeEach(async () => {
+        await mkdir(DIR, { recursive: true });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await rm(DIR, { recursive: true, force: true });
+        cleanup();
+    });
+
+    it('rotates when the next append would exceed maxSize', async () => {
+        const transport = new FileTransport({
+            destination: `${DIR}/app.log`,
+            batchSize: 1000,
+            rotation: { maxSize: 200 }
+        });
+
+        for (let i = 0; i < 6; i++) {
+            transport.write(record(`size-${i}`));
+            await transport.flush();
+        }
+        await transport.close();
+
+        const names = await readdir(DIR);
+        expect(names).toContain('app.log');
+        expect(names.length).toBeGreaterThan(1);
+        expect(await readAllMessages()).toEqual(
+            ['size-0', 'size-1', 'size-2', 'size-3', 'size-4', 'size-5']
+        );
+    });
+
+    it('rolls over daily and names the rotated file after its UTC day', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-17T23:59:00Z'));
+
+        const transport = new FileTransport({
+            destination: `${DIR}/app.log`,
+            rotation: { interval: 'daily' }
+        });
+        transport.write(record('yesterday'));
+        await transport.flush();
+
+        vi.setSystemTime(new Date('2026-10-18T00:01:00Z'));
+        transport.write(record('today'));
+        await transport.close();
+
+        expect((await readdir(DIR)).sort()).toEqual(['app.log', 'app.log.2026-10-17']);
+        expect(await readFile(`${DIR}/app.log.2026-10-17`, 'utf8')).toContain('yesterday');
+        expect(await readFile(`${DIR}/app.log`, 'utf8')).toContain('today');
+    });
+
+    it('keeps only maxFiles rotated files and gzips them', async () => {
+        const transport = new FileTransport({
+            destination: `${DIR}/app.log`,
+            rotation: { maxSize: 1, maxFiles: 2, compress: true }
+        });
+
+        for (let i = 0; i < 5; i++) {
+            transport.write(record(`gz-${i}`));
+            await transport.flush();
+        }
+        await transport.close();
+
+        const rotated = (await readdir(DIR)).filter(name => name !== 'app.log');
+        expect(rotated).toHaveLength(2);
+        expect(rotated.every(name => name.endsWith('.gz'))).toBe(true);
+        expect(await readAllMessages()).toEqual(['gz-2', 'gz-3', 'gz-4']);
+    });
+
+    it('prunes only rotated files and leaves unrelated siblings alone', async () => {
+        // Más viejos que cualquier rotado: con un filtro por prefijo serían los primeros en borrarse.
+        const siblings = ['app.json', 'app.bak', 'app.lock', 'app.log.2026-10-17'];
+        for (const name of siblings) await writeFile(`${DIR}/${name}`, 'keep');
+
+        const transport = new FileTransport({
+            destination: `${DIR}/app`,
+            rotation: { maxSize: 1, maxFiles: 1 }
+        });
+        for (let i = 0; i < 4; i++) {
+            transport.write(record(`prune-${i}`));
+            await transport.flush();
+        }
+        await transport.close();
+
+        const names = await readdir(DIR);
+        expect(names).toEqual(expect.arrayContaining(['app', ...siblings]));
+        expect(names.filter(name => name !== 'app' && !siblings.includes(name))).toHaveLength(1);
+    });
+
+    it('does not lose records written while a rotation is in flight', async () => {
+        const transport = new FileTransport({
+            destination: `${DIR}/app.log`,
+            batchSize: 1,
+            rotation: { maxSize: 150, compress: true }
+        });
+
+        // batchSize=1 fires an un-awaited flush per write, so appends and
+        // rotations overlap and must be serialised.
+        for (let i = 0; i < 10; i++) {
+            transport.write(record(`burst-${i}`));
+        }
+        await transport.close();
+
+        const messages = await readAllMessages();
+        expect(messages).toHaveLength(10);
+        expect(new Set(messages).size).toBe(10);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * GelfTransport tests — records map to GELF 1.1 (syslog level, attributes
+ * and resource as `_` additional fields, exception as full_message), go out
+ * over UDP as gzip / zlib datagrams split into GELF chunks when they exceed
+ * maxChunkSize, and over TCP as null-byte terminated frames. Uses local
+ * dgram / net listeners.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { createSocket, type Socket as DatagramSocket } from 'node:dgram';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { gunzipSync, inflateSync } from 'node:zlib';
+import { GelfTransport, type GelfMessage } from '../../src/node/GelfTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.123Z');
+
+function record(overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: TIME, msg: 'hello', ...overrides
+    };
+}
+
+const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 10));
+};
+
+async function udpListener(): Promise<{ socket: DatagramSocket; port: number; datagrams: Buffer[] }> {
+    const socket = createSocket('udp4');
+    const datagrams: Buffer[] = [];
+    socket.on('message', message => datagrams.push(message));
+    await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+    return { socket, port: (socket.address() as AddressInfo).port, datagrams };
+}
+
+describe('GelfTransport', () => {
+    const closers: Array<() => void> = [];
+
+    afterEach(() => {
+        closers.splice(0).forEach(close => close());
+        cleanup();
+    });
+
+    it('maps records to GELF 1.1 with additional fields', () => {
+        const gelf = new GelfTransport({ hostname: 'web-1', staticFields: { environment: 'prod' } });
+        const message = gelf.toMessage(record({
+            level: 'error',
+            msg: 'payment failed',
+            prefix: 'Billing',
+            resource: { 'service.name': 'billing-worker' },
+            traceId: 'abc',
+            exception: { type: 'TypeError', message: 'boom', stacktrace: 'TypeError: boom\n    at pay' },
+            attributes: { id: 7, user: { id: 42, vip: true }, 'order id': 'o-1', tags: ['a'], gone: null, trace_id: 'spoofed' }
+        }));
+
+        expect(message).toEqual({
+            version: '1.1',
+            host: 'web-1',
+            short_message: 'payment failed',
+            full_message: 'TypeError: boom\n    at pay',
+            timestamp: 1792324800.123,
+            level: 3,
+            _id_: 7,
+            _user_id: 42,
+            _user_vip: 'true',
+            _order_id: 'o-1',
+            _tags: '["a"]',
+            _environment: 'prod',
+            _service_name: 'billing-worker',
+            _logger: 'Billing',
+            _trace_id: 'abc',
+            _exception_type: 'TypeError',
+            _exception_message: 'boom'
+        } satisfies GelfMessage);
+        expect(() => new GelfTransport({ protocol: 'tcp', compression: 'gzip' })).toThrow('only supported over UDP');
+    });
+
+    it('sends a gzip-compressed datagram over UDP', async () => {
+        const { socket, port, datagrams } = await udpListener();
+        closers.push(() => socket.close());
+
+        const gelf = new GelfTransport({ port, hostname: 'web-1' });
+        gelf.write(record({ level: 'warn' }));
+        await gelf.close();
+        await waitFor(() => datagrams.length === 1);
+
+        const message = JSON.parse(gunzipSync(datagrams[0]!).toString('utf8')) as GelfMessage;
+        expect(message).toMatchObject({ version: '1.1', short_message: 'hello', level: 4 });
+    });
+
+    it('splits large messages into GELF chunks that reassemble', async () => {
+        const { socket, port, datagrams } = await udpListener();
+        closers.push(() => socket.close());
+
+        const gelf = new GelfTransport({ port, compression: 'zlib', maxChunkSize: 100 });
+        const big = Array.from({ length: 400 }, (_, i) => `line-${i}`).join(' ');
+        gelf.write(record({ msg: big }));
+        await gelf.close();
+        await waitFor(() => datagrams.length > 1 && datagrams.length === datagrams[0]![11]);
+
+        const ids = new Set(datagrams.map(chunk => chunk.subarray(2, 10).toString('hex')));
+        expect(ids.size).toBe(1);
+        for (const chunk of datagrams) {
+            expect([...chunk.subarray(0, 2)]).toEqual([0x1e, 0x0f]);
+            expect(chunk.length).toBeLessThanOrEqual(100);
+        }
+        const payload = Buffer.concat([...datagrams].sort((a, b) => a[10]! - b[10]!).map(chunk => chunk.subarray(12)));
+        expect((JSON.parse(inflateSync(payload).toString('utf8')) as GelfMessage).short_message).toBe(big);
+    });
+
+    it('drops messages that need more than 128 chunks via onError', async () => {
+        const errors: HookLogEntry[] = [];
+        const gelf = new GelfTransport({ port: 9, compression: 'none', maxChunkSize: 13, onError: e => { errors.push(e); } });
+        gelf.write(record({ msg: 'x'.repeat(200) }));
+        await gelf.close();
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]?.message).toBe('GelfTransport dropped a message that needs more than 128 chunks');
+        expect(errors[0]?.extra).toMatchObject({ droppedCount: 1 });
+    });
+
+    it('frames uncompressed messages with a null byte over TCP', async () => {
+        const chunks: Buffer[] = [];
+        const server: Server = createServer(socket => socket.on('data', chunk => chunks.push(chunk)));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        closers.push(() => server.close());
+
+        const gelf = new GelfTransport({ protocol: 'tcp', port: (server.address() as AddressInfo).port });
+        gelf.write(record({ msg: 'first' }));
+        gelf.write(record({ msg: 'second' }));
+        await gelf.close();
+        await waitFor(() => Buffer.concat(chunks).filter(byte => byte === 0).length === 2);
+
+        const frames = Buffer.concat(chunks).toString('utf8').split('\0');
+        expect(frames.at(-1)).toBe('');
+        expect(frames.slice(0, -1).map(frame => (JSON.parse(frame) as GelfMessage).short_message)).toEqual(['first', 'second']);
+    });
+});
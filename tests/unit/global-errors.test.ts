@@ -0,0 +1,173 @@
+/**
+ * captureGlobalErrors tests — in a stubbed browser, uncaught errors,
+ * unhandled rejections, CSP violations and failed resource loads become
+ * `error` records with errorSource, the Error serialized by the logger's
+ * SerializerRegistry, `exception` and the location of the event (or of the
+ * first stack frame); identical errors are collapsed into a repeat summary,
+ * and the teardown removes every listener. Outside the browser it is a no-op.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { captureGlobalErrors } from '../../src/browser/index.js';
+import { Logger } from '../../src/Logger.js';
+import type { ITransport, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+class Recorder implements ITransport {
+    readonly name = 'recorder';
+    records: TransportRecord[] = [];
+    write(record: TransportRecord): void {
+        this.records.push(record);
+    }
+}
+
+/** Evento con los campos de `ErrorEvent` / `PromiseRejectionEvent` / etc. */
+function browserEvent(type: string, fields: Record<string, unknown>, target?: object): Event {
+    const event = Object.assign(new Event(type), fields);
+    // Los recursos que fallan llegan a `window` en fase de captura con su elemento como target.
+    if (target) Object.defineProperty(event, 'target', { value: target });
+    return event;
+}
+
+describe('captureGlobalErrors', () => {
+    let page: EventTarget;
+    let doc: EventTarget;
+    let logger: Logger;
+    let recorder: Recorder;
+    let stop: (() => void) | undefined;
+
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+        logger = new Logger({ outputMode: 'silent' });
+        recorder = new Recorder();
+        logger.addTransport({ target: recorder });
+        page = new EventTarget();
+        doc = new EventTarget();
+        vi.stubGlobal('window', page);
+        vi.stubGlobal('document', doc);
+    });
+
+    afterEach(() => {
+        stop?.();
+        stop = undefined;
+        vi.unstubAllGlobals();
+        cleanup();
+    });
+
+    it('logs uncaught errors with the serialized error, exception and event location', async () => {
+        logger.addSerializer(TypeError, (err: TypeError) => ({ kind: 'type', message: err.message }), 110);
+        stop = captureGlobalErrors(logger);
+        const error = new TypeError("Cannot read properties of undefined (reading 'id')");
+
+        page.dispatchEvent(browserEvent('error', {
+            message: `Uncaught ${error.name}: ${error.message}`,
+            filename: 'https://app.example.com/assets/app.js', lineno: 42, colno: 7, error
+        }));
+        page.dispatchEvent(browserEvent('error', { message: 'Script error.', filename: '', lineno: 0, colno: 0, error: null }));
+        await settle();
+
+        expect(recorder.records).toHaveLength(2);
+        expect(recorder.records[0]).toMatchObject({
+            level: 'error',
+            msg: "Uncaught TypeError: Cannot read properties of undefined (reading 'id')",
+            location: { file: 'https://app.example.com/assets/app.js', line: 42, column: 7 },
+            exception: { type: 'TypeError', message: error.message },
+            attributes: { errorSource: 'error', error: { kind: 'type', message: error.message } }
+        });
+        // Script cross-origin: sin error ni ubicación, solo el mensaje del browser.
+        expect(recorder.records[1]).toMatchObject({ msg: 'Script error.', attributes: { errorSource: 'error' } });
+        expect(recorder.records[1]!.location).toBeUndefined();
+    });
+
+    it('logs unhandled rejections with the location of the first stack frame', async () => {
+        stop = captureGlobalErrors(logger);
+        const error = new Error('timeout');
+        error.stack = 'Error: timeout\n    at loadUser (https://app.example.com/assets/users.js:12:5)\n    at async main (https://app.example.com/assets/app.js:3:1)';
+
+        page.dispatchEvent(browserEvent('unhandledrejection', { reason: error }));
+        page.dispatchEvent(browserEvent('unhandledrejection', { reason: { code: 'E_AUTH' } }));
+        await settle();
+
+        expect(recorder.records[0]).toMatchObject({
+            msg: 'Unhandled promise rejection: Error: timeout',
+            location: { file: 'https://app.example.com/assets/users.js', line: 12, column: 5, function: 'loadUser' },
+            exception: { type: 'Error', message: 'timeout' },
+            attributes: {
+                errorSource: 'unhandledrejection',
+                error: { name: 'Error', message: 'timeout', stack: error.stack.split('\n') }
+            }
+        });
+        expect(recorder.records[1]).toMatchObject({
+            msg: 'Unhandled promise rejection: {"code":"E_AUTH"}',
+            attributes: { errorSource: 'unhandledrejection', reason: { code: 'E_AUTH' } }
+        });
+        expect(recorder.records[1]!.exception).toBeUndefined();
+    });
+
+    it('logs CSP violations and failed resource loads', async () => {
+        stop = captureGlobalErrors(logger);
+
+        doc.dispatchEvent(browserEvent('securitypolicyviolation', {
+            effectiveDirective: 'script-src-elem', violatedDirective: 'script-src', blockedURI: 'https://cdn.evil.test/x.js',
+            sourceFile: 'https://app.example.com/index.html', lineNumber: 9, columnNumber: 3, disposition: 'enforce', sample: ''
+        }));
+        page.dispatchEvent(browserEvent('error', {}, { tagName: 'IMG', currentSrc: 'https://cdn.example.com/logo.png' }));
+        await settle();
+
+        expect(recorder.records.map(r => [r.msg, r.location])).toEqual([
+            [
+                'Content Security Policy violation: script-src-elem blocked https://cdn.evil.test/x.js',
+                { file: 'https://app.example.com/index.html', line: 9, column: 3 }
+            ],
+            ['Failed to load img: https://cdn.example.com/logo.png', { file: 'https://cdn.example.com/logo.png', line: 0, column: 0 }]
+        ]);
+        expect(recorder.records[0]!.attributes).toMatchObject({
+            errorSource: 'securitypolicyviolation',
+            csp: { directive: 'script-src-elem', blockedURI: 'https://cdn.evil.test/x.js', disposition: 'enforce' }
+        });
+        expect(recorder.records[1]!.attributes).toMatchObject({
+            errorSource: 'resource', element: 'img', url: 'https://cdn.example.com/logo.png'
+        });
+    });
+
+    it('collapses identical errors and reports the repeats on teardown', async () => {
+        stop = captureGlobalErrors(logger);
+        const fire = (line: number) => page.dispatchEvent(browserEvent('error', {
+            message: 'Uncaught Error: tick', filename: 'https://app.example.com/app.js', lineno: line, colno: 1, error: new Error('tick')
+        }));
+
+        fire(10);
+        fire(10);
+        fire(10);
+        fire(11);
+        await settle();
+        expect(recorder.records.map(r => r.location?.line)).toEqual([10, 11]);
+
+        stop();
+        stop = undefined;
+        await settle();
+        expect(recorder.records).toHaveLength(3);
+        expect(recorder.records[2]!.msg).toMatch(/^Uncaught Error: tick … repeated 2 times in \d+ms$/);
+        expect(recorder.records[2]!.attributes).toMatchObject({ errorSource: 'error', repeatCount: 2 });
+
+        // Tras el teardown ya no hay listeners.
+        fire(10);
+        doc.dispatchEvent(browserEvent('securitypolicyviolation', { effectiveDirective: 'img-src', blockedURI: 'data' }));
+        page.dispatchEvent(browserEvent('unhandledrejection', { reason: new Error('late') }));
+        await settle();
+        expect(recorder.records).toHaveLength(3);
+    });
+
+    it('logs every occurrence with dedupWindowMs 0 and does nothing outside the browser', async () => {
+        stop = captureGlobalErrors(logger, { dedupWindowMs: 0 });
+        const reason = new Error('again');
+        page.dispatchEvent(browserEvent('unhandledrejection', { reason }));
+        page.dispatchEvent(browserEvent('unhandledrejection', { reason }));
+        await settle();
+        expect(recorder.records).toHaveLength(2);
+
+        vi.unstubAllGlobals();
+        const noop = captureGlobalErrors(logger);
+        expect(() => noop()).not.toThrow();
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * JsonStreamTransport tests — one single-line JSON object per record, the
+ * default / pino / bunyan presets and field renaming, backpressure handling
+ * via `drain` (order preserved, nothing written past a full stream), and the
+ * synchronous flush on process `exit` through the stream's fd of retained
+ * lines and of lines the stream accepted but had not written yet, without
+ * rewriting the ones it had already confirmed.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { Writable } from 'node:stream';
+import { closeSync, openSync, readFileSync, rmSync } from 'node:fs';
+import { hostname } from 'node:os';
+import { JsonStreamTransport, type JsonWritableStream } from '../../src/node/JsonStreamTransport.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+function record(overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: TIME, msg: 'hello', ...overrides
+    };
+}
+
+/** Writable that collects lines; `slow` delays each write callback so backpressure kicks in. */
+function sink(options: { highWaterMark?: number; slow?: boolean } = {}) {
+    const lines: string[] = [];
+    const stream = new Writable({
+        highWaterMark: options.highWaterMark ?? 16 * 1024,
+        write(chunk: Buffer, _encoding, callback) {
+            lines.push(chunk.toString('utf8'));
+            if (options.slow) setTimeout(callback, 5); else callback();
+        }
+    });
+    return { stream: stream as JsonWritableStream, lines };
+}
+
+describe('JsonStreamTransport', () => {
+    const transports: JsonStreamTransport[] = [];
+    const create = (...args: ConstructorParameters<typeof JsonStreamTransport>) => {
+        const transport = new JsonStreamTransport(...args);
+        transports.push(transport);
+        return transport;
+    };
+
+    afterEach(async () => {
+        await Promise.all(transports.splice(0).map(transport => transport.close()));
+        cleanup();
+    });
+
+    it('writes one JSON object per line in the record shape by default', () => {
+        const { stream, lines } = sink();
+        const json = create({ stream });
+        json.write(record({ msg: 'two\nlines', prefix: 'API', attributes: { userId: 42, raw: new Uint8Array([1, 255]) } }));
+
+        expect(lines).toHaveLength(1);
+        expect(lines[0]!.endsWith('\n')).toBe(true);
+        expect(lines[0]!.slice(0, -1)).not.toContain('\n');
+        expect(JSON.parse(lines[0]!)).toEqual({
+            level: 'info', time: TIME, prefix: 'API', msg: 'two\nlines', attributes: { userId: 42, raw: '01ff' }
+        });
+    });
+
+    it('emits pino- and bunyan-compatible shapes', () => {
+        const exception = { type: 'Error', message: 'boom', stacktrace: 'Error: boom\n    at x' };
+        const input = record({
+            level: 'critical', prefix: 'DB', traceId: 't1', exception,
+            resource: { 'service.name': 'api' }, attributes: { requestId: 'r1', msg: 'spoofed' }
+        });
+
+        const pino = create({ stream: sink().stream, preset: 'pino' }).toObject(input);
+        expect(pino).toEqual({
+            level: 60, time: TIME, pid: process.pid, hostname: hostname(), name: 'DB', msg: 'hello',
+            trace_id: 't1', resource: { 'service.name': 'api' },
+            err: { type: 'Error', message: 'boom', stack: 'Error: boom\n    at x' },
+            requestId: 'r1'
+        });
+        expect(Object.keys(pino).slice(0, 4)).toEqual(['level', 'time', 'pid', 'hostname']);
+
+        const bunyan = create({ stream: sink().stream, preset: 'bunyan' }).toObject(input);
+        expect(bunyan).toMatchObject({ v: 0, level: 60, name: 'api', component: 'DB', time: '2026-10-18T12:00:00.000Z' });
+    });
+
+    it('lets fields, formats and base override the preset', () => {
+        const json = create({
+            stream: sink().stream,
+            preset: 'pino',
+            fields: { msg: 'message', attributes: 'ctx', hostname: undefined },
+            levelFormat: 'label',
+            timeFormat: 'iso',
+            base: { env: 'prod' }
+        });
+        expect(json.toObject(record({ attributes: { a: 1 } }))).toEqual({
+            env: 'prod', level: 'info', time: '2026-10-18T12:00:00.000Z', pid: process.pid, message: 'hello', ctx: { a: 1 }
+        });
+    });
+
+    it('retains lines while the stream applies backpressure and writes them in order on drain', async () => {
+        const { stream, lines } = sink({ highWaterMark: 1, slow: true });
+        const json = create({ stream });
+
+        for (let i = 0; i < 5; i++) json.write(record({ msg: `m${i}` }));
+        expect(lines).toHaveLength(1);
+        expect(json.bufferSize).toBe(4);
+
+        await json.flush();
+        await new Promise(resolve => stream.end(resolve));
+        expect(json.bufferSize).toBe(0);
+        expect(lines.map(line => (JSON.parse(line) as { msg: string }).msg)).toEqual(['m0', 'm1', 'm2', 'm3', 'm4']);
+    });
+
+    it('writes accepted and retained lines synchronously to the stream fd on exit', () => {
+        const path = `.tmp-json-stream-${process.pid}.log`;
+        const fd = openSync(path, 'w');
+        // A stream that never writes nor drains: nothing leaves memory until the exit handler runs.
+        const stuck = { fd, write: () => false, once: () => stuck } as unknown as JsonWritableStream;
+        const before = new Set(process.listeners('exit'));
+        const json = new JsonStreamTransport({ stream: stuck });
+        const onExit = process.listeners('exit').find(listener => !before.has(listener))!;
+        try {
+            json.write(record({ msg: 'first' }));
+            json.write(record({ msg: 'second' }));
+            expect(json.bufferSize).toBe(1);
+
+            onExit(0);
+            expect(json.bufferSize).toBe(0);
+            expect(readFileSync(path, 'utf8')).toBe(['first', 'second']
+                .map(msg => `${JSON.stringify({ level: 'info', time: TIME, msg })}\n`).join(''));
+        } finally {
+            process.off('exit', onExit);
+            closeSync(fd);
+            rmSync(path, { force: true });
+        }
+    });
+
+    it('rewrites on exit only the lines the stream had not written, once and in order', () => {
+        const path = `.tmp-json-stream-exit-${process.pid}.log`;
+        const fd = openSync(path, 'w');
+        // Stands in for an fs.WriteStream mid-write: callbacks fire on confirm() and
+        // writableLength counts the bytes accepted but not yet written.
+        const callbacks: Array<() => void> = [];
+        let queued = 0;
+        const stream = {
+            fd,
+            get writableLength() { return queued; },
+            write(chunk: string, callback: () => void) {
+                queued += Buffer.byteLength(chunk);
+                callbacks.push(() => { queued -= Buffer.byteLength(chunk); callback(); });
+                return callbacks.length < 4;
+            },
+            once: () => stream
+        } as unknown as JsonWritableStream;
+        const confirm = () => callbacks.shift()!();
+        const before = new Set(process.listeners('exit'));
+        const json = new JsonStreamTransport({ stream });
+        const onExit = process.listeners('exit').find(listener => !before.has(listener))!;
+        try {
+            for (let i = 0; i < 10; i++) json.write(record({ msg: `m${i}` }));
+            expect(callbacks).toHaveLength(4);
+            expect(json.bufferSize).toBe(6);
+            confirm();
+            confirm();
+
+            onExit(0);
+            const msgs = readFileSync(path, 'utf8').trimEnd().split('\n').map(line => (JSON.parse(line) as { msg: string }).msg);
+            expect(msgs).toEqual(['m2', 'm3', 'm4', 'm5', 'm6', 'm7', 'm8', 'm9']);
+        } finally {
+            process.off('exit', onExit);
+            closeSync(fd);
+            rmSync(path, { force: true });
+        }
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Log history unit tests — LogHistory ring buffer (wrap-around, resize,
+ * clear) and Logger.getHistory() query filters: level range, prefix/scope,
+ * time window, attribute match, text search and limit.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LogHistory } from '../../src/history/index.js';
+import { Logger } from '../../src/Logger.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const makeRecord = (msg: string, overrides: Partial<TransportRecord> = {}): TransportRecord => ({
+    level: 'info',
+    levelValue: 1,
+    severityNumber: 9,
+    severityText: 'INFO',
+    time: Date.now(),
+    msg,
+    ...overrides
+});
+
+describe('LogHistory', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('keeps the most recent records in chronological order when full', () => {
+        const history = new LogHistory(3);
+        for (let i = 0; i < 5; i++) history.push(makeRecord(`m${i}`));
+
+        expect(history.size).toBe(3);
+        expect(history.toArray().map(r => r.msg)).toEqual(['m2', 'm3', 'm4']);
+    });
+
+    it('is disabled with capacity 0', () => {
+        const history = new LogHistory(0);
+        history.push(makeRecord('ignored'));
+        expect(history.size).toBe(0);
+        expect(history.query()).toEqual([]);
+    });
+
+    it('resize keeps the newest records that fit', () => {
+        const history = new LogHistory(5);
+        for (let i = 0; i < 5; i++) history.push(makeRecord(`m${i}`));
+
+        history.resize(2);
+        expect(history.toArray().map(r => r.msg)).toEqual(['m3', 'm4']);
+
+        history.resize(4);
+        history.push(makeRecord('m5'));
+        expect(history.toArray().map(r => r.msg)).toEqual(['m3', 'm4', 'm5']);
+    });
+
+    it('clear empties the buffer but keeps capacity', () => {
+        const history = new LogHistory(2);
+        history.push(makeRecord('a'));
+        history.clear();
+        expect(history.size).toBe(0);
+        expect(history.capacity).toBe(2);
+    });
+
+    describe('query', () => {
+        let history: LogHistory;
+
+        beforeEach(() => {
+            history = new LogHistory(100);
+            history.push(makeRecord('boot', { level: 'debug', time: 1_000 }));
+            history.push(makeRecord('db connected', { prefix: 'App:DB', time: 2_000, attributes: { requestId: 'r1' } }));
+            history.push(makeRecord('\x1b[30m[AUTH]\x1b[0m login failed', { level: 'warn', time: 3_000, attributes: { requestId: 'r2' } }));
+            history.push(makeRecord('db timeout', { level: 'error', prefix: 'App:DB', time: 4_000, attributes: { requestId: 'r1', retries: [1, 2] } }));
+            history.push(makeRecord('shutdown', { level: 'critical', time: 5_000 }));
+        });
+
+        it('filters by level range', () => {
+            expect(history.query({ minLevel: 'warn' }).map(r => r.msg)).toEqual([
+                '\x1b[30m[AUTH]\x1b[0m login failed', 'db timeout', 'shutdown'
+            ]);
+            expect(history.query({ minLevel: 'info', maxLevel: 'warn' })).toHaveLength(2);
+        });
+
+        it('matches prefix segments and scoped-logger badges case-insensitively', () => {
+            expect(history.query({ prefix: 'db' }).map(r => r.msg)).toEqual(['db connected', 'db timeout']);
+            expect(history.query({ prefix: 'App:DB' })).toHaveLength(2);
+            expect(history.query({ prefix: 'auth' })).toHaveLength(1);
+            expect(history.query({ prefix: /^AU/ })).toHaveLength(1);
+        });
+
+        it('filters by time window', () => {
+            expect(history.query({ since: 2_000, until: new Date(4_000) })).toHaveLength(3);
+        });
+
+        it('matches attributes by value', () => {
+            expect(history.query({ attributes: { requestId: 'r1' } })).toHaveLength(2);
+            expect(history.query({ attributes: { retries: [1, 2] } })).toHaveLength(1);
+            expect(history.query({ attributes: { requestId: 'missing' } })).toHaveLength(0);
+        });
+
+        it('searches message text, ignoring ANSI codes', () => {
+            expect(history.query({ search: 'TIMEOUT' })).toHaveLength(1);
+            expect(history.query({ search: '[AUTH] login' })).toHaveLength(1);
+            expect(history.query({ search: /^db / })).toHaveLength(2);
+        });
+
+        it('limit keeps the most recent matches', () => {
+            expect(history.query({ limit: 2 }).map(r => r.msg)).toEqual(['db timeout', 'shutdown']);
+        });
+    });
+});
+
+describe('Logger history', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('records every emission up to bufferSize', async () => {
+        const logger = new Logger({ verbosity: 'debug', outputMode: 'silent', bufferSize: 2 });
+        await logger.info('one');
+        await logger.warn('two');
+        await logger.error('three');
+
+        expect(logger.getHistory().map(r => r.msg)).toEqual(['two', 'three']);
+    });
+
+    it('records without any transport registered', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.info('kept');
+        expect(logger.getHistory({ search: 'kept' })).toHaveLength(1);
+    });
+
+    it('includes scoped loggers and the success tag', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.scope('Payments').info('charged');
+        await logger.success('done');
+
+        expect(logger.getHistory({ prefix: 'payments' })).toHaveLength(1);
+        expect(logger.getHistory({ search: 'done' })[0]?.tag).toBe('success');
+    });
+
+    it('updateConfig({ bufferSize }) resizes and clearHistory empties', async () => {
+        const logger = new Logger({ outputMode: 'silent', bufferSize: 10 });
+        await logger.info('a');
+        await logger.info('b');
+        logger.updateConfig({ bufferSize: 1 });
+        expect(logger.getHistory().map(r => r.msg)).toEqual(['b']);
+
+        logger.clearHistory();
+        expect(logger.getHistory()).toEqual([]);
+    });
+});
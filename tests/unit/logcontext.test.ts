@@ -1,11 +1,11 @@
 /**
  * LogContext bridge unit tests — MDC (Mapped Diagnostic Context) management.
  * Tests: child immutability, child isolation, withContext ALS-scoped callbacks,
- * browser fallback, getContext, setResource, clearContext.
+ * browser fallback, Node without getBuiltinModule, getContext, setResource, clearContext.
  *
  *
  */
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createLogContext, type LogContext } from '../../src/context/LogContext.js';
 import { cleanup } from '../setup.js';
 
@@ -211,6 +211,26 @@ describe('LogContext', () => {
         });
     });
 
+    describe('Node without process.getBuiltinModule', () => {
+        it('falls back to a dynamic import of node:async_hooks', async () => {
+            const proc = process as unknown as { getBuiltinModule?: unknown };
+            const getBuiltinModule = proc.getBuiltinModule;
+            proc.getBuiltinModule = undefined;
+            vi.resetModules();
+
+            try {
+                const mod = await import('../../src/context/LogContext.js');
+                await mod.loadAsyncLocalStorage();
+                const freshCtx = mod.createLogContext({ childLoggerFactory: () => ({ context: {} }) });
+                const seen = freshCtx.withContext({ requestId: 'r1' }, () => freshCtx._getContextRecord());
+                expect(seen).toEqual({ requestId: 'r1' });
+            } finally {
+                proc.getBuiltinModule = getBuiltinModule;
+                vi.resetModules();
+            }
+        });
+    });
+
     describe('_getContextRecord', () => {
         it('returns the current context snapshot', () => {
             expect(logCtx._getContextRecord()).toEqual({});
@@ -0,0 +1,161 @@
+/**
+ * Logger middleware pipeline tests — use() middleware wraps every emission
+ * from log(), logWithBindings() and success(); skipping next() suppresses
+ * console output, handlers and transport dispatch; mutations are emitted.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Logger } from '../../src/Logger.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import type { OutputWriter } from '../../src/types/core.js';
+import { cleanup } from '../setup.js';
+
+describe('Logger middleware pipeline', () => {
+    let records: TransportRecord[];
+    let output: string[];
+    let handled: string[];
+    let logger: Logger;
+
+    beforeEach(() => {
+        records = [];
+        output = [];
+        handled = [];
+        const writer: OutputWriter = {
+            write(message: string) { output.push(message); }
+        };
+        logger = new Logger({ verbosity: 'debug', outputMode: 'custom', outputWriter: writer });
+        logger.addTransport({
+            target: {
+                name: 'capture',
+                write(r: TransportRecord) { records.push(r); },
+                flush: async () => {},
+                close: async () => {},
+            },
+            level: 'trace'
+        });
+        logger.addHandler({ handle: (_level, message) => { handled.push(message); } });
+    });
+
+    afterEach(async () => {
+        await logger.closeTransports();
+        cleanup();
+    });
+
+    it('runs middleware for log()', async () => {
+        const middleware = vi.fn(async (_entry, next: () => void | Promise<void>) => { await next(); });
+        logger.use(middleware);
+
+        await logger.info('hello');
+
+        expect(middleware).toHaveBeenCalledTimes(1);
+        expect(records).toHaveLength(1);
+        expect(output).toHaveLength(1);
+        expect(handled).toEqual(['hello']);
+    });
+
+    it('a middleware that skips next() suppresses output, handlers and transports', async () => {
+        logger.use((entry, next) => {
+            if (entry.message.includes('drop')) return;
+            return next();
+        });
+
+        await logger.info('drop me');
+        await logger.warn('keep me');
+
+        expect(records.map(r => r.msg)).toEqual(['keep me']);
+        expect(output).toHaveLength(1);
+        expect(handled).toEqual(['keep me']);
+    });
+
+    it('does not fire afterLog for a dropped entry', async () => {
+        const afterLog = vi.fn();
+        logger.on('afterLog', afterLog);
+        logger.use(() => {});
+
+        await logger.info('dropped');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(afterLog).not.toHaveBeenCalled();
+    });
+
+    it('emits the message as mutated by middleware', async () => {
+        logger.use(async (entry, next) => {
+            entry.message = entry.message.replace(/\d{4}-\d{4}/, '****');
+            await next();
+        });
+
+        await logger.info('card 1234-5678');
+
+        expect(records[0]?.msg).toBe('card ****');
+        expect(handled).toEqual(['card ****']);
+    });
+
+    it('wraps the emission Koa-style: code after next() sees the dispatched record', async () => {
+        let seenAfterNext = -1;
+        logger.use(async (_entry, next) => {
+            expect(records).toHaveLength(0);
+            await next();
+            seenAfterNext = records.length;
+        });
+
+        await logger.info('wrapped');
+
+        expect(seenAfterNext).toBe(1);
+    });
+
+    it('runs middleware in priority order', async () => {
+        const order: string[] = [];
+        logger.use(async (_e, next) => { order.push('low'); await next(); }, 10);
+        logger.use(async (_e, next) => { order.push('high'); await next(); }, 90);
+
+        await logger.info('ordered');
+
+        expect(order).toEqual(['high', 'low']);
+    });
+
+    it('runs middleware exactly once for success() and keeps the success tag', async () => {
+        const middleware = vi.fn(async (_entry, next: () => void | Promise<void>) => { await next(); });
+        logger.use(middleware);
+
+        await logger.success('done');
+
+        expect(middleware).toHaveBeenCalledTimes(1);
+        expect(records).toHaveLength(1);
+        expect(records[0]?.tag).toBe('success');
+        expect(output).toHaveLength(1);
+    });
+
+    it('suppresses success() when next() is skipped', async () => {
+        logger.use(() => {});
+
+        await logger.success('nope');
+
+        expect(records).toHaveLength(0);
+        expect(output).toHaveLength(0);
+        expect(handled).toHaveLength(0);
+    });
+
+    it('runs middleware for logWithBindings() (scoped loggers)', async () => {
+        const seen: string[] = [];
+        logger.use((entry, next) => {
+            seen.push(entry.message);
+            if (entry.message.includes('secret')) return;
+            return next();
+        });
+
+        await logger.logWithBindings({ scope: 'DB' }, 'info', 'secret query');
+        await logger.logWithBindings({ scope: 'DB' }, 'info', 'public query');
+
+        expect(seen).toHaveLength(2);
+        expect(records).toHaveLength(1);
+        expect(records[0]?.msg).toContain('public query');
+    });
+
+    it('an unsubscribed middleware no longer runs', async () => {
+        const off = logger.use(() => {});
+        off();
+
+        await logger.info('back');
+
+        expect(records).toHaveLength(1);
+    });
+});
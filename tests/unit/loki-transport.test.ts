@@ -0,0 +1,120 @@
+/**
+ * LokiTransport tests — records POSTed to a local mock Loki are grouped into
+ * streams by the configured label keys (level, prefix, service_name), carry
+ * nanosecond timestamps and attributes/trace ids as structured metadata, and
+ * honour gzip compression and the X-Scope-OrgID tenant header. Also covers
+ * registration as the 'loki' built-in.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gunzipSync } from 'node:zlib';
+import { LokiTransport, type LokiPushPayload } from '../../src/transports/LokiTransport.js';
+import { TransportManager } from '../../src/transports/TransportManager.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+function record(overrides: Partial<TransportRecord>): TransportRecord {
+    return {
+        level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: TIME, msg: 'hello', ...overrides
+    };
+}
+
+describe('LokiTransport', () => {
+    let server: Server;
+    let endpoint: string;
+    const received: Array<{ url?: string; headers: IncomingHttpHeaders; body: Buffer }> = [];
+
+    const payload = (i = 0): LokiPushPayload => {
+        const { headers, body } = received[i]!;
+        const raw = headers['content-encoding'] === 'gzip' ? gunzipSync(body) : body;
+        return JSON.parse(raw.toString('utf8')) as LokiPushPayload;
+    };
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk as Buffer));
+            req.on('end', () => {
+                received.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+                res.writeHead(204).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    afterEach(() => {
+        received.length = 0;
+        cleanup();
+    });
+
+    it('groups records into streams by label keys with ns timestamps and structured metadata', async () => {
+        const transport = new LokiTransport({
+            endpoint,
+            labels: ['level', 'service_name'],
+            staticLabels: { 'deploy.env': 'prod' },
+            serviceName: 'fallback-svc'
+        });
+        transport.write(record({ msg: 'first', prefix: 'API', attributes: { requestId: 'r-1', user: { id: 7 } } }));
+        transport.write(record({ msg: 'boom', level: 'error', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' }));
+        transport.write(record({ msg: 'second', time: TIME + 1, resource: { 'service.name': 'checkout' } }));
+        transport.write(record({ msg: 'third', time: TIME + 2 }));
+        await transport.flush();
+
+        expect(received[0]?.url).toBe('/loki/api/v1/push');
+        expect(received[0]?.headers['content-type']).toBe('application/json');
+        expect(payload().streams).toEqual([
+            {
+                stream: { deploy_env: 'prod', level: 'info', service_name: 'fallback-svc' },
+                values: [
+                    ['1792324800000000000', 'first', { prefix: 'API', requestId: 'r-1', user_id: '7' }],
+                    ['1792324800002000000', 'third']
+                ]
+            },
+            {
+                stream: { deploy_env: 'prod', level: 'error', service_name: 'fallback-svc' },
+                values: [['1792324800000000000', 'boom', { trace_id: '4bf92f3577b34da6a3ce929d0e0e4736', span_id: '00f067aa0ba902b7' }]]
+            },
+            {
+                stream: { deploy_env: 'prod', level: 'info', service_name: 'checkout' },
+                values: [['1792324800001000000', 'second']]
+            }
+        ]);
+    });
+
+    it('moves non-label fields to metadata and can skip structured metadata entirely', () => {
+        const withPrefix = new LokiTransport({ endpoint, labels: ['prefix'] });
+        expect(withPrefix.buildPayload([record({ prefix: 'DB' })]).streams).toEqual([
+            { stream: { prefix: 'DB' }, values: [['1792324800000000000', 'hello', { level: 'info' }]] }
+        ]);
+
+        const plain = new LokiTransport({ endpoint, structuredMetadata: false });
+        expect(plain.buildPayload([record({ attributes: { a: 1 } })]).streams[0]?.values).toEqual([
+            ['1792324800000000000', 'hello']
+        ]);
+    });
+
+    it('gzips the push and sends the tenant header', async () => {
+        const transport = new LokiTransport({ endpoint, tenantId: 'team-a', compression: 'gzip' });
+        transport.write(record({}));
+        await transport.flush();
+
+        expect(received[0]?.headers['content-encoding']).toBe('gzip');
+        expect(received[0]?.headers['x-scope-orgid']).toBe('team-a');
+        expect(payload().streams[0]?.values[0]?.[1]).toBe('hello');
+    });
+
+    it('is registered as the loki built-in', () => {
+        const tm = new TransportManager();
+        expect(tm.listRegistered()).toContain('loki');
+        expect(() => tm.register('loki', LokiTransport as never)).toThrow(/built-in/);
+        expect(() => tm.add({ target: 'loki' })).toThrow('LokiTransport: `endpoint` is required');
+    });
+});
@@ -1,13 +1,16 @@
 /**
  * OTLP field correctness unit tests — severityNumber per LogLevel,
- * timeUnixNano conversion, resource attributes, attributes flattening,
- * ingestKey from OTEL_INGEST_KEY env var.
+ * timeUnixNano conversion, resource attributes, attribute mapping (kvlist,
+ * bytes), exception.* semantic conventions, scope version, ingestKey from
+ * OTEL_INGEST_KEY env var.
  *
  *
  */
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { OtlpTransport } from '../../src/transports/OtlpTransport.js';
 import { LOG_LEVEL_TO_SEVERITY_NUMBER } from '../../src/types/index.js';
+import { Logger } from '../../src/Logger.js';
+import { version } from '../../package.json';
 import { cleanup } from '../setup.js';
 import type { TransportRecord } from '../../src/types/index.js';
 
@@ -208,7 +211,7 @@ describe('OTLP field correctness', () => {
     });
 
     describe('attributes flattening', () => {
-        it('nested object becomes JSON-stringified string value', () => {
+        it('nested object becomes kvlistValue', () => {
             const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
             const record: TransportRecord = {
                 level: 'info',
@@ -229,7 +232,9 @@ describe('OTLP field correctness', () => {
             const logRecord = payload.resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!;
 
             const nestedAttr = logRecord.attributes!.find(a => a.key === 'nested');
-            expect(nestedAttr?.value).toEqual({ stringValue: '{"deep":{"value":42}}' });
+            expect(nestedAttr?.value).toEqual({ kvlistValue: { values: [
+                { key: 'deep', value: { kvlistValue: { values: [{ key: 'value', value: { intValue: 42 } }] } } }
+            ]}});
 
             const arrayAttr = logRecord.attributes!.find(a => a.key === 'array');
             expect(arrayAttr?.value).toEqual({ arrayValue: { values: [
@@ -300,6 +305,24 @@ describe('OTLP field correctness', () => {
             expect(fnAttr?.value).toEqual({ stringValue: 'main' });
         });
 
+        it('Uint8Array becomes base64 bytesValue', () => {
+            const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
+            const record: TransportRecord = {
+                level: 'info',
+                levelValue: 1,
+                severityNumber: 9,
+                severityText: 'INFO',
+                time: Date.now(),
+                msg: 'bytes test',
+                attributes: { digest: new Uint8Array([0xde, 0xad, 0xbe, 0xef]) }
+            };
+            const payload = transport.buildPayload([record]);
+            const logRecord = payload.resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!;
+
+            const digest = logRecord.attributes!.find(a => a.key === 'digest');
+            expect(digest?.value).toEqual({ bytesValue: '3q2+7w==' });
+        });
+
         it('prefix is included as logger.prefix attribute', () => {
             const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
             const record: TransportRecord = {
@@ -337,6 +360,66 @@ describe('OTLP field correctness', () => {
         });
     });
 
+    describe('exceptions and scope', () => {
+        it('logger.error(err) maps to exception.* semantic conventions', async () => {
+            const logger = new Logger({ outputMode: 'silent' });
+            const err = new TypeError('cannot read property id');
+            await logger.error(err);
+            const record = logger.getHistory().at(-1)!;
+
+            // The text stays what the console already printed; the error only adds `exception`
+            expect(record.msg).toBe(String(logger.getSerializerRegistry().serialize(err)));
+            expect(record.exception).toEqual({
+                type: 'TypeError',
+                message: 'cannot read property id',
+                stacktrace: err.stack
+            });
+
+            const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
+            const attrs = transport.buildPayload([record]).resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!.attributes!;
+            expect(attrs.find(a => a.key === 'exception.type')?.value).toEqual({ stringValue: 'TypeError' });
+            expect(attrs.find(a => a.key === 'exception.message')?.value).toEqual({ stringValue: 'cannot read property id' });
+            expect(attrs.find(a => a.key === 'exception.stacktrace')?.value).toEqual({ stringValue: err.stack });
+        });
+
+        it('nested context objects reach OTLP as kvlistValue', async () => {
+            const logger = new Logger({ outputMode: 'silent' }).child({ order: { id: 7, tags: ['vip'] } });
+            await logger.warn('slow checkout', new Error('timeout'));
+            const record = logger.getHistory().at(-1)!;
+
+            expect(record.msg).toBe('slow checkout');
+            expect(record.exception?.type).toBe('Error');
+            expect(record.attributes?.['order']).toEqual({ id: 7, tags: ['vip'] });
+
+            const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
+            const attrs = transport.buildPayload([record]).resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!.attributes!;
+            expect(attrs.find(a => a.key === 'order')?.value).toEqual({ kvlistValue: { values: [
+                { key: 'id', value: { intValue: 7 } },
+                { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'vip' }] } } }
+            ]}});
+        });
+
+        it('shared sub-objects are kept in every branch and only cycles are dropped', async () => {
+            const address = { city: 'Madrid' };
+            const order: Record<string, unknown> = { billing: address, shipping: address, stops: [address, address] };
+            order['self'] = order;
+            const logger = new Logger({ outputMode: 'silent' }).child({ order });
+            await logger.info('checkout');
+
+            expect(logger.getHistory().at(-1)!.attributes?.['order']).toEqual({
+                billing: { city: 'Madrid' },
+                shipping: { city: 'Madrid' },
+                stops: [{ city: 'Madrid' }, { city: 'Madrid' }]
+            });
+        });
+
+        it('instrumentation scope carries the package version', () => {
+            const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
+            const { scope } = transport.buildPayload([]).resourceLogs[0]!.scopeLogs[0]!;
+            expect(scope).toEqual({ name: 'better-logger', version });
+        });
+    });
+
     describe('ingestKey from OTEL_INGEST_KEY env var', () => {
         it('OTEL_INGEST_KEY is read by default when set', () => {
             process.env['OTEL_INGEST_KEY'] = 'otel-default-key';
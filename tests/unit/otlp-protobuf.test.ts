@@ -0,0 +1,194 @@
+/**
+ * OTLP protobuf + gzip tests — OtlpTransport with `encoding: 'protobuf'` and
+ * `compression: 'gzip'` POSTs to a local mock collector that gunzips and
+ * decodes the ExportLogsServiceRequest with an independent wire-format
+ * reader, then asserts resource, scope, record fields and attributes.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gunzipSync } from 'node:zlib';
+import { OtlpTransport } from '../../src/transports/OtlpTransport.js';
+import { encodeExportLogsRequest } from '../../src/transports/otlpProtobuf.js';
+import type { TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+type Field = bigint | Uint8Array;
+
+/** Minimal protobuf reader: field number → values (varint as bigint, others as raw bytes). */
+function decode(buf: Uint8Array): Map<number, Field[]> {
+    const fields = new Map<number, Field[]>();
+    let pos = 0;
+    const varint = (): bigint => {
+        let result = 0n;
+        let shift = 0n;
+        for (;;) {
+            const byte = buf[pos++]!;
+            result |= BigInt(byte & 0x7f) << shift;
+            if ((byte & 0x80) === 0) return result;
+            shift += 7n;
+        }
+    };
+    while (pos < buf.length) {
+        const key = Number(varint());
+        const field = key >> 3;
+        let value: Field;
+        switch (key & 7) {
+            case 0: value = varint(); break;
+            case 1: value = buf.slice(pos, pos + 8); pos += 8; break;
+            case 2: {
+                const len = Number(varint());
+                value = buf.slice(pos, pos + len);
+                pos += len;
+                break;
+            }
+            default: throw new Error(`unexpected wire type ${key & 7}`);
+        }
+        fields.set(field, [...(fields.get(field) ?? []), value]);
+    }
+    return fields;
+}
+
+const bytes = (m: Map<number, Field[]>, field: number, i = 0) => m.get(field)?.[i] as Uint8Array;
+const nested = (m: Map<number, Field[]>, field: number, i = 0) => decode(bytes(m, field, i));
+const str = (m: Map<number, Field[]>, field: number) => new TextDecoder().decode(bytes(m, field));
+const hex = (b: Uint8Array) => Buffer.from(b).toString('hex');
+const fixed64 = (b: Uint8Array) => new DataView(b.buffer, b.byteOffset).getBigUint64(0, true);
+
+/** KeyValue list → { key: decoded AnyValue } (string/int/bool/double/array/kvlist/bytes). */
+function keyValues(m: Map<number, Field[]>, field: number): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    (m.get(field) ?? []).forEach((_, i) => {
+        const kv = nested(m, field, i);
+        out[str(kv, 1)] = anyValue(nested(kv, 2));
+    });
+    return out;
+}
+
+function anyValue(v: Map<number, Field[]>): unknown {
+    if (v.has(1)) return str(v, 1);
+    if (v.has(2)) return v.get(2)![0] === 1n;
+    if (v.has(3)) return BigInt.asIntN(64, v.get(3)![0] as bigint);
+    if (v.has(4)) return new DataView(bytes(v, 4).buffer, bytes(v, 4).byteOffset).getFloat64(0, true);
+    if (v.has(5)) {
+        const array = nested(v, 5);
+        return (array.get(1) ?? []).map((_, i) => anyValue(nested(array, 1, i)));
+    }
+    if (v.has(6)) return keyValues(nested(v, 6), 1);
+    if (v.has(7)) return hex(bytes(v, 7));
+    return undefined;
+}
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+const record: TransportRecord = {
+    level: 'warn',
+    levelValue: 2,
+    severityNumber: 13,
+    severityText: 'WARN',
+    time: TIME,
+    msg: 'disk almost full — 95%',
+    prefix: 'Storage',
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    attributes: {
+        usage: 0.95,
+        retries: -2,
+        mounted: true,
+        mounts: ['/', '/data'],
+        volume: { id: 'vol-1', iops: 3000 },
+        checksum: new Uint8Array([0xca, 0xfe])
+    },
+    exception: { type: 'QuotaError', message: 'quota exceeded' }
+};
+
+describe('OtlpTransport protobuf + gzip', () => {
+    let server: Server;
+    let endpoint: string;
+    const received: Array<{ headers: IncomingHttpHeaders; body: Buffer }> = [];
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk as Buffer));
+            req.on('end', () => {
+                received.push({ headers: req.headers, body: Buffer.concat(chunks) });
+                res.writeHead(200).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    afterEach(() => {
+        received.length = 0;
+        cleanup();
+    });
+
+    it('sends a gzipped ExportLogsServiceRequest the collector can decode', async () => {
+        const transport = new OtlpTransport({
+            endpoint,
+            serviceName: 'billing',
+            serviceVersion: '2.3.4',
+            encoding: 'protobuf',
+            compression: 'gzip'
+        });
+        transport.write(record);
+        await transport.flush();
+
+        expect(received).toHaveLength(1);
+        const { headers, body } = received[0]!;
+        expect(headers['content-type']).toBe('application/x-protobuf');
+        expect(headers['content-encoding']).toBe('gzip');
+
+        const request = decode(gunzipSync(body));
+        const resourceLogs = nested(request, 1);
+        expect(keyValues(nested(resourceLogs, 1), 1)).toEqual({
+            'service.name': 'billing',
+            'service.version': '2.3.4'
+        });
+
+        const scopeLogs = nested(resourceLogs, 2);
+        expect(str(nested(scopeLogs, 1), 1)).toBe('better-logger');
+
+        const logRecord = nested(scopeLogs, 2);
+        expect(fixed64(bytes(logRecord, 1))).toBe(BigInt(TIME) * 1_000_000n);
+        expect(fixed64(bytes(logRecord, 11))).toBe(BigInt(TIME) * 1_000_000n);
+        expect(logRecord.get(2)).toEqual([13n]);
+        expect(str(logRecord, 3)).toBe('WARN');
+        expect(anyValue(nested(logRecord, 5))).toBe('disk almost full — 95%');
+        expect(hex(bytes(logRecord, 9))).toBe(record.traceId);
+        expect(hex(bytes(logRecord, 10))).toBe(record.spanId);
+        expect(keyValues(logRecord, 6)).toEqual({
+            'logger.prefix': 'Storage',
+            usage: 0.95,
+            retries: -2n,
+            mounted: true,
+            mounts: ['/', '/data'],
+            volume: { id: 'vol-1', iops: 3000n },
+            checksum: 'cafe',
+            'exception.type': 'QuotaError',
+            'exception.message': 'quota exceeded'
+        });
+    });
+
+    it('keeps OTLP/JSON as the default, optionally gzipped', async () => {
+        const transport = new OtlpTransport({ endpoint, serviceName: 'billing', compression: 'gzip' });
+        transport.write(record);
+        await transport.flush();
+
+        const { headers, body } = received[0]!;
+        expect(headers['content-type']).toBe('application/json');
+        const payload = JSON.parse(gunzipSync(body).toString('utf8')) as ReturnType<OtlpTransport['buildPayload']>;
+        expect(payload).toEqual(transport.buildPayload([record]));
+    });
+
+    it('protobuf is smaller than JSON for the same batch', () => {
+        const transport = new OtlpTransport({ endpoint, serviceName: 'billing' });
+        const payload = transport.buildPayload(Array.from({ length: 20 }, () => record));
+        expect(encodeExportLogsRequest(payload).length).toBeLessThan(JSON.stringify(payload).length / 2);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * `better-logger pretty` tests — NDJSON in this library's TransportRecord
+ * shape and in pino / bunyan shape normalises to TransportRecord, records
+ * re-render in the console layout (level filter, --translate-time,
+ * include/exclude, theme badges), non-JSON lines and lines with an unknown
+ * level pass through, and the bin dispatcher reports usage errors with
+ * exit code 2.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { writeFileSync, rmSync } from 'node:fs';
+import { main } from '../../src/bin/index.js';
+import { normalizeRecord, formatPrettyRecord } from '../../src/bin/pretty.js';
+import { THEME_PRESETS } from '../../src/styling/themes.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.042Z');
+
+/** Runs the bin with in-memory streams, feeding `input` on stdin. */
+async function run(argv: string[], input = '') {
+    const stdin = new PassThrough();
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let out = '';
+    let err = '';
+    stdout.on('data', chunk => { out += String(chunk); });
+    stderr.on('data', chunk => { err += String(chunk); });
+    stdin.end(input);
+    const code = await main(argv, { stdin, stdout, stderr });
+    return { code, out, err };
+}
+
+describe('better-logger pretty', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('normalises TransportRecord, pino and bunyan lines', () => {
+        expect(normalizeRecord({ level: 'warn', time: TIME, msg: 'own', prefix: 'API', attributes: { a: 1 } })).toMatchObject({
+            level: 'warn', levelValue: 2, time: TIME, msg: 'own', prefix: 'API', attributes: { a: 1 }
+        });
+        expect(normalizeRecord({
+            level: 50, time: TIME, pid: 1, hostname: 'h', name: 'DB', msg: 'pino', trace_id: 't1',
+            err: { type: 'TypeError', message: 'boom', stack: 'TypeError: boom' }, userId: 42
+        })).toEqual({
+            level: 'error', levelValue: 3, severityNumber: 0, severityText: 'ERROR', time: TIME, msg: 'pino', prefix: 'DB',
+            traceId: 't1', exception: { type: 'TypeError', message: 'boom', stacktrace: 'TypeError: boom' }, attributes: { userId: 42 }
+        });
+        expect(normalizeRecord({ v: 0, level: 60, name: 'app', component: 'Auth', time: '2026-10-18T12:00:00.042Z', msg: 'bunyan' }))
+            .toMatchObject({ level: 'critical', prefix: 'Auth', time: TIME });
+        expect(normalizeRecord({ hello: 'world' })).toBeNull();
+        expect(normalizeRecord([1, 2])).toBeNull();
+    });
+
+    it('renders the console layout with translated time and include/exclude', () => {
+        const record = normalizeRecord({
+            level: 'error', time: TIME, msg: 'payment failed', prefix: 'Billing',
+            location: { file: 'pay.ts', line: 10, column: 3 },
+            exception: { type: 'Error', message: 'boom', stacktrace: 'Error: boom\n    at pay (pay.ts:10:3)' },
+            attributes: { orderId: 'o-1', amount: 12.5 }, traceId: 'abc'
+        })!;
+
+        expect(formatPrettyRecord(record, { colors: false, translateTime: 'UTC:yyyy-mm-dd HH:MM:ss.l' })).toBe([
+            '[2026-10-18 12:00:00.042] ❌ ERROR    [Billing] payment failed (pay.ts:10:3)',
+            '    Error: boom',
+            '        at pay (pay.ts:10:3)',
+            '    orderId: o-1',
+            '    amount: 12.5',
+            '    traceId: abc',
+            ''
+        ].join('\n'));
+
+        expect(formatPrettyRecord(record, { colors: false, exclude: ['time', 'location', 'exception'], include: ['amount'] }))
+            .toBe('❌ ERROR    [Billing] payment failed\n    amount: 12.5\n');
+        expect(formatPrettyRecord(record, { colors: false, exclude: ['time'] }).split('\n')[0]).toContain('(pay.ts:10:3)');
+    });
+
+    it('uses the chosen theme for level badges', () => {
+        const record = normalizeRecord({ level: 'info', time: TIME, msg: 'themed' })!;
+        const { emoji, label } = THEME_PRESETS.neon.info!;
+        expect(formatPrettyRecord(record, { colors: false, theme: 'neon', exclude: ['time'] }))
+            .toBe(` ${emoji ? `${emoji} ` : ''}${label.padEnd(8)} themed\n`);
+    });
+
+    it('filters stdin by level and passes non-JSON lines through', async () => {
+        const input = [
+            JSON.stringify({ level: 'debug', time: TIME, msg: 'hidden' }),
+            'plain text line',
+            JSON.stringify({ level: 'constructor', msg: 'not a level' }),
+            JSON.stringify({ level: 40, time: TIME, msg: 'pino warn' }),
+            '',
+            JSON.stringify({ level: 'critical', time: TIME, msg: 'down' })
+        ].join('\n');
+
+        const { code, out } = await run(['pretty', '--level', 'warn', '-t', '--no-color'], input);
+        expect(code).toBe(0);
+        const lines = out.trimEnd().split('\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[0]).toBe('plain text line');
+        expect(lines[1]).toBe('{"level":"constructor","msg":"not a level"}');
+        expect(lines[2]).toMatch(/^\[\d\d:\d\d:\d\d\.042\] ⚠️ WARN {5}pino warn$/);
+        expect(lines[3]).toContain('CRITICAL down');
+    });
+
+    it('reads a file argument and reports usage and I/O errors', async () => {
+        const path = `.tmp-pretty-${process.pid}.log`;
+        writeFileSync(path, `${JSON.stringify({ level: 'info', time: TIME, msg: 'from file' })}\n`);
+        try {
+            const fromFile = await run(['pretty', '--no-color', '--translate-time=iso', path]);
+            expect(fromFile.out).toBe('[2026-10-18T12:00:00.042Z] ℹ️ INFO     from file\n');
+        } finally {
+            rmSync(path, { force: true });
+        }
+
+        expect((await run(['pretty', 'missing.log'])).code).toBe(1);
+        expect((await run(['pretty', '--theme', 'nope'])).code).toBe(2);
+        expect((await run(['pretty', '--theme', 'constructor'])).code).toBe(2);
+        const badLevel = await run(['pretty', '--level', 'constructor']);
+        expect(badLevel.code).toBe(2);
+        expect(badLevel.err).toContain('unknown level "constructor"');
+        const unknown = await run(['frobnicate']);
+        expect(unknown.code).toBe(2);
+        expect(unknown.err).toContain('unknown command "frobnicate"');
+    });
+});
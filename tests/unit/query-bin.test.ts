@@ -0,0 +1,166 @@
+/**
+ * `better-logger query` tests — the filter language (comparisons, level and
+ * time semantics, dotted keys, regex, and / or / not, parse errors), reading
+ * FileTransport output including rotated and gzipped siblings in age order,
+ * `--limit` and export formats, `--follow` across appends and a rotation,
+ * and the CLI's usage errors.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { PassThrough, Writable } from 'node:stream';
+import { appendFileSync, mkdtempSync, renameSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { main } from '../../src/bin/index.js';
+import { compileFilter } from '../../src/bin/query-filter.js';
+import { queryLogs } from '../../src/bin/query.js';
+import type { LogLevel, TransportRecord } from '../../src/types/index.js';
+import { LOG_LEVELS } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+function record(msg: string, level: LogLevel = 'info', overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level, levelValue: LOG_LEVELS[level], severityNumber: 9, severityText: level.toUpperCase(), time: TIME, msg, ...overrides
+    };
+}
+
+function ndjson(...records: TransportRecord[]): string {
+    return records.map(r => `${JSON.stringify(r)}\n`).join('');
+}
+
+function sink() {
+    let text = '';
+    const stream = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+            text += chunk.toString('utf8');
+            callback();
+        }
+    });
+    return { stream, text: () => text };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 10));
+    expect(condition()).toBe(true);
+}
+
+describe('better-logger query', () => {
+    let dir: string | undefined;
+    const tempDir = () => (dir = mkdtempSync(join(tmpdir(), 'better-logger-query-')));
+
+    afterEach(() => {
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+        cleanup();
+    });
+
+    it('compiles filter expressions over record fields', () => {
+        const api = record('user loaded', 'warn', {
+            prefix: 'API:users', attributes: { userId: 42, plan: 'pro' }, resource: { 'service.name': 'billing' }
+        });
+        const db = record('ECONNRESET on query', 'error', {
+            prefix: 'DB', time: TIME + 60_000, exception: { type: 'Error', message: 'reset' }, attributes: { userId: '7' }
+        });
+        const debug = record('cache miss', 'debug');
+        const match = (expression: string) => [api, db, debug].filter(compileFilter(expression)).map(r => r.msg);
+
+        expect(match('level>=warn and prefix~"API" and attributes.userId=42')).toEqual(['user loaded']);
+        expect(match('level>=warn')).toEqual(['user loaded', 'ECONNRESET on query']);
+        expect(match('level<info or exception')).toEqual(['ECONNRESET on query', 'cache miss']);
+        expect(match('not (prefix~api or prefix=DB)')).toEqual(['cache miss']);
+        expect(match('message~/econn(reset|refused)/i')).toEqual(['ECONNRESET on query']);
+        expect(match('resource.service.name="billing"')).toEqual(['user loaded']);
+        expect(match('attributes.userId>10')).toEqual(['user loaded']);
+        expect(match('attributes.plan!=pro')).toEqual(['ECONNRESET on query', 'cache miss']);
+        expect(match('time>="2026-10-18T12:00:30Z"')).toEqual(['ECONNRESET on query']);
+        expect(match('')).toHaveLength(3);
+        expect(match('attributes.constructor')).toEqual([]);
+
+        expect(() => compileFilter('level>=loud')).toThrow('invalid filter at column 8: unknown level "loud"');
+        expect(() => compileFilter('level>=constructor')).toThrow('unknown level "constructor"');
+        expect(() => compileFilter('level>=warn and')).toThrow('unexpected end of expression');
+        expect(() => compileFilter('(level=warn')).toThrow('expected ")"');
+        expect(() => compileFilter('prefix="API')).toThrow('unterminated string');
+        expect(() => compileFilter('prefix=/API/')).toThrow('only works with "~"');
+    });
+
+    it('reads rotated and gzipped files oldest first and exports the matches', async () => {
+        const base = join(tempDir(), 'app.log');
+        writeFileSync(`${base}.2026-10-16`, ndjson(record('oldest', 'error')));
+        writeFileSync(`${base}.2026-10-17.gz`, gzipSync(ndjson(record('rotated gz', 'warn'), record('noise', 'debug'))));
+        writeFileSync(`${base}.bak`, ndjson(record('not a rotation', 'error')));
+        writeFileSync(base, `${ndjson(record('active', 'critical'))}not json\n`);
+        utimesSync(`${base}.2026-10-16`, 1, 1);
+        utimesSync(`${base}.2026-10-17.gz`, 2, 2);
+
+        const plain = sink();
+        await queryLogs([base], plain.stream, { where: 'level>=warn', rotated: true });
+        expect(plain.text().trimEnd().split('\n').map(line => line.split(' ').slice(2).join(' '))).toEqual(['oldest', 'rotated gz', 'active']);
+
+        const csv = sink();
+        await queryLogs([base], csv.stream, { where: 'level>=warn', rotated: true, limit: 2, format: 'csv' });
+        const rows = csv.text().trimEnd().split('\r\n');
+        expect(rows[0]).toBe('time,level,prefix,tag,message,location,traceId,spanId,attributes');
+        expect(rows.slice(1).map(row => row.split(',')[1])).toEqual(['warn', 'critical']);
+
+        const onlyActive = sink();
+        await queryLogs([base], onlyActive.stream, { format: 'json' });
+        expect((JSON.parse(onlyActive.text()) as TransportRecord[]).map(r => r.msg)).toEqual(['active']);
+    });
+
+    it('follows the active file across appends and a rotation', async () => {
+        const base = join(tempDir(), 'app.log');
+        writeFileSync(base, ndjson(record('before 1'), record('before 2'), record('before 3')));
+
+        const out = sink();
+        const controller = new AbortController();
+        const done = queryLogs([base], out.stream, {
+            follow: true, limit: 1, format: 'json', pollInterval: 10, signal: controller.signal
+        });
+        const messages = () => out.text().trimEnd().split('\n').filter(Boolean).map(line => (JSON.parse(line) as TransportRecord).msg);
+
+        await waitFor(() => messages().length === 1);
+        // Línea a medias: no se emite hasta que llega el salto de línea.
+        appendFileSync(base, ndjson(record('appended 1'), record('appended 2')).slice(0, -5));
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(messages()).toEqual(['before 3', 'appended 1']);
+        appendFileSync(base, ndjson(record('appended 2')).slice(-5));
+
+        renameSync(base, `${base}.2026-10-18`);
+        appendFileSync(`${base}.2026-10-18`, ndjson(record('late write to rotated')));
+        writeFileSync(base, ndjson(record('after rotation')));
+        await waitFor(() => messages().length === 5);
+
+        controller.abort();
+        await done;
+        expect(messages()).toEqual(['before 3', 'appended 1', 'appended 2', 'late write to rotated', 'after rotation']);
+    });
+
+    it('runs from the bin with stdin input and reports usage errors', async () => {
+        const run = async (argv: string[], input = '') => {
+            const stdin = new PassThrough();
+            const stdout = sink();
+            const stderr = sink();
+            stdin.end(input);
+            const code = await main(argv, { stdin, stdout: stdout.stream, stderr: stderr.stream });
+            return { code, out: stdout.text(), err: stderr.text() };
+        };
+
+        const input = ndjson(record('kept', 'error', { prefix: 'API' }), record('dropped', 'error', { prefix: 'DB' }));
+        const result = await run(['query', '-w', 'prefix=API', '-o', 'markdown'], input);
+        expect(result.code).toBe(0);
+        expect(result.out).toContain('| 2026-10-18T12:00:00.000Z | ERROR | API | kept |');
+        expect(result.out).not.toContain('dropped');
+
+        const badFilter = await run(['query', '-w', 'level>>warn']);
+        expect(badFilter.code).toBe(2);
+        expect(badFilter.err).toContain('invalid filter at column 7');
+        expect((await run(['query', '-f'])).err).toContain('--follow needs a file');
+        expect((await run(['query', '-f', '-o', 'html', 'app.log'])).code).toBe(2);
+        expect((await run(['query', '-o', 'xml'])).code).toBe(2);
+        expect((await run(['query', '-o', 'constructor'])).code).toBe(2);
+        expect((await run(['query', join(tmpdir(), 'does-not-exist.log')])).code).toBe(1);
+    });
+});
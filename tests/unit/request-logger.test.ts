@@ -0,0 +1,177 @@
+/**
+ * Request logging middleware unit tests — httpRequestLogger and
+ * expressRequestLogger against a local http.createServer, plus
+ * fastifyRequestLogger / honoRequestLogger against minimal framework shapes.
+ * Verifies: per-request ALS scope (requestId, method, route, ip), start and
+ * finish logs, status → level mapping, duration, x-request-id reuse/echo and
+ * traceparent propagation.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+    httpRequestLogger,
+    expressRequestLogger,
+    fastifyRequestLogger,
+    honoRequestLogger,
+    levelForStatus,
+    type FastifyRequestLike,
+    type FastifyReplyLike,
+    type HonoContextLike,
+} from '../../src/node-module.js';
+import { Logger } from '../../src/Logger.js';
+import { cleanup } from '../setup.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+let server: http.Server | undefined;
+
+async function listen(listener: http.RequestListener): Promise<string> {
+    server = http.createServer(listener);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const finishRecord = (logger: Logger) => logger.getHistory({ search: '<--' }).at(-1);
+
+describe('request logging middleware', () => {
+    afterEach(async () => {
+        cleanup();
+        if (server) await new Promise(resolve => server!.close(resolve));
+        server = undefined;
+    });
+
+    it('levelForStatus maps 5xx to error and 4xx to warn', () => {
+        expect(levelForStatus(503)).toBe('error');
+        expect(levelForStatus(404)).toBe('warn');
+        expect(levelForStatus(302)).toBe('info');
+        expect(levelForStatus(200)).toBe('info');
+    });
+
+    describe('httpRequestLogger', () => {
+        it('scopes handler logs and logs start/finish with status and duration', async () => {
+            const logger = new Logger({ verbosity: 'debug', outputMode: 'silent' });
+            const base = await listen(httpRequestLogger(logger, async (_req, res) => {
+                await Promise.resolve();
+                await logger.info('inside handler');
+                res.statusCode = 201;
+                res.end('ok');
+            }));
+
+            const response = await fetch(`${base}/users/42?x=1`, { method: 'POST' });
+            const requestId = response.headers.get('x-request-id');
+            expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+
+            await vi.waitFor(() => expect(finishRecord(logger)).toBeDefined());
+            const [start, inside, finish] = logger.getHistory();
+            expect(start).toMatchObject({ level: 'debug', msg: '--> POST /users/42' });
+            expect(inside?.attributes).toMatchObject({ requestId, method: 'POST', route: '/users/42', ip: '127.0.0.1' });
+            expect(finish?.level).toBe('info');
+            expect(finish?.msg).toMatch(/^<-- POST \/users\/42 201 [\d.]+ms$/);
+            expect(finish?.attributes).toMatchObject({ requestId, status: 201 });
+            expect(typeof finish?.attributes?.['durationMs']).toBe('number');
+        });
+
+        it('maps error statuses to levels and answers 500 when the handler throws', async () => {
+            const logger = new Logger({ outputMode: 'silent' });
+            const base = await listen(httpRequestLogger(logger, (req, res) => {
+                if (req.url === '/boom') throw new Error('kaput');
+                res.statusCode = 404;
+                res.end();
+            }));
+
+            await fetch(`${base}/missing`);
+            await vi.waitFor(() => expect(finishRecord(logger)?.level).toBe('warn'));
+
+            const response = await fetch(`${base}/boom`);
+            expect(response.status).toBe(500);
+            await vi.waitFor(() => expect(finishRecord(logger)?.level).toBe('error'));
+            expect(logger.getHistory({ search: 'Unhandled request error' })).toHaveLength(1);
+        });
+
+        it('reuses the incoming request id and traceparent, and honours options', async () => {
+            const logger = new Logger({ outputMode: 'silent' });
+            const base = await listen(httpRequestLogger(logger, (_req, res) => { res.end(); }, {
+                trustProxy: true,
+                ignore: info => info.route === '/health'
+            }));
+
+            const response = await fetch(`${base}/orders`, {
+                headers: { 'x-request-id': 'req-abc', traceparent: TRACEPARENT, 'x-forwarded-for': '203.0.113.9, 10.0.0.1' }
+            });
+            expect(response.headers.get('x-request-id')).toBe('req-abc');
+            await vi.waitFor(() => expect(finishRecord(logger)).toBeDefined());
+            expect(finishRecord(logger)).toMatchObject({ traceId: TRACE_ID, attributes: { requestId: 'req-abc', ip: '203.0.113.9' } });
+
+            await fetch(`${base}/health`);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(logger.getHistory({ search: '/health' })).toHaveLength(0);
+        });
+    });
+
+    it('expressRequestLogger scopes next() and reports the matched route', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        const middleware = expressRequestLogger(logger, { logStart: false });
+        const base = await listen((req, res) => {
+            middleware(req, res, () => {
+                // Lo que haría el router de Express tras matchear
+                Object.assign(req, { baseUrl: '/api', route: { path: '/users/:id' } });
+                setTimeout(() => {
+                    void logger.info('async work');
+                    res.end();
+                }, 1);
+            });
+        });
+
+        await fetch(`${base}/api/users/7`);
+        await vi.waitFor(() => expect(finishRecord(logger)).toBeDefined());
+        const [work, finish] = logger.getHistory();
+        expect(work?.attributes).toMatchObject({ method: 'GET', route: '/api/users/7' });
+        expect(finish?.attributes).toMatchObject({ route: '/api/users/:id', status: 200 });
+    });
+
+    it('fastifyRequestLogger registers global onRequest/onResponse hooks', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        const hooks: Record<string, (request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => void> = {};
+        const plugin = fastifyRequestLogger(logger);
+        plugin({ addHook: (name, hook) => { hooks[name] = hook; } }, {}, () => undefined);
+        expect((plugin as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')]).toBe(true);
+
+        const base = await listen((req, res) => {
+            const request: FastifyRequestLike = { raw: req, method: req.method ?? 'GET', url: req.url ?? '/', ip: '10.1.1.1', routeOptions: { url: '/items/:id' } };
+            const reply: FastifyReplyLike = { get statusCode() { return res.statusCode; }, header: (n, v) => res.setHeader(n, v) };
+            hooks['onRequest']?.(request, reply, () => {
+                void logger.info('handler');
+                res.statusCode = 503;
+                res.end();
+                hooks['onResponse']?.(request, reply, () => undefined);
+            });
+        });
+
+        const response = await fetch(`${base}/items/1`);
+        expect(response.headers.get('x-request-id')).toBeTruthy();
+        await vi.waitFor(() => expect(finishRecord(logger)?.level).toBe('error'));
+        expect(logger.getHistory({ search: 'handler' })[0]?.attributes).toMatchObject({ route: '/items/:id', ip: '10.1.1.1' });
+    });
+
+    it('honoRequestLogger wraps next() in the request scope', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        const headers: Record<string, string> = {};
+        const c: HonoContextLike = {
+            req: { method: 'DELETE', url: 'http://localhost/posts/9', routePath: '/posts/:id', raw: new Request('http://localhost/posts/9', { method: 'DELETE' }) },
+            res: new Response(null, { status: 204 }),
+            header: (name, value) => { headers[name] = value; }
+        };
+
+        await honoRequestLogger(logger)(c, async () => {
+            await Promise.resolve();
+            await logger.info('deleting');
+        });
+
+        await vi.waitFor(() => expect(finishRecord(logger)).toBeDefined());
+        expect(logger.getHistory({ search: 'deleting' })[0]?.attributes).toMatchObject({ method: 'DELETE', route: '/posts/9' });
+        expect(finishRecord(logger)?.attributes).toMatchObject({ route: '/posts/:id', status: 204 });
+        expect(headers['x-request-id']).toBeTruthy();
+    });
+});
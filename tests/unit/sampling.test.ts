@@ -0,0 +1,156 @@
+/**
+ * Sampling unit tests — Sampler per-level rates, deterministic trace-id
+ * sampling, per-key token bucket, error/critical bypass and stats; plus the
+ * LoggerConfig.sampling (history keeps everything) and per-transport
+ * options.sampling integrations.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Sampler } from '../../src/sampling/index.js';
+import { TransportManager } from '../../src/transports/TransportManager.js';
+import { Logger } from '../../src/Logger.js';
+import type { TransportRecord, LogLevel } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const record = (level: LogLevel, extra: Partial<TransportRecord> = {}): TransportRecord => ({
+    level,
+    levelValue: 1,
+    severityNumber: 9,
+    severityText: level.toUpperCase(),
+    time: Date.now(),
+    msg: 'sampled',
+    ...extra
+});
+
+/** traceId cuyos últimos 8 hex valen `fraction` de 0xffffffff. */
+const traceIdAt = (fraction: number): string =>
+    '4bf92f3577b34da6a3ce929d' + Math.floor(fraction * 0xffffffff).toString(16).padStart(8, '0');
+
+describe('Sampler', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        cleanup();
+    });
+
+    it('applies per-level rates and leaves other levels untouched', () => {
+        const sampler = new Sampler({ rates: { debug: 0.1 } });
+        const random = vi.spyOn(Math, 'random');
+
+        random.mockReturnValue(0.05);
+        expect(sampler.shouldKeep(record('debug'))).toBe(true);
+        random.mockReturnValue(0.5);
+        expect(sampler.shouldKeep(record('debug'))).toBe(false);
+        expect(sampler.shouldKeep(record('info'))).toBe(true);
+    });
+
+    it('never samples error and critical by default; bypassLevels overrides', () => {
+        const sampler = new Sampler({ rates: { error: 0, critical: 0, warn: 0 } });
+        expect(sampler.shouldKeep(record('error'))).toBe(true);
+        expect(sampler.shouldKeep(record('critical'))).toBe(true);
+        expect(sampler.shouldKeep(record('warn'))).toBe(false);
+
+        const strict = new Sampler({ rates: { error: 0 }, bypassLevels: [] });
+        expect(strict.shouldKeep(record('error'))).toBe(false);
+    });
+
+    it('decides per trace id deterministically, ignoring rates', () => {
+        const sampler = new Sampler({ traceRatio: 0.25, rates: { info: 0 } });
+        const kept = traceIdAt(0.1);
+        const dropped = traceIdAt(0.9);
+
+        for (let i = 0; i < 5; i++) {
+            expect(sampler.shouldKeep(record('info', { traceId: kept }))).toBe(true);
+            expect(sampler.shouldKeep(record('debug', { traceId: dropped }))).toBe(false);
+        }
+        // Sin traceId vuelve a aplicar rates
+        expect(sampler.shouldKeep(record('info'))).toBe(false);
+    });
+
+    it('rate-limits per prefix with a token bucket', () => {
+        vi.useFakeTimers();
+        const sampler = new Sampler({ rateLimit: { perSecond: 2, burst: 3 } });
+        const api = () => sampler.shouldKeep(record('info', { prefix: 'API' }));
+
+        expect([api(), api(), api(), api()]).toEqual([true, true, true, false]);
+        expect(sampler.shouldKeep(record('info', { prefix: 'DB' }))).toBe(true);
+
+        vi.advanceTimersByTime(500);
+        expect([api(), api()]).toEqual([true, false]);
+    });
+
+    it('supports a custom rate-limit key; undefined exempts the record', () => {
+        const sampler = new Sampler({
+            rateLimit: { perSecond: 1, key: r => r.attributes?.tenant as string | undefined }
+        });
+        const tenant = (id?: string) =>
+            sampler.shouldKeep(record('info', id ? { attributes: { tenant: id } } : {}));
+
+        expect([tenant('a'), tenant('a'), tenant('b')]).toEqual([true, false, true]);
+        expect([tenant(), tenant()]).toEqual([true, true]);
+    });
+
+    it('counts kept and dropped records by level and reason', () => {
+        vi.useFakeTimers();
+        const sampler = new Sampler({ rates: { debug: 0 }, rateLimit: { perSecond: 1 } });
+        sampler.shouldKeep(record('debug'));
+        sampler.shouldKeep(record('info'));
+        sampler.shouldKeep(record('info'));
+        sampler.shouldKeep(record('error'));
+
+        expect(sampler.stats()).toEqual({
+            kept: 2,
+            dropped: 2,
+            levels: {
+                debug: { kept: 0, dropped: 1 },
+                info: { kept: 1, dropped: 1 },
+                error: { kept: 1, dropped: 0 }
+            },
+            reasons: { ratio: 1, trace: 0, rateLimit: 1 }
+        });
+
+        sampler.resetStats();
+        expect(sampler.stats()).toMatchObject({ kept: 0, dropped: 0, levels: {} });
+    });
+});
+
+describe('sampling integration', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('LoggerConfig.sampling filters transports but history keeps every record', async () => {
+        const written: TransportRecord[] = [];
+        const logger = new Logger({ outputMode: 'silent', sampling: { rates: { info: 0, warn: 0 } } });
+        logger.addTransport({ target: { name: 'capture', write: r => { written.push(r); } } });
+
+        await logger.info('noise');
+        await logger.warn('noise');
+        await logger.error('boom');
+
+        expect(logger.getHistory().map(r => r.level)).toEqual(['info', 'warn', 'error']);
+        expect(written.map(r => r.level)).toEqual(['error']);
+        expect(logger.getSamplingStats()).toMatchObject({ kept: 1, dropped: 2, reasons: { ratio: 2 } });
+
+        logger.updateConfig({ sampling: undefined });
+        expect(logger.getSamplingStats()).toBeUndefined();
+    });
+
+    it('options.sampling applies per transport', () => {
+        const manager = new TransportManager();
+        const sampled: TransportRecord[] = [];
+        const full: TransportRecord[] = [];
+        const sampledId = manager.add({
+            target: { name: 'sampled', write: r => { sampled.push(r); } },
+            options: { sampling: { rates: { info: 0 } } }
+        });
+        const fullId = manager.add({ target: { name: 'full', write: r => { full.push(r); } } });
+
+        void manager.write(record('info'));
+        void manager.write(record('warn'));
+
+        expect(sampled.map(r => r.level)).toEqual(['warn']);
+        expect(full).toHaveLength(2);
+        expect(manager.getSamplingStats(sampledId)).toMatchObject({ kept: 1, dropped: 1 });
+        expect(manager.getSamplingStats(fullId)).toBeUndefined();
+    });
+});
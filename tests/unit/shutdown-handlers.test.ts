@@ -0,0 +1,142 @@
+/**
+ * installShutdownHandlers tests — SIGTERM / SIGINT log at critical, run
+ * onShutdown, drain the transports and exit with 128 + signal number;
+ * uncaughtException / unhandledRejection log the error and exit 1;
+ * beforeExit drains without exiting; the deadline bounds a hung transport;
+ * a second signal exits immediately; and the returned function uninstalls
+ * every listener. Listeners are invoked directly so the test runner's own
+ * process handlers never see the events.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { installShutdownHandlers, type ShutdownHandlerOptions } from '../../src/node/shutdown.js';
+import { Logger } from '../../src/Logger.js';
+import type { ITransport, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+type Listener = (...args: unknown[]) => void;
+
+/** Transport con flush asíncrono: `records` solo se llena al hacer flush. */
+class BufferedRecorder implements ITransport {
+    readonly name = 'recorder';
+    buffered: TransportRecord[] = [];
+    records: TransportRecord[] = [];
+    closed = false;
+    constructor(private readonly flushDelay = 10) {}
+    write(record: TransportRecord): void {
+        this.buffered.push(record);
+    }
+    async flush(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, this.flushDelay));
+        this.records.push(...this.buffered.splice(0));
+    }
+    close(): void {
+        this.closed = true;
+    }
+}
+
+describe('installShutdownHandlers', () => {
+    let uninstall: (() => void) | undefined;
+
+    afterEach(() => {
+        uninstall?.();
+        uninstall = undefined;
+        vi.restoreAllMocks();
+        cleanup();
+    });
+
+    /** Instala los handlers y devuelve el listener nuevo de cada evento. */
+    function install(options: ShutdownHandlerOptions & { flushDelay?: number } = {}) {
+        const logger = new Logger({ outputMode: 'silent' });
+        const recorder = new BufferedRecorder(options.flushDelay);
+        logger.addTransport({ target: recorder });
+
+        const events = ['SIGINT', 'SIGTERM', 'uncaughtException', 'unhandledRejection', 'beforeExit'] as const;
+        const before = Object.fromEntries(events.map(event => [event, new Set(process.listeners(event))]));
+        let exited: (code: number) => void = () => undefined;
+        const exitCode = new Promise<number>(resolve => { exited = resolve; });
+        const exit = vi.fn((code: number) => exited(code));
+        uninstall = installShutdownHandlers(logger, { exit, ...options });
+
+        const listener = (event: typeof events[number]): Listener =>
+            process.listeners(event).find(fn => !before[event]!.has(fn)) as Listener;
+        return { logger, recorder, exit, exitCode, listener };
+    }
+
+    it('drains the transports on SIGTERM and exits with 128 + signal number', async () => {
+        const steps: string[] = [];
+        const { logger, recorder, exit, exitCode, listener } = install({
+            onShutdown: async event => {
+                steps.push(`onShutdown:${event}`);
+                await logger.info('server closed');
+            }
+        });
+        await logger.info('serving');
+
+        listener('SIGTERM')('SIGTERM');
+        expect(await exitCode).toBe(143);
+        expect(exit).toHaveBeenCalledTimes(1);
+        expect(steps).toEqual(['onShutdown:SIGTERM']);
+        expect(recorder.closed).toBe(true);
+        expect(recorder.records.map(r => [r.level, r.msg])).toEqual([
+            ['info', 'serving'],
+            ['critical', 'Received SIGTERM, shutting down'],
+            ['info', 'server closed']
+        ]);
+    });
+
+    it('logs uncaught exceptions and unhandled rejections at critical and exits 1', async () => {
+        const crash = install();
+        crash.listener('uncaughtException')(new TypeError('boom'), 'uncaughtException');
+        expect(await crash.exitCode).toBe(1);
+        const [record] = crash.recorder.records;
+        expect(record).toMatchObject({ level: 'critical', exception: { type: 'TypeError', message: 'boom' } });
+        expect(record!.msg).toContain('Uncaught exception, shutting down');
+        uninstall!();
+
+        const rejection = install();
+        rejection.listener('unhandledRejection')(new Error('nope'), Promise.resolve());
+        expect(await rejection.exitCode).toBe(1);
+        expect(rejection.recorder.records[0]).toMatchObject({ level: 'critical', exception: { message: 'nope' } });
+    });
+
+    it('drains on beforeExit without logging or forcing an exit', async () => {
+        const { logger, recorder, exit, listener } = install();
+        await logger.info('done');
+
+        listener('beforeExit')(0);
+        await vi.waitFor(() => expect(recorder.closed).toBe(true));
+        // Un segundo beforeExit (el drain programó trabajo) no repite nada.
+        listener('beforeExit')(0);
+        expect(recorder.records.map(r => r.msg)).toEqual(['done']);
+        expect(exit).not.toHaveBeenCalled();
+    });
+
+    it('exits after the deadline when a transport hangs, and at once on a second signal', async () => {
+        const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+        const hung = install({ timeout: 30, flushDelay: 60_000 });
+        const started = Date.now();
+        hung.listener('SIGINT')('SIGINT');
+        expect(await hung.exitCode).toBe(130);
+        expect(Date.now() - started).toBeLessThan(5_000);
+        expect(stderr).toHaveBeenCalledWith('better-logger: shutdown did not finish within 30ms, exiting anyway\n');
+        uninstall!();
+
+        const impatient = install({ flushDelay: 60_000, timeout: 60_000 });
+        impatient.listener('SIGINT')('SIGINT');
+        impatient.listener('SIGTERM')('SIGTERM');
+        expect(await impatient.exitCode).toBe(143);
+        expect(impatient.exit).toHaveBeenCalledTimes(1);
+    });
+
+    it('uninstalls every listener', () => {
+        const events = ['SIGINT', 'SIGTERM', 'uncaughtException', 'unhandledRejection', 'beforeExit'] as const;
+        const counts = events.map(event => process.listenerCount(event));
+        const { listener } = install();
+        expect(events.map(event => process.listenerCount(event))).toEqual(counts.map(count => count + 1));
+        expect(typeof listener('SIGINT')).toBe('function');
+
+        uninstall!();
+        uninstall = undefined;
+        expect(events.map(event => process.listenerCount(event))).toEqual(counts);
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Spill queue tests — HttpTransport with `spill` persists batches that
+ * exhaust retries as segment files, replays them in order (before new
+ * records) once the endpoint recovers, picks up segments left by a previous
+ * instance, drains on close(), and enforces the maxBytes / maxAgeMs caps via
+ * onError. Uses a scratch directory relative to cwd and a mocked global fetch.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readdir, rm } from 'node:fs/promises';
+import { HttpTransport } from '../../src/transports/HttpTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const DIR = `.tmp-spill-${process.pid}`;
+
+function record(msg: string): TransportRecord {
+    return { level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: Date.now(), msg };
+}
+
+/** fetch mock: `up()` decides the response; delivered bodies are collected as message lists. */
+function mockCollector(up: () => boolean | number) {
+    const delivered: string[][] = [];
+    global.fetch = vi.fn(async (_url: unknown, init?: RequestInit) => {
+        const state = up();
+        if (state === false) throw new Error('ECONNREFUSED');
+        const status = state === true ? 200 : state;
+        if (status === 200) {
+            delivered.push((JSON.parse(init?.body as string) as { logs: TransportRecord[] }).logs.map(r => r.msg));
+        }
+        return { ok: status === 200, status, statusText: '' } as Response;
+    }) as typeof fetch;
+    return delivered;
+}
+
+function transport(spill: Record<string, number> = {}, onError?: (entry: HookLogEntry) => void) {
+    return new HttpTransport({
+        url: 'https://logs.example.com/ingest',
+        batchSize: 1000,
+        maxRetries: 0,
+        spill: { directory: DIR, ...spill },
+        onError
+    });
+}
+
+describe('HttpTransport spill queue', () => {
+    afterEach(async () => {
+        vi.useRealTimers();
+        delete (global as Record<string, unknown>).fetch;
+        await rm(DIR, { recursive: true, force: true });
+        cleanup();
+    });
+
+    it('spills failed batches and replays them in order before new records', async () => {
+        let online = false;
+        const delivered = mockCollector(() => online);
+        const http = transport();
+
+        http.write(record('a'));
+        http.write(record('b'));
+        await http.flush();
+        http.write(record('c'));
+        await http.flush();
+
+        expect(await readdir(DIR)).toHaveLength(2);
+        expect(http.bufferSize).toBe(0);
+        // The endpoint was still down: the second batch is spilled without another retry cycle.
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+
+        online = true;
+        http.write(record('d'));
+        await http.flush();
+
+        expect(delivered).toEqual([['a', 'b'], ['c'], ['d']]);
+        expect(await readdir(DIR)).toEqual([]);
+    });
+
+    it('replays segments left by a previous instance even with an empty buffer', async () => {
+        let online = false;
+        const delivered = mockCollector(() => online);
+        const first = transport();
+        first.write(record('before restart'));
+        await first.flush();
+
+        online = true;
+        await transport().flush();
+        expect(delivered).toEqual([['before restart']]);
+    });
+
+    it('close() delivers the spill queue and the buffer before closing', async () => {
+        let online = false;
+        const delivered = mockCollector(() => online);
+        const http = transport();
+        http.write(record('spilled'));
+        await http.flush();
+
+        online = true;
+        http.write(record('buffered'));
+        await http.close();
+
+        expect(delivered).toEqual([['spilled'], ['buffered']]);
+        expect(http.isReady()).toBe(false);
+        expect(await readdir(DIR)).toEqual([]);
+    });
+
+    it('discards a spilled batch the endpoint rejects with 4xx and keeps going', async () => {
+        const responses: Array<boolean | number> = [false, 422];
+        const delivered = mockCollector(() => responses.shift() ?? true);
+        const http = transport();
+        http.write(record('bad'));
+        await http.flush();
+
+        http.write(record('next'));
+        await http.flush();
+        expect(delivered).toEqual([['next']]);
+        expect(await readdir(DIR)).toEqual([]);
+    });
+
+    it('enforces maxBytes and maxAgeMs, reporting drops via onError', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        mockCollector(() => false);
+        const errors: HookLogEntry[] = [];
+        const http = transport({ maxBytes: 150, maxAgeMs: 60_000 }, e => errors.push(e));
+        const spillDrops = () => errors.filter(e => e.message.includes('spill queue dropped'));
+
+        for (const msg of ['one', 'two']) {
+            http.write(record(msg));
+            await http.flush();
+        }
+        expect(await readdir(DIR)).toHaveLength(1);
+        expect(spillDrops().map(e => e.extra)).toEqual([{ droppedCount: 1, reason: 'maxBytes' }]);
+
+        vi.setSystemTime(Date.now() + 61_000);
+        await http.flush();
+        expect(await readdir(DIR)).toEqual([]);
+        expect(spillDrops().at(-1)?.extra).toEqual({ droppedCount: 1, reason: 'maxAge' });
+    });
+});
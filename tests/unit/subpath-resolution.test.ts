@@ -61,6 +61,11 @@ describe('subpath "." (main entry)', () => {
         expect(THEME_PRESETS).not.toBeNull();
     });
 
+    it('exports captureGlobalErrors', async () => {
+        const { captureGlobalErrors } = await import('../../src/index.js');
+        expect(typeof captureGlobalErrors).toBe('function');
+    });
+
     it('has type exports verified by TypeScript type-check', async () => {
         // LoggerConfig, LogLevel, TransportRecord are type-only exports
         // — verified by TypeScript type-checking, not runtime checks.
@@ -207,6 +212,14 @@ describe('subpath "./context"', () => {
         expect(ns.createLogContext).toBeDefined();
         expect(typeof ns.createLogContext).toBe('function');
     });
+
+    it('exports the trace context propagation helpers', async () => {
+        const ns = await import('../../src/context-module.js');
+        expect(typeof ns.runWithTraceContext).toBe('function');
+        expect(typeof ns.injectTraceHeaders).toBe('function');
+        expect(typeof ns.withTraceHeaders).toBe('function');
+        expect(ns.TRACEPARENT_HEADER).toBe('traceparent');
+    });
 });
 
 // ============================================================
@@ -333,10 +346,38 @@ describe('subpath "./playground"', () => {
 // Subpath: ./node
 // ============================================================
 describe('subpath "./node"', () => {
-    it('module is empty (no Node-only utilities yet)', async () => {
+    it('exports the request logging middleware', async () => {
+        const mod = await import('../../src/node-module.js');
+        expect(typeof mod.httpRequestLogger).toBe('function');
+        expect(typeof mod.expressRequestLogger).toBe('function');
+        expect(typeof mod.fastifyRequestLogger).toBe('function');
+        expect(typeof mod.honoRequestLogger).toBe('function');
+    });
+
+    it('exports the syslog transport', async () => {
+        const mod = await import('../../src/node-module.js');
+        expect(typeof mod.SyslogTransport).toBe('function');
+        expect(mod.LOG_LEVEL_TO_SYSLOG_SEVERITY.error).toBe(3);
+    });
+
+    it('exports the GELF transport', async () => {
+        const mod = await import('../../src/node-module.js');
+        expect(typeof mod.GelfTransport).toBe('function');
+    });
+
+    it('exports the JSON stream transport', async () => {
+        const mod = await import('../../src/node-module.js');
+        expect(typeof mod.JsonStreamTransport).toBe('function');
+        expect(mod.PINO_LEVELS.critical).toBe(60);
+    });
+
+    it('exports the worker transport', async () => {
+        const mod = await import('../../src/node-module.js');
+        expect(typeof mod.WorkerTransport).toBe('function');
+    });
+
+    it('exports the shutdown handlers', async () => {
         const mod = await import('../../src/node-module.js');
-        // node-module is reserved for future Node-only utilities (fs-backed
-        // rotation, file capture, etc.). It is intentionally empty.
-        expect(Object.keys(mod).length).toBe(0);
+        expect(typeof mod.installShutdownHandlers).toBe('function');
     });
 });
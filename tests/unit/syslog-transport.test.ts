@@ -0,0 +1,156 @@
+/**
+ * SyslogTransport tests — RFC 5424 formatting (PRI from facility + level,
+ * app-name from resource, attributes as structured-data elements with
+ * escaping), RFC 3164 fallback, and delivery to local listeners over UDP,
+ * TCP with octet-counting framing and a Unix stream socket. Also covers
+ * connection failures being reported via onError instead of throwing, and
+ * that `unix` has no default path.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { createSocket } from 'node:dgram';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { rm } from 'node:fs/promises';
+import { SyslogTransport } from '../../src/node/SyslogTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+function record(overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: TIME, msg: 'hello', ...overrides
+    };
+}
+
+/** Stream listener that collects raw bytes per connection. */
+async function streamListener(listen: (server: Server) => void): Promise<{ server: Server; data: () => string }> {
+    const chunks: Buffer[] = [];
+    const server = createServer(socket => socket.on('data', chunk => chunks.push(chunk)));
+    await new Promise<void>(resolve => {
+        server.once('listening', resolve);
+        listen(server);
+    });
+    return { server, data: () => Buffer.concat(chunks).toString('utf8') };
+}
+
+/** Splits an RFC 6587 octet-counted stream into messages. */
+function parseOctetCounted(stream: string): string[] {
+    const messages: string[] = [];
+    let rest = Buffer.from(stream, 'utf8');
+    while (rest.length > 0) {
+        const space = rest.indexOf(0x20);
+        const length = Number(rest.subarray(0, space).toString('ascii'));
+        messages.push(rest.subarray(space + 1, space + 1 + length).toString('utf8'));
+        rest = rest.subarray(space + 1 + length);
+    }
+    return messages;
+}
+
+const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 10));
+};
+
+describe('SyslogTransport', () => {
+    const servers: Server[] = [];
+
+    afterEach(async () => {
+        await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+        cleanup();
+    });
+
+    it('formats RFC 5424 with PRI, app-name, msgid and structured data', () => {
+        const syslog = new SyslogTransport({ facility: 'local0', hostname: 'web-1' });
+        const line = syslog.format(record({
+            level: 'error',
+            msg: 'payment failed',
+            prefix: 'Billing',
+            resource: { 'service.name': 'billing-worker' },
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            attributes: { orderId: 'o-1', note: 'say "hi" [x] \\ ok', user: { id: 42, plan: { tier: 'pro' } }, tags: ['a'], gone: null }
+        }));
+
+        // local0 (16) * 8 + error (3)
+        expect(line).toBe(
+            `<131>1 2026-10-18T12:00:00.000Z web-1 billing-worker ${process.pid} Billing ` +
+            '[meta@32473 trace_id="4bf92f3577b34da6a3ce929d0e0e4736" orderId="o-1" note="say \\"hi\\" [x\\] \\\\ ok" tags="[\\"a\\"\\]"]' +
+            '[user@32473 id="42" plan.tier="pro"] payment failed'
+        );
+
+        const bare = new SyslogTransport({ hostname: 'web-1' }).format(record({ level: 'trace' }));
+        expect(bare).toBe(`<15>1 2026-10-18T12:00:00.000Z web-1 - ${process.pid} - - hello`);
+        expect(() => new SyslogTransport({ facility: 'bogus' as 'user' })).toThrow('unknown facility');
+        expect(() => new SyslogTransport({ protocol: 'unix' })).toThrow('`path` is required with protocol `unix`');
+    });
+
+    it('formats RFC 3164 when requested', () => {
+        const syslog = new SyslogTransport({ format: 'rfc3164', facility: 'daemon', hostname: 'web-1', appName: 'billing' });
+        expect(syslog.format(record({ level: 'warn', attributes: { ignored: true } })))
+            .toMatch(new RegExp(`^<28>Oct 18 \\d\\d:00:00 web-1 billing\\[${process.pid}\\]: hello$`));
+    });
+
+    it('sends one datagram per record over UDP', async () => {
+        const server = createSocket('udp4');
+        const received: string[] = [];
+        server.on('message', message => received.push(message.toString('utf8')));
+        await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+
+        const syslog = new SyslogTransport({ port: (server.address() as AddressInfo).port, hostname: 'web-1' });
+        syslog.write(record({ msg: 'first' }));
+        syslog.write(record({ msg: 'second', level: 'critical' }));
+        await syslog.close();
+        await waitFor(() => received.length === 2);
+        server.close();
+
+        expect(received).toEqual([
+            `<14>1 2026-10-18T12:00:00.000Z web-1 - ${process.pid} - - first`,
+            `<10>1 2026-10-18T12:00:00.000Z web-1 - ${process.pid} - - second`
+        ]);
+    });
+
+    it('frames messages with octet counting over TCP, queueing until connected', async () => {
+        const { server, data } = await streamListener(s => s.listen(0, '127.0.0.1'));
+        servers.push(server);
+        const syslog = new SyslogTransport({ protocol: 'tcp', port: (server.address() as AddressInfo).port });
+
+        syslog.write(record({ msg: 'multi\nline' }));
+        syslog.write(record({ msg: 'ünïcode' }));
+        await syslog.close();
+        await waitFor(() => parseOctetCounted(data()).length === 2);
+
+        const messages = parseOctetCounted(data());
+        expect(messages.map(m => m.slice(m.lastIndexOf(' - ') + 3))).toEqual(['multi\nline', 'ünïcode']);
+    });
+
+    it('writes newline-framed messages to a Unix stream socket', async () => {
+        const path = join(tmpdir(), `better-logger-syslog-${process.pid}.sock`);
+        await rm(path, { force: true });
+        const { server, data } = await streamListener(s => s.listen(path));
+        servers.push(server);
+
+        const syslog = new SyslogTransport({ protocol: 'unix', path });
+        syslog.write(record({ msg: 'via unix' }));
+        await syslog.close();
+        await waitFor(() => data().endsWith('\n'));
+
+        expect(data()).toMatch(/^<14>1 \S+ \S+ - \d+ - - via unix\n$/);
+    });
+
+    it('reports connection failures and queued drops via onError', async () => {
+        const errors: HookLogEntry[] = [];
+        const syslog = new SyslogTransport({
+            protocol: 'unix',
+            path: join(tmpdir(), `better-logger-missing-${process.pid}.sock`),
+            onError: entry => { errors.push(entry); }
+        });
+
+        expect(() => syslog.write(record())).not.toThrow();
+        await syslog.close();
+
+        expect(errors[0]?.message).toContain('connection to');
+        expect(errors.at(-1)?.message).toBe('SyslogTransport dropped 1 queued messages on close');
+        expect(errors.at(-1)?.extra).toEqual({ droppedCount: 1 });
+        expect(syslog.isReady()).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Trace correlation unit tests — dispatchToTransports fills
+ * TransportRecord.traceId/spanId from traceContextProvider, a traceparent
+ * (or traceId/spanId) bound via child()/withContext(), and the active span of
+ * a registered @opentelemetry/api, in that priority order.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { Logger } from '../../src/Logger.js';
+import { cleanup } from '../setup.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+const OTEL_API_KEY = Symbol.for('opentelemetry.js.api.1');
+const OTEL_SPAN_KEY = Symbol.for('OpenTelemetry Context Key SPAN');
+
+function registerFakeOtelSpan(traceId: string, spanId: string): void {
+    const span = { spanContext: () => ({ traceId, spanId, traceFlags: 1 }) };
+    (globalThis as Record<symbol, unknown>)[OTEL_API_KEY] = {
+        context: { active: () => ({ getValue: (key: symbol) => (key === OTEL_SPAN_KEY ? span : undefined) }) }
+    };
+}
+
+const lastRecord = (logger: Logger) => logger.getHistory().at(-1);
+
+describe('trace correlation', () => {
+    afterEach(() => {
+        cleanup();
+        delete (globalThis as Record<symbol, unknown>)[OTEL_API_KEY];
+    });
+
+    it('leaves traceId/spanId unset without an active trace', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.info('plain');
+        expect(lastRecord(logger)?.traceId).toBeUndefined();
+        expect(lastRecord(logger)?.spanId).toBeUndefined();
+    });
+
+    it('parses a traceparent bound via child()', async () => {
+        const logger = new Logger({ outputMode: 'silent' }).child({ traceparent: TRACEPARENT });
+        await logger.info('child');
+        expect(lastRecord(logger)).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    });
+
+    it('uses a traceparent bound via withContextAsync() only inside the scope', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.withContextAsync({ traceparent: TRACEPARENT }, async () => {
+            await Promise.resolve();
+            await logger.info('inside');
+        });
+        await logger.info('outside');
+
+        const [inside, outside] = logger.getHistory();
+        expect(inside).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+        expect(outside?.traceId).toBeUndefined();
+    });
+
+    it('accepts bound traceId/spanId and ignores malformed or all-zero ids', async () => {
+        const logger = new Logger({ outputMode: 'silent' });
+        const ids = logger.child({ traceId: TRACE_ID, spanId: SPAN_ID });
+        const zero = logger.child({ traceparent: `00-${'0'.repeat(32)}-${SPAN_ID}-01` });
+        const short = logger.child({ traceId: 'abc', spanId: SPAN_ID });
+        await ids.info('ids');
+        await zero.info('zero');
+        await short.info('short');
+
+        expect(lastRecord(ids)).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+        expect(lastRecord(zero)?.traceId).toBeUndefined();
+        expect(lastRecord(short)?.traceId).toBeUndefined();
+    });
+
+    it('reads the active span of a registered @opentelemetry/api', async () => {
+        registerFakeOtelSpan(TRACE_ID, SPAN_ID);
+        const logger = new Logger({ outputMode: 'silent' });
+        await logger.warn('otel');
+        expect(lastRecord(logger)).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    });
+
+    it('prefers traceContextProvider, then the bound context, then the OTel span', async () => {
+        registerFakeOtelSpan('a'.repeat(32), 'a'.repeat(16));
+        const provided = { traceId: 'b'.repeat(32), spanId: 'b'.repeat(16) };
+        let useProvider = true;
+        const logger = new Logger({
+            outputMode: 'silent',
+            traceContextProvider: () => (useProvider ? provided : undefined)
+        });
+        const bound = logger.child({ traceparent: TRACEPARENT });
+
+        await bound.info('provider');
+        expect(lastRecord(bound)?.traceId).toBe('b'.repeat(32));
+
+        useProvider = false;
+        await bound.info('bound');
+        expect(lastRecord(bound)?.traceId).toBe(TRACE_ID);
+
+        await logger.info('otel');
+        expect(lastRecord(logger)?.traceId).toBe('a'.repeat(32));
+    });
+
+    it('falls back to the other sources when the provider throws', async () => {
+        const logger = new Logger({
+            outputMode: 'silent',
+            traceContextProvider: () => { throw new Error('boom'); }
+        }).child({ traceparent: TRACEPARENT });
+        await logger.info('still logged');
+        expect(lastRecord(logger)).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    });
+});
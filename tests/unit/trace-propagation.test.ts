@@ -0,0 +1,129 @@
+/**
+ * W3C trace context propagation unit tests — traceparent/tracestate parsing
+ * and formatting, id generation, extraction from Headers and Node-style
+ * header objects, runWithTraceContext scoping, and injection into outgoing
+ * Headers / fetch init objects.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    parseTraceparent,
+    formatTraceparent,
+    parseTracestate,
+    generateTraceContext,
+    extractTraceContext,
+    runWithTraceContext,
+    getActiveTraceContext,
+    injectTraceHeaders,
+    withTraceHeaders,
+} from '../../src/context-module.js';
+import { Logger } from '../../src/Logger.js';
+import { cleanup } from '../setup.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe('W3C trace context propagation', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('traceparent', () => {
+        it('round-trips through parse and format', () => {
+            const ctx = parseTraceparent(TRACEPARENT.toUpperCase());
+            expect(ctx).toEqual({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 });
+            expect(formatTraceparent(ctx!)).toBe(TRACEPARENT);
+            expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 0 })).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+        });
+
+        it('rejects malformed headers, version ff and all-zero ids', () => {
+            expect(parseTraceparent('garbage')).toBeUndefined();
+            expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+            expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeUndefined();
+            expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeUndefined();
+        });
+    });
+
+    it('parseTracestate keeps valid members in order and drops the rest', () => {
+        const entries = parseTracestate('congo=t61rcWkgMzE, rojo=00f067aa0ba902b7,bad key=x,congo=dup,=novalue');
+        expect(Array.from(entries)).toEqual([['congo', 't61rcWkgMzE'], ['rojo', '00f067aa0ba902b7']]);
+    });
+
+    it('generateTraceContext returns fresh, valid, sampled ids', () => {
+        const a = generateTraceContext();
+        const b = generateTraceContext();
+        expect(a.traceId).toMatch(/^[0-9a-f]{32}$/);
+        expect(a.spanId).toMatch(/^[0-9a-f]{16}$/);
+        expect(a.traceFlags).toBe(1);
+        expect(a.traceId).not.toBe(b.traceId);
+    });
+
+    describe('extractTraceContext', () => {
+        it('reads Fetch Headers and case-insensitive Node header objects', () => {
+            const fromHeaders = extractTraceContext(new Headers({ traceparent: TRACEPARENT, tracestate: 'congo=t61' }));
+            expect(fromHeaders).toEqual({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1, tracestate: 'congo=t61' });
+
+            const fromNode = extractTraceContext({ TraceParent: TRACEPARENT, tracestate: ['a=1', 'b=2'] });
+            expect(fromNode.tracestate).toBe('a=1,b=2');
+        });
+
+        it('generates a new trace and ignores tracestate without a valid traceparent', () => {
+            const ctx = extractTraceContext({ tracestate: 'congo=t61' });
+            expect(ctx.traceId).toMatch(/^[0-9a-f]{32}$/);
+            expect(ctx.tracestate).toBeUndefined();
+        });
+    });
+
+    describe('runWithTraceContext', () => {
+        it('scopes the incoming ids to the handler logs and outgoing headers', async () => {
+            const logger = new Logger({ outputMode: 'silent' });
+            let outgoing: Headers | undefined;
+
+            const result = await runWithTraceContext(logger, { traceparent: TRACEPARENT, tracestate: 'congo=t61' }, async ctx => {
+                await Promise.resolve();
+                await logger.info('handling');
+                outgoing = new Headers(withTraceHeaders({ method: 'POST' }).headers);
+                return ctx.traceId;
+            });
+            await logger.info('after');
+
+            expect(result).toBe(TRACE_ID);
+            const [inside, after] = logger.getHistory();
+            expect(inside).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+            expect(after?.traceId).toBeUndefined();
+            expect(outgoing?.get('traceparent')).toBe(TRACEPARENT);
+            expect(outgoing?.get('tracestate')).toBe('congo=t61');
+            expect(getActiveTraceContext()).toBeUndefined();
+        });
+
+        it('starts a new trace when the request has none', async () => {
+            const logger = new Logger({ outputMode: 'silent' });
+            const ctx = await runWithTraceContext(logger, {}, async c => {
+                await logger.info('root');
+                return c;
+            });
+            expect(logger.getHistory()[0]).toMatchObject({ traceId: ctx.traceId, spanId: ctx.spanId });
+        });
+    });
+
+    describe('injection', () => {
+        it('injectTraceHeaders mutates plain objects and Headers', () => {
+            const ctx = { traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 };
+            expect(injectTraceHeaders({ accept: 'json' }, ctx)).toEqual({ accept: 'json', traceparent: TRACEPARENT });
+            expect(injectTraceHeaders(new Headers(), ctx).get('traceparent')).toBe(TRACEPARENT);
+        });
+
+        it('is a no-op without an active trace context', () => {
+            expect(injectTraceHeaders({ accept: 'json' })).toEqual({ accept: 'json' });
+        });
+
+        it('withTraceHeaders copies the init and keeps existing headers', () => {
+            const init: RequestInit = { method: 'GET', headers: { accept: 'json' } };
+            const next = withTraceHeaders(init, { traceId: TRACE_ID, spanId: SPAN_ID });
+            const headers = new Headers(next.headers);
+            expect(headers.get('accept')).toBe('json');
+            expect(headers.get('traceparent')).toBe(TRACEPARENT);
+            expect(init.headers).toEqual({ accept: 'json' });
+        });
+    });
+});
@@ -224,6 +224,20 @@ describe('HttpTransport', () => {
             expect(fetchMock).toHaveBeenCalledTimes(1);
             delete (global as Record<string, unknown>).fetch;
         });
+
+        it('drops a batch rejected with 4xx instead of resending it on the next flush', async () => {
+            const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+            global.fetch = fetchMock;
+
+            transport = new HttpTransport({ url: 'https://example.com/logs', maxRetries: 3, batchSize: 100, onError: () => {} });
+            transport.write(sampleRecord);
+            await transport.flush();
+            expect(transport.bufferSize).toBe(0);
+
+            await transport.flush();
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            delete (global as Record<string, unknown>).fetch;
+        });
     });
 });
 
@@ -332,7 +346,7 @@ describe('OtlpTransport', () => {
             expect(logRecord.body.stringValue).toBe('hello otlp');
         });
 
-        it('attributes flattening — nested object becomes dot-notation', () => {
+        it('attributes mapping — nested object becomes kvlistValue', () => {
             const transport = new OtlpTransport({ endpoint: 'https://example.com:4318', serviceName: 'svc' });
             const record: TransportRecord = {
                 ...sampleRecord,
@@ -341,10 +355,12 @@ describe('OtlpTransport', () => {
             const payload = transport.buildPayload([record]);
             const logRecord = payload.resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!;
 
-            // Nested object gets JSON-stringified (OTLP attribute value is string)
             expect(logRecord.attributes).toBeDefined();
             const userAttr = logRecord.attributes!.find((a: { key: string }) => a.key === 'user');
-            expect(userAttr?.value).toEqual({ stringValue: '{"name":"Alice","id":1}' });
+            expect(userAttr?.value).toEqual({ kvlistValue: { values: [
+                { key: 'name', value: { stringValue: 'Alice' } },
+                { key: 'id', value: { intValue: 1 } }
+            ]}});
         });
 
         it('prefix attribute is included', () => {
@@ -0,0 +1,146 @@
+/**
+ * Page-unload delivery tests — with flushOnUnload, HttpTransport in a stubbed
+ * browser drains its buffer on visibilitychange(hidden)/pagehide via
+ * navigator.sendBeacon, sends a single body under the 64KB beacon quota and
+ * spills or reports the overflow, falls back to fetch keepalive (no
+ * sendBeacon, or custom headers), reports drops via onError, and removes its
+ * listeners on close(). It is off by default.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rm } from 'node:fs/promises';
+import { HttpTransport } from '../../src/transports/HttpTransport.js';
+import type { HookLogEntry, TransportRecord } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const URL = 'https://logs.example.com/ingest';
+const DIR = `.tmp-unload-spill-${process.pid}`;
+
+function record(msg: string): TransportRecord {
+    return { level: 'info', levelValue: 1, severityNumber: 9, severityText: 'INFO', time: Date.now(), msg };
+}
+
+describe('HttpTransport unload delivery', () => {
+    let page: EventTarget;
+    let doc: EventTarget & { visibilityState: string };
+    let beacons: Array<{ url: string; body: Blob }>;
+    let sendBeacon: ReturnType<typeof vi.fn>;
+
+    const hide = () => {
+        doc.visibilityState = 'hidden';
+        doc.dispatchEvent(new Event('visibilitychange'));
+    };
+    const beaconMessages = async () => Promise.all(beacons.map(async b =>
+        (JSON.parse(await b.body.text()) as { logs: TransportRecord[] }).logs.map(r => r.msg)));
+
+    beforeEach(() => {
+        page = new EventTarget();
+        doc = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+        beacons = [];
+        sendBeacon = vi.fn((url: string, body: Blob) => {
+            beacons.push({ url, body });
+            return true;
+        });
+        vi.stubGlobal('window', page);
+        vi.stubGlobal('document', doc);
+        vi.stubGlobal('navigator', { sendBeacon });
+    });
+
+    afterEach(async () => {
+        vi.unstubAllGlobals();
+        await rm(DIR, { recursive: true, force: true });
+        cleanup();
+    });
+
+    it('drains the buffer with sendBeacon when the page is hidden', async () => {
+        const transport = new HttpTransport({ url: URL, flushOnUnload: true });
+        transport.write(record('a'));
+        transport.write(record('b'));
+
+        doc.dispatchEvent(new Event('visibilitychange'));
+        expect(sendBeacon).not.toHaveBeenCalled();
+
+        hide();
+        expect(transport.bufferSize).toBe(0);
+        expect(beacons[0]?.url).toBe(URL);
+        expect(beacons[0]?.body.type).toBe('application/json');
+        expect(await beaconMessages()).toEqual([['a', 'b']]);
+
+        page.dispatchEvent(new Event('pagehide'));
+        expect(sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends one body under 64KB with the newest records and reports the overflow', async () => {
+        const errors: HookLogEntry[] = [];
+        const transport = new HttpTransport({ url: URL, batchSize: 1000, flushOnUnload: true, onError: e => errors.push(e) });
+        for (let i = 0; i < 300; i++) transport.write(record(`${i}`.padEnd(500, '.')));
+        transport.write(record('x'.repeat(70 * 1024)));
+
+        page.dispatchEvent(new Event('pagehide'));
+
+        // Un segundo beacon superaría la cuota de 64 KB en vuelo y el browser lo rechazaría.
+        expect(beacons).toHaveLength(1);
+        expect(beacons[0]!.body.size).toBeLessThanOrEqual(64 * 1024);
+        const [sent] = await beaconMessages();
+        expect(sent!.length).toBeGreaterThan(100);
+        expect(sent!.at(-1)).toBe('299'.padEnd(500, '.'));
+        expect(errors.map(e => e.message)).toEqual([
+            'HttpTransport dropped 1 records on page unload (record larger than 64KB)',
+            `HttpTransport dropped ${300 - sent!.length} records on page unload (over the 64KB unload quota)`
+        ]);
+    });
+
+    it('keeps the records over the unload quota in the spill queue for the next session', async () => {
+        const transport = new HttpTransport({ url: URL, batchSize: 1000, flushOnUnload: true, spill: { directory: DIR } });
+        for (let i = 0; i < 300; i++) transport.write(record(`${i}`.padEnd(500, '.')));
+        page.dispatchEvent(new Event('pagehide'));
+        const [sent] = await beaconMessages();
+        await vi.waitFor(() => expect(transport.getHealth().queuedRecords).toBe(300 - sent!.length));
+        await transport.close();
+
+        const delivered: string[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (_url: unknown, init?: RequestInit) => {
+            delivered.push(...(JSON.parse(init?.body as string) as { logs: TransportRecord[] }).logs.map(r => r.msg));
+            return { ok: true, status: 200 } as Response;
+        }));
+        const nextSession = new HttpTransport({ url: URL, spill: { directory: DIR } });
+        await nextSession.flush();
+        expect([...delivered, ...sent!]).toEqual(Array.from({ length: 300 }, (_, i) => `${i}`.padEnd(500, '.')));
+    });
+
+    it('falls back to fetch keepalive without sendBeacon or with custom headers', async () => {
+        vi.stubGlobal('navigator', {});
+        const fetchMock = vi.fn(async () => ({ ok: true, status: 200 }) as Response);
+        vi.stubGlobal('fetch', fetchMock);
+
+        const plain = new HttpTransport({ url: URL, flushOnUnload: true });
+        const authed = new HttpTransport({ url: URL, headers: { Authorization: 'Bearer t' }, flushOnUnload: true });
+        plain.write(record('plain'));
+        authed.write(record('authed'));
+        hide();
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(fetchMock.mock.calls.map(([, init]) => (init as RequestInit).keepalive)).toEqual([true, true]);
+        expect((fetchMock.mock.calls[1]![1] as RequestInit).headers).toMatchObject({ Authorization: 'Bearer t' });
+    });
+
+    it('reports refused beacons and stops listening after close()', async () => {
+        sendBeacon.mockReturnValue(false);
+        const errors: HookLogEntry[] = [];
+        const transport = new HttpTransport({ url: URL, flushOnUnload: true, onError: e => errors.push(e) });
+        transport.write(record('lost'));
+        hide();
+        expect(errors[0]?.message).toBe('HttpTransport dropped 1 records on page unload (sendBeacon refused)');
+
+        await transport.close();
+        page.dispatchEvent(new Event('pagehide'));
+        expect(sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('is off unless flushOnUnload is set', () => {
+        const transport = new HttpTransport({ url: URL });
+        transport.write(record('kept'));
+        hide();
+        expect(sendBeacon).not.toHaveBeenCalled();
+        expect(transport.bufferSize).toBe(1);
+    });
+});
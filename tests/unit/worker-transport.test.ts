@@ -0,0 +1,184 @@
+/**
+ * WorkerTransport tests — the shared ring buffer (wrap-around, full ring),
+ * records reaching transports built inside a real worker thread (class and
+ * factory exports, per-target level, structured clone of binary attributes),
+ * flush() waiting for the worker's async flush, load / write errors
+ * reported through onError, drops on a full ring, and the synchronous
+ * close on process `exit`. The worker entry is bundled with rolldown, as
+ * in the package build.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'rolldown';
+import { WorkerTransport, type WorkerTransportOptions } from '../../src/node/WorkerTransport.js';
+import { RingBuffer } from '../../src/node/workerRing.js';
+import type { HookLogEntry, LogLevel, TransportRecord } from '../../src/types/index.js';
+import { LOG_LEVELS } from '../../src/types/index.js';
+import { cleanup } from '../setup.js';
+
+const TIME = Date.parse('2026-10-18T12:00:00.000Z');
+
+function record(msg: string, level: LogLevel = 'info', overrides: Partial<TransportRecord> = {}): TransportRecord {
+    return {
+        level, levelValue: LOG_LEVELS[level], severityNumber: 9, severityText: level.toUpperCase(), time: TIME, msg, ...overrides
+    };
+}
+
+// Transports de prueba: acumulan en memoria y solo escriben a disco en flush()
+// (tras un await), así que el fichero demuestra que el flush del worker terminó.
+const FIXTURE = `
+import { appendFileSync } from 'node:fs';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export class Collect {
+    name = 'collect';
+    lines = [];
+    constructor(options) { this.path = options.path; }
+    write(record) {
+        const raw = record.attributes?.raw;
+        this.lines.push(raw instanceof Uint8Array ? record.msg + ':' + Array.from(raw).join('.') : record.msg);
+    }
+    async flush() {
+        await sleep(20);
+        appendFileSync(this.path, this.lines.splice(0).map(line => line + '\\n').join(''));
+    }
+    close() { appendFileSync(this.path, 'closed\\n'); }
+}
+
+export const createCollect = async options => new Collect(options);
+
+export class Broken {
+    name = 'broken';
+    write() { throw new Error('disk on fire'); }
+}
+`;
+
+describe('WorkerTransport', () => {
+    let dir: string;
+    let workerUrl: URL;
+    let fixture: string;
+    const transports: WorkerTransport[] = [];
+
+    const create = (options: Omit<WorkerTransportOptions, 'workerUrl'>) => {
+        const transport = new WorkerTransport({ syncFlushOnExit: false, ...options, workerUrl });
+        transports.push(transport);
+        return transport;
+    };
+    const lines = (file: string) => existsSync(file) ? readFileSync(file, 'utf8').trimEnd().split('\n') : [];
+
+    beforeAll(async () => {
+        dir = mkdtempSync(join(tmpdir(), 'better-logger-worker-'));
+        const workerFile = join(dir, 'node-transport-worker.mjs');
+        await build({
+            input: 'src/node-transport-worker.ts',
+            output: { file: workerFile, format: 'es' },
+            platform: 'node',
+            external: [/^node:/],
+            logLevel: 'silent'
+        });
+        workerUrl = pathToFileURL(workerFile);
+        fixture = join(dir, 'fixture.mjs');
+        writeFileSync(fixture, FIXTURE);
+    }, 30_000);
+
+    afterEach(async () => {
+        await Promise.all(transports.splice(0).map(transport => transport.close()));
+        cleanup();
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('ring buffer wraps messages around the end and refuses what does not fit', () => {
+        const ring = new RingBuffer(RingBuffer.allocate(32));
+        const bytes = (...values: number[]) => new Uint8Array(values);
+
+        expect(ring.write(bytes(1, 2, 3, 4, 5, 6, 7, 8, 9, 10))).toBe(true);
+        expect(ring.write(bytes(11, 12, 13, 14, 15, 16, 17, 18, 19, 20))).toBe(true);
+        expect(ring.write(bytes(21, 22, 23, 24, 25))).toBe(false);
+        expect(ring.used).toBe(28);
+
+        expect(Array.from(ring.read()!)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        // Cabecera y cuerpo cruzan el final del buffer.
+        expect(ring.write(bytes(21, 22, 23, 24, 25, 26, 27, 28))).toBe(true);
+        expect(Array.from(ring.read()!)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+        expect(Array.from(ring.read()!)).toEqual([21, 22, 23, 24, 25, 26, 27, 28]);
+        expect(ring.read()).toBeUndefined();
+        expect(ring.write(new Uint8Array(29))).toBe(false);
+    });
+
+    it('runs class and factory transports in the worker with per-target levels', async () => {
+        const all = join(dir, 'all.log');
+        const warn = join(dir, 'warn.log');
+        const worker = create({
+            targets: [
+                { module: fixture, export: 'Collect', options: { path: all } },
+                { module: fixture, export: 'createCollect', options: { path: warn }, level: 'warn' }
+            ]
+        });
+
+        worker.write(record('boot'));
+        worker.write(record('slow query', 'warn', { attributes: { raw: new Uint8Array([1, 255]) } }));
+        await worker.flush();
+        expect(lines(all)).toEqual(['boot', 'slow query:1.255']);
+        expect(lines(warn)).toEqual(['slow query:1.255']);
+
+        worker.write(record('down', 'critical'));
+        await worker.close();
+        expect(worker.isReady()).toBe(false);
+        expect(lines(all)).toEqual(['boot', 'slow query:1.255', 'down', 'closed']);
+        expect(lines(warn)).toEqual(['slow query:1.255', 'down', 'closed']);
+    });
+
+    it('reports load and write failures through onError and keeps answering flushes', async () => {
+        const errors: HookLogEntry[] = [];
+        const out = join(dir, 'survivor.log');
+        const worker = create({
+            targets: [
+                { module: join(dir, 'missing.mjs') },
+                { module: fixture, export: 'Broken' },
+                { module: fixture, export: 'Collect', options: { path: out } }
+            ],
+            onError: entry => { errors.push(entry); }
+        });
+
+        worker.write(record('still delivered'));
+        await worker.flush();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(lines(out)).toEqual(['still delivered']);
+        expect(errors.map(entry => entry.message)).toEqual([
+            expect.stringContaining(`WorkerTransport could not load "default" from "${pathToFileURL(join(dir, 'missing.mjs')).href}"`),
+            'WorkerTransport: broken write failed: disk on fire'
+        ]);
+    });
+
+    it('drops records that do not fit in the ring', () => {
+        const errors: HookLogEntry[] = [];
+        const worker = create({ targets: [], bufferSize: 64, onError: entry => { errors.push(entry); } });
+
+        worker.write(record('x'.repeat(100)));
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toMatchObject({ message: 'WorkerTransport ring buffer full: dropped record', extra: { droppedCount: 1 } });
+    });
+
+    it('closes the worker synchronously on process exit', () => {
+        const out = join(dir, 'exit.log');
+        const before = new Set(process.listeners('exit'));
+        const worker = new WorkerTransport({ targets: [{ module: fixture, export: 'Collect', options: { path: out } }], workerUrl });
+        const onExit = process.listeners('exit').find(listener => !before.has(listener))!;
+        try {
+            // El worker aún está arrancando: el exit handler espera a que cargue, entregue y cierre.
+            worker.write(record('last words', 'critical'));
+            onExit(0);
+            expect(lines(out)).toEqual(['last words', 'closed']);
+            expect(worker.isReady()).toBe(false);
+        } finally {
+            process.off('exit', onExit);
+            transports.push(worker);
+        }
+    });
+});
@@ -1,6 +1,7 @@
 import { defineConfig, UserConfig } from 'vite'
 import { resolve } from 'path'
 import dts from 'vite-plugin-dts'
+import { version } from './package.json'
 
 // Configuración base compartida
 const baseConfig = {
@@ -13,7 +14,8 @@ const baseConfig = {
     })
   ],
   define: {
-    'process.env.NODE_ENV': JSON.stringify('production')
+    'process.env.NODE_ENV': JSON.stringify('production'),
+    __BETTER_LOGGER_VERSION__: JSON.stringify(version)
   },
   build: {
     sourcemap: true,